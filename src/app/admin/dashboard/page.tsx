@@ -3,22 +3,10 @@
 import { useState, useEffect } from 'react';
 import { ProtectedRoute } from '../../../components/ProtectedRoute';
 import { useAuth } from '../../../hooks/useAuth';
-import { orderApi } from '../../../services/api';
+import { orderApi, type Order } from '../../../services/api';
 
-interface Order {
-  _id: string;
-  orderNumber: string;
-  eventId: {
-    title: string;
-  };
-  userId: {
-    firstName: string;
-    lastName: string;
-  };
-  totalAmount: number;
-  paymentStatus: string;
-  createdAt: string;
-}
+const getEventTitle = (order: Order) =>
+  typeof order.eventId === 'string' ? order.eventId : order.eventId.title;
 
 export default function AdminDashboard() {
   const { user, logout } = useAuth();
@@ -94,7 +82,7 @@ export default function AdminDashboard() {
                 <div className="ml-4">
                   <h3 className="text-lg font-medium text-gray-900">Revenue</h3>
                   <p className="text-2xl font-semibold text-gray-900">
-                    ${orders.reduce((sum, order) => sum + order.totalAmount, 0).toFixed(2)}
+                    ${orders.reduce((sum, order) => sum + order.breakdown.total, 0).toFixed(2)}
                   </p>
                 </div>
               </div>
@@ -112,7 +100,7 @@ export default function AdminDashboard() {
                 <div className="ml-4">
                   <h3 className="text-lg font-medium text-gray-900">Customers</h3>
                   <p className="text-2xl font-semibold text-gray-900">
-                    {new Set(orders.map(order => order.userId)).size}
+                    {new Set(orders.map(order => order.customerInfo?.email || order.guestEmail)).size}
                   </p>
                 </div>
               </div>
@@ -165,13 +153,13 @@ export default function AdminDashboard() {
                             {order.orderNumber}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                            {order.eventId.title}
+                            {getEventTitle(order)}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                            {order.userId.firstName} {order.userId.lastName}
+                            {order.customerInfo ? `${order.customerInfo.firstName} ${order.customerInfo.lastName}` : order.guestEmail || 'Guest'}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            ${order.totalAmount.toFixed(2)}
+                            ${order.breakdown.total.toFixed(2)}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
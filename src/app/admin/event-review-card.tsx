@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { EventFieldChange, ReviewEvent } from '../../services/api';
+import type { ReviewDecision } from '../../hooks/useEventReviewQueue';
+
+interface EventReviewCardProps {
+  event: ReviewEvent;
+  // Only pending events can be decided; other statuses are shown read-only
+  actionable: boolean;
+  onDecide: (decision: ReviewDecision) => Promise<boolean>;
+}
+
+type NoteAction = 'reject' | 'request_changes';
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+function ChangesTable({ changes }: { changes: EventFieldChange[] }) {
+  return (
+    <table className="min-w-full text-sm mt-3 border border-gray-200 rounded-lg overflow-hidden">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Before</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">After</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {changes.map((change) => (
+          <tr key={change.field}>
+            <td className="px-4 py-2 font-mono text-gray-700">{change.field}</td>
+            <td className="px-4 py-2 text-red-700 line-through break-all">{formatValue(change.previous)}</td>
+            <td className="px-4 py-2 text-green-700 break-all">{formatValue(change.current)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export function EventReviewCard({ event, actionable, onDecide }: EventReviewCardProps) {
+  const [noteAction, setNoteAction] = useState<NoteAction | null>(null);
+  const [note, setNote] = useState('');
+  const [showChanges, setShowChanges] = useState(false);
+
+  const openNote = (action: NoteAction) => {
+    setNoteAction(noteAction === action ? null : action);
+    setNote('');
+  };
+
+  const submitNote = () => {
+    const text = note.trim();
+    if (!noteAction || !text) return;
+    void onDecide(noteAction === 'reject' ? { action: 'reject', reason: text } : { action: 'request_changes', message: text });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{event.title}</h3>
+          <p className="text-gray-600 mt-1">
+            Organizer: {event.organizer.name}
+            {event.organizer.email && <span className="text-gray-400"> ({event.organizer.email})</span>}
+          </p>
+          <p className="text-gray-500 text-sm mt-2">
+            Submitted: {new Date(event.submittedAt).toLocaleDateString()}
+          </p>
+          <p className="text-gray-500 text-sm">
+            Event Date: {new Date(event.eventDate).toLocaleDateString()}
+          </p>
+          {event.reviewNote && (
+            <p className="text-sm text-amber-700 mt-2">Last review note: {event.reviewNote}</p>
+          )}
+          <Link
+            href={`/admin/events/${event._id}/pricing`}
+            className="inline-block mt-2 text-sm text-blue-600 hover:text-blue-800"
+          >
+            Edit pricing zones
+          </Link>
+        </div>
+        {actionable && (
+          <div className="flex space-x-3">
+            <button
+              onClick={() => void onDecide({ action: 'approve' })}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
+            >
+              Approve
+            </button>
+            <button
+              onClick={() => openNote('request_changes')}
+              className="bg-amber-500 text-white px-4 py-2 rounded-lg hover:bg-amber-600 transition-colors"
+            >
+              Request Changes
+            </button>
+            <button
+              onClick={() => openNote('reject')}
+              className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors"
+            >
+              Reject
+            </button>
+          </div>
+        )}
+      </div>
+
+      {event.lastReviewedAt ? (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowChanges(!showChanges)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            {showChanges ? 'Hide' : 'Show'} changes since last review on{' '}
+            {new Date(event.lastReviewedAt).toLocaleDateString()} ({event.changes.length})
+          </button>
+          {showChanges &&
+            (event.changes.length > 0 ? (
+              <ChangesTable changes={event.changes} />
+            ) : (
+              <p className="text-sm text-gray-500 mt-2">No fields changed since the last review.</p>
+            ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mt-4">First submission — nothing to compare yet.</p>
+      )}
+
+      {noteAction && (
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {noteAction === 'reject' ? 'Reason for rejection' : 'Changes the organizer should make'}
+          </label>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="flex justify-end space-x-3 mt-2">
+            <button onClick={() => setNoteAction(null)} className="text-gray-500 hover:text-gray-700 px-4 py-2">
+              Cancel
+            </button>
+            <button
+              onClick={submitNote}
+              disabled={!note.trim()}
+              className={`${
+                noteAction === 'reject' ? 'bg-red-600 hover:bg-red-700' : 'bg-amber-500 hover:bg-amber-600'
+              } text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50`}
+            >
+              {noteAction === 'reject' ? 'Reject Event' : 'Send to Organizer'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import {
+  adminApi,
+  eventApi,
+  seatApi,
+  type Event,
+  type EventPricingConfig,
+  type SeatPlanResponse,
+} from '../../../../../services/api';
+import {
+  ZONE_CURRENCIES,
+  addZone,
+  assignSeats,
+  assignSection,
+  countSeatsByZone,
+  pricingConfigFromEvent,
+  removeZone,
+  updateZone,
+  validatePricingConfig,
+  withSeatCounts,
+  zoneColor,
+  zoneKeyForSeat,
+} from '../../../../../lib/pricing-zones';
+import { naturalCompare } from '../../../../../lib/best-available';
+import { SeatMap } from '../../../../../components/SeatMap';
+import { ZoneMap, type SelectionTool } from './zone-map';
+
+const formatPrice = (price: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(price);
+
+const NO_SELECTION = new Set<string>();
+
+export default function EventPricingPage() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+
+  const [event, setEvent] = useState<Event | null>(null);
+  const [plan, setPlan] = useState<SeatPlanResponse | null>(null);
+  const [config, setConfig] = useState<EventPricingConfig | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [tool, setTool] = useState<SelectionTool>('click');
+  const [targetZone, setTargetZone] = useState('');
+  const [buyerPreview, setBuyerPreview] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    // Check authentication
+    const token = localStorage.getItem('accessToken');
+    if (!token) {
+      router.push('/login');
+      return;
+    }
+
+    const userData = JSON.parse(localStorage.getItem('user') || '{}');
+    if (userData.role !== 'admin') {
+      router.push('/');
+      return;
+    }
+
+    Promise.all([eventApi.getEvent(id), seatApi.getSeatPlan(id)])
+      .then(([eventResponse, planResponse]) => {
+        setEvent(eventResponse.data);
+        setPlan(planResponse.data);
+        setConfig(pricingConfigFromEvent(eventResponse.data));
+      })
+      .catch((err: any) => {
+        console.error('❌ Failed to load event pricing:', err);
+        setLoadError(err.response?.data?.message || 'Failed to load this event');
+      });
+  }, [id, router]);
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-red-600">{loadError}</p>
+      </div>
+    );
+  }
+
+  if (!event || !plan || !config) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const seats = plan.seats;
+  const zoneEntries = Object.entries(config.pricingZones);
+  const { counts } = countSeatsByZone(config, seats);
+  const errors = validatePricingConfig(config, seats);
+  const sections = Array.from(new Set(seats.map((seat) => seat.section))).sort(naturalCompare);
+  const assignTo = config.pricingZones[targetZone] ? targetZone : zoneEntries[0]?.[0] ?? '';
+
+  const edit = (next: EventPricingConfig) => {
+    setConfig(next);
+    setSavedAt(null);
+  };
+
+  const handleSelect = (seatIds: string[], additive: boolean) =>
+    setSelected((prev) => (additive ? new Set([...prev, ...seatIds]) : new Set(seatIds)));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const response = await adminApi.updateEventPricing(id, withSeatCounts(config, seats));
+      setEvent(response.data);
+      setConfig(pricingConfigFromEvent(response.data));
+      setSavedAt(new Date());
+    } catch (err: any) {
+      console.error('❌ Failed to save event pricing:', err);
+      setSaveError(err.response?.data?.message || 'Failed to save pricing');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex justify-between items-center">
+          <div>
+            <Link href="/admin" className="text-sm text-gray-500 hover:text-gray-700">
+              ← Admin panel
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Pricing: {event.title}</h1>
+            <p className="mt-1 text-gray-600">
+              {plan.venueName} · {seats.length.toLocaleString()} seats
+            </p>
+          </div>
+          <div className="flex items-center space-x-4">
+            {savedAt && <span className="text-sm text-green-600">Saved at {savedAt.toLocaleTimeString()}</span>}
+            <button
+              onClick={handleSave}
+              disabled={saving || errors.length > 0}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save pricing'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm p-6">
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+              {(
+                [
+                  ['click', 'Select'],
+                  ['lasso', 'Lasso'],
+                ] as const
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => {
+                    setTool(value);
+                    setBuyerPreview(false);
+                  }}
+                  className={`px-3 py-1.5 ${
+                    tool === value && !buyerPreview ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                onClick={() => setBuyerPreview(true)}
+                className={`px-3 py-1.5 ${buyerPreview ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                Buyer preview
+              </button>
+            </div>
+
+            {!buyerPreview && selected.size > 0 && (
+              <>
+                <span className="text-sm text-gray-600">{selected.size} seats selected</span>
+                <select
+                  value={assignTo}
+                  onChange={(e) => setTargetZone(e.target.value)}
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                >
+                  {zoneEntries.map(([key, zone]) => (
+                    <option key={key} value={key}>
+                      {zone.name || key}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => {
+                    edit(assignSeats(config, seats, selected, assignTo));
+                    setSelected(new Set());
+                  }}
+                  disabled={!assignTo}
+                  className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  Assign to zone
+                </button>
+                <button onClick={() => setSelected(new Set())} className="text-sm text-gray-500 hover:text-gray-700">
+                  Clear
+                </button>
+              </>
+            )}
+          </div>
+
+          {buyerPreview ? (
+            <>
+              <div className="flex flex-wrap gap-4 mb-4 text-sm">
+                {zoneEntries.map(([key, zone]) => (
+                  <span key={key} className="inline-flex items-center">
+                    <span
+                      className="inline-block w-3 h-3 rounded-full mr-2"
+                      style={{ background: zoneColor(config, key) }}
+                    />
+                    {zone.name} · {formatPrice(zone.price, zone.currency)}
+                  </span>
+                ))}
+              </div>
+              <SeatMap
+                seats={seats}
+                seatMapSvg={plan.seatMapSvg}
+                selected={NO_SELECTION}
+                onSeatClick={() => undefined}
+                seatColor={(seat) => zoneColor(config, zoneKeyForSeat(config, seat))}
+              />
+            </>
+          ) : (
+            <ZoneMap seats={seats} config={config} selected={selected} tool={tool} onSelect={handleSelect} />
+          )}
+        </div>
+
+        <div className="space-y-8">
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Zones</h2>
+              <button
+                onClick={() =>
+                  edit(addZone(config, { name: `Zone ${zoneEntries.length + 1}`, price: 0, currency: 'USD', available: 0 }))
+                }
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                + Add zone
+              </button>
+            </div>
+            <div className="space-y-4">
+              {zoneEntries.map(([key, zone]) => (
+                <div key={key} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-center gap-2">
+                    <span className="inline-block w-4 h-4 rounded-full" style={{ background: zoneColor(config, key) }} />
+                    <input
+                      type="text"
+                      value={zone.name}
+                      onChange={(e) => edit(updateZone(config, key, { name: e.target.value }))}
+                      className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                    <button
+                      onClick={() => edit(removeZone(config, key))}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-2 mt-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={zone.price}
+                      onChange={(e) => edit(updateZone(config, key, { price: Number(e.target.value) }))}
+                      className="w-28 px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                    <select
+                      value={zone.currency}
+                      onChange={(e) => edit(updateZone(config, key, { currency: e.target.value }))}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm"
+                    >
+                      {Array.from(new Set([...ZONE_CURRENCIES, zone.currency])).map((currency) => (
+                        <option key={currency} value={currency}>
+                          {currency}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="text-sm text-gray-500 ml-auto">{counts[key].toLocaleString()} seats</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Sections</h2>
+            <div className="space-y-2">
+              {sections.map((section) => {
+                const current = config.sectionZones[section] ?? section;
+                return (
+                  <label key={section} className="flex items-center justify-between text-sm">
+                    <span className="font-mono text-gray-700">{section}</span>
+                    <select
+                      value={config.pricingZones[current] ? current : ''}
+                      onChange={(e) => edit(assignSection(config, seats, section, e.target.value))}
+                      className="px-2 py-1 border border-gray-300 rounded"
+                    >
+                      <option value="" disabled>
+                        No zone
+                      </option>
+                      {zoneEntries.map(([key, zone]) => (
+                        <option key={key} value={key}>
+                          {zone.name || key}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          {(errors.length > 0 || saveError) && (
+            <ul className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm list-disc list-inside">
+              {saveError && <li>{saveError}</li>}
+              {errors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useRef, useState, type PointerEvent } from 'react';
+import type { EventPricingConfig, SeatPlanSeat } from '../../../../../services/api';
+import {
+  estimateSeatRadius,
+  getBounds,
+  padBounds,
+  pointInPolygon,
+  type Point,
+} from '../../../../../lib/seat-map-geometry';
+import { zoneColor, zoneKeyForSeat } from '../../../../../lib/pricing-zones';
+
+export type SelectionTool = 'click' | 'lasso';
+
+interface ZoneMapProps {
+  seats: SeatPlanSeat[];
+  config: EventPricingConfig;
+  selected: Set<string>;
+  tool: SelectionTool;
+  // `additive` adds to the current selection instead of replacing it
+  onSelect: (seatIds: string[], additive: boolean) => void;
+}
+
+// Minimum pointer travel (SVG units, relative to seat size) between recorded lasso points
+const LASSO_STEP = 0.5;
+
+/**
+ * Seats colored by their pricing zone. Click seats (shift to add) or draw a
+ * lasso around them to select; click a section label to select the section.
+ */
+export function ZoneMap({ seats, config, selected, tool, onSelect }: ZoneMapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [lasso, setLasso] = useState<{ points: Point[]; additive: boolean } | null>(null);
+
+  const placed = seats.filter(
+    (seat): seat is SeatPlanSeat & { coordinates: Point } => seat.coordinates !== undefined
+  );
+  const points = placed.map((seat) => seat.coordinates);
+  const radius = estimateSeatRadius(points);
+  const bounds = getBounds(points);
+
+  if (!bounds) {
+    return <p className="text-gray-500">This event&apos;s seat plan has no seat coordinates to draw.</p>;
+  }
+
+  const view = padBounds(bounds, radius * 6);
+  const sectionLabels = Array.from(new Set(placed.map((seat) => seat.section))).map((section) => {
+    const sectionBounds = getBounds(placed.filter((seat) => seat.section === section).map((seat) => seat.coordinates))!;
+    return { section, x: (sectionBounds.minX + sectionBounds.maxX) / 2, y: sectionBounds.minY - radius * 2.5 };
+  });
+
+  const toSvgPoint = (clientX: number, clientY: number): Point => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return { x: clientX, y: clientY };
+    const point = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  const handlePointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    if (tool !== 'lasso') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setLasso({ points: [toSvgPoint(e.clientX, e.clientY)], additive: e.shiftKey });
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    if (!lasso) return;
+    const point = toSvgPoint(e.clientX, e.clientY);
+    const last = lasso.points[lasso.points.length - 1];
+    if (Math.hypot(point.x - last.x, point.y - last.y) < radius * LASSO_STEP) return;
+    setLasso({ ...lasso, points: [...lasso.points, point] });
+  };
+
+  const handlePointerUp = (e: PointerEvent<SVGSVGElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    if (!lasso) return;
+    setLasso(null);
+    if (lasso.points.length < 3) return;
+    onSelect(
+      placed.filter((seat) => pointInPolygon(seat.coordinates, lasso.points)).map((seat) => seat.id),
+      lasso.additive
+    );
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`${view.minX} ${view.minY} ${view.maxX - view.minX} ${view.maxY - view.minY}`}
+      className="w-full border border-gray-200 rounded-lg bg-white"
+      style={{ height: 520, touchAction: 'none', cursor: tool === 'lasso' ? 'crosshair' : 'default' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {placed.map((seat) => {
+        const isSelected = selected.has(seat.id);
+        return (
+          <circle
+            key={seat.id}
+            cx={seat.coordinates.x}
+            cy={seat.coordinates.y}
+            r={radius}
+            fill={zoneColor(config, zoneKeyForSeat(config, seat))}
+            stroke={isSelected ? '#111827' : 'none'}
+            strokeWidth={radius * 0.5}
+            style={{ cursor: tool === 'click' ? 'pointer' : undefined }}
+            onClick={(e) => {
+              if (tool !== 'click') return;
+              if (e.shiftKey) onSelect([seat.id], true);
+              else onSelect(isSelected && selected.size === 1 ? [] : [seat.id], false);
+            }}
+          >
+            <title>{`${seat.section} · Row ${seat.row} · Seat ${seat.seat}`}</title>
+          </circle>
+        );
+      })}
+
+      {sectionLabels.map((label) => (
+        <text
+          key={label.section}
+          x={label.x}
+          y={label.y}
+          textAnchor="middle"
+          fontSize={radius * 2.5}
+          fontWeight={600}
+          fill="#374151"
+          style={{ cursor: 'pointer' }}
+          onClick={(e) =>
+            onSelect(
+              placed.filter((seat) => seat.section === label.section).map((seat) => seat.id),
+              e.shiftKey
+            )
+          }
+        >
+          {label.section}
+        </text>
+      ))}
+
+      {lasso && (
+        <polygon
+          points={lasso.points.map((p) => `${p.x},${p.y}`).join(' ')}
+          fill="rgba(37, 99, 235, 0.1)"
+          stroke="#2563eb"
+          strokeWidth={radius * 0.3}
+          strokeDasharray={`${radius} ${radius * 0.5}`}
+          pointerEvents="none"
+        />
+      )}
+    </svg>
+  );
+}
@@ -18,10 +18,12 @@ export default function AdminLoginPage() {
 
     try {
       const response = await staffAuthApi.login(email, password);
-      const { accessToken, refreshToken } = response.data;
+      const { accessToken, refreshToken, staff } = response.data;
       
       localStorage.setItem('accessToken', accessToken);
       localStorage.setItem('refreshToken', refreshToken);
+      // Marks this as a staff session so token refresh goes to the staff auth endpoint
+      localStorage.setItem('staffProfile', JSON.stringify(staff));
       
       router.push('/admin/dashboard');
     } catch (err) {
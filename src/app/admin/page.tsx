@@ -2,15 +2,62 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { EventReviewCard } from './event-review-card';
+import { UserActionDialog } from './user-action-dialog';
+import { SalesAnalyticsTab } from './sales-analytics-tab';
+import { RefundsTab } from './refunds-tab';
+import { useEventReviewQueue } from '../../hooks/useEventReviewQueue';
+import { useAdminUsers, type UserAction, type UserFilters } from '../../hooks/useAdminUsers';
+import { useSalesData } from '../../hooks/useSalesData';
+import { useSalesSummary } from '../../hooks/useSalesSummary';
+import type { AdminUser, EventStatus, SalesSummary, UserRole } from '../../services/api';
+
+const REVIEW_FILTERS: { status: EventStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'changes_requested', label: 'Changes Requested' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'rejected', label: 'Rejected' },
+];
+
+const USER_ROLES: UserRole[] = ['user', 'organizer', 'admin'];
+
+const STATUS_BADGES: Record<AdminUser['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  suspended: 'bg-red-100 text-red-800',
+};
+
+const formatRevenue = (revenueByCurrency: SalesSummary['revenueByCurrency']) =>
+  Object.entries(revenueByCurrency)
+    .map(([currency, amount]) => new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount))
+    .join(' + ') || '—';
+
+const ACTION_LABELS: Record<UserAction['action'], string> = {
+  change_role: 'Role changed',
+  suspend: 'Suspended',
+  reactivate: 'Reactivated',
+  force_password_reset: 'Password reset forced',
+  delete: 'Deleted',
+};
 
 export default function AdminPanel() {
   const router = useRouter();
   
   const [user, setUser] = useState<any>(null);
-  const [events, setEvents] = useState<any[]>([]);
-  const [users, setUsers] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'events' | 'users' | 'sales'>('events');
+  const [activeTab, setActiveTab] = useState<'events' | 'users' | 'sales' | 'refunds'>('events');
+  // Nothing admin-only is requested until the role check below has passed
+  const authorized = user !== null;
+  const [reviewStatus, setReviewStatus] = useState<EventStatus>('pending');
+  const reviewQueue = useEventReviewQueue(reviewStatus, authorized);
+  const [userSearch, setUserSearch] = useState('');
+  const [userFilters, setUserFilters] = useState<UserFilters>({ search: '', role: '' });
+  const adminUsers = useAdminUsers(userFilters, authorized);
+  const salesSummary = useSalesSummary(authorized);
+  // The full order history is only fetched once the sales tab is opened
+  const [salesOpened, setSalesOpened] = useState(false);
+  const sales = useSalesData(salesOpened && authorized);
+  const [pendingUserAction, setPendingUserAction] = useState<{ user: AdminUser; change: UserAction } | null>(null);
 
   useEffect(() => {
     // Check authentication
@@ -29,84 +76,9 @@ export default function AdminPanel() {
     
     setUser(userData);
     
-    // Mock data for demonstration
-    const mockEvents = [
-      {
-        _id: '1',
-        title: 'Summer Music Festival',
-        slug: 'summer-music-festival',
-        organizer: { name: 'John Doe' },
-        status: 'pending',
-        createdAt: '2026-01-15T10:00:00Z',
-        startDate: '2026-06-15T19:00:00Z'
-      },
-      {
-        _id: '2',
-        title: 'Tech Conference 2026',
-        slug: 'tech-conference-2026',
-        organizer: { name: 'Jane Smith' },
-        status: 'approved',
-        createdAt: '2026-01-10T14:30:00Z',
-        startDate: '2026-03-20T09:00:00Z'
-      }
-    ];
-    
-    const mockUsers = [
-      {
-        _id: '1',
-        name: 'John Doe',
-        email: 'john@example.com',
-        role: 'organizer',
-        createdAt: '2026-01-01T00:00:00Z',
-        status: 'active'
-      },
-      {
-        _id: '2',
-        name: 'Jane Smith',
-        email: 'jane@example.com',
-        role: 'user',
-        createdAt: '2026-01-05T00:00:00Z',
-        status: 'active'
-      },
-      {
-        _id: '3',
-        name: 'Bob Johnson',
-        email: 'bob@example.com',
-        role: 'organizer',
-        createdAt: '2026-01-10T00:00:00Z',
-        status: 'pending'
-      }
-    ];
-    
-    setEvents(mockEvents);
-    setUsers(mockUsers);
     setLoading(false);
   }, [router]);
 
-  const handleApproveEvent = (eventId: string) => {
-    setEvents(events.map(event => 
-      event._id === eventId 
-        ? { ...event, status: 'approved' }
-        : event
-    ));
-  };
-
-  const handleRejectEvent = (eventId: string) => {
-    setEvents(events.map(event => 
-      event._id === eventId 
-        ? { ...event, status: 'rejected' }
-        : event
-    ));
-  };
-
-  const handleUserStatusChange = (userId: string, status: string) => {
-    setUsers(users.map(user => 
-      user._id === userId 
-        ? { ...user, status }
-        : user
-    ));
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -129,6 +101,12 @@ export default function AdminPanel() {
               <p className="mt-1 text-gray-600">Manage platform events, users, and analytics</p>
             </div>
             <div className="flex items-center space-x-4">
+              <button onClick={() => router.push('/admin/venues')} className="text-blue-600 hover:text-blue-800">
+                Venues
+              </button>
+              <button onClick={() => router.push('/staff/scans')} className="text-blue-600 hover:text-blue-800">
+                Scan log
+              </button>
               <span className="text-gray-700">Welcome, {user?.name || 'Admin'}</span>
               <button
                 onClick={() => {
@@ -157,7 +135,9 @@ export default function AdminPanel() {
               </div>
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Total Sales</p>
-                <p className="text-2xl font-bold text-gray-900">$12,450.00</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {salesSummary.summary ? formatRevenue(salesSummary.summary.revenueByCurrency) : '—'}
+                </p>
               </div>
             </div>
           </div>
@@ -172,7 +152,7 @@ export default function AdminPanel() {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Pending Events</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {events.filter(e => e.status === 'pending').length}
+                  {reviewStatus === 'pending' && !reviewQueue.loading ? reviewQueue.total : '—'}
                 </p>
               </div>
             </div>
@@ -186,9 +166,9 @@ export default function AdminPanel() {
                 </svg>
               </div>
               <div className="ml-4">
-                <p className="text-sm font-medium text-gray-600">Active Users</p>
+                <p className="text-sm font-medium text-gray-600">Total Users</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {users.filter(u => u.status === 'active').length}
+                  {!userFilters.search && !userFilters.role && !adminUsers.loading ? adminUsers.total : '—'}
                 </p>
               </div>
             </div>
@@ -220,7 +200,10 @@ export default function AdminPanel() {
                 User Management
               </button>
               <button
-                onClick={() => setActiveTab('sales')}
+                onClick={() => {
+                  setActiveTab('sales');
+                  setSalesOpened(true);
+                }}
                 className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${
                   activeTab === 'sales'
                     ? 'border-blue-500 text-blue-600'
@@ -229,233 +212,295 @@ export default function AdminPanel() {
               >
                 Sales Analytics
               </button>
+              <button
+                onClick={() => setActiveTab('refunds')}
+                className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${
+                  activeTab === 'refunds'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Refunds
+              </button>
             </nav>
           </div>
 
           <div className="p-6">
             {activeTab === 'events' && (
               <div>
-                <h2 className="text-xl font-semibold text-gray-900 mb-6">Event Approval Queue</h2>
+                <div className="flex justify-between items-center mb-6">
+                  <h2 className="text-xl font-semibold text-gray-900">Event Approval Queue</h2>
+                  <div className="flex space-x-2">
+                    {REVIEW_FILTERS.map((filter) => (
+                      <button
+                        key={filter.status}
+                        onClick={() => setReviewStatus(filter.status)}
+                        className={`px-3 py-1 rounded-full text-sm font-medium ${
+                          reviewStatus === filter.status
+                            ? 'bg-blue-100 text-blue-700'
+                            : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+                        }`}
+                      >
+                        {filter.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {reviewQueue.actionError && (
+                  <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex justify-between">
+                    <span>{reviewQueue.actionError}</span>
+                    <button onClick={reviewQueue.dismissActionError} className="text-red-500 hover:text-red-700">
+                      Dismiss
+                    </button>
+                  </div>
+                )}
+
                 <div className="space-y-4">
-                  {events.filter(e => e.status === 'pending').length === 0 ? (
+                  {reviewQueue.loading ? (
+                    <div className="text-center py-12">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                    </div>
+                  ) : reviewQueue.error && reviewQueue.events.length === 0 ? (
+                    <div className="text-center py-12">
+                      <p className="text-red-600">{reviewQueue.error}</p>
+                      <button onClick={reviewQueue.refresh} className="mt-2 text-blue-600 hover:text-blue-800">
+                        Try again
+                      </button>
+                    </div>
+                  ) : reviewQueue.events.length === 0 ? (
                     <div className="text-center py-12">
                       <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                       </svg>
-                      <h3 className="mt-2 text-sm font-medium text-gray-900">No pending events</h3>
-                      <p className="mt-1 text-sm text-gray-500">All events are approved or rejected.</p>
+                      <h3 className="mt-2 text-sm font-medium text-gray-900">No events here</h3>
+                      <p className="mt-1 text-sm text-gray-500">
+                        {reviewStatus === 'pending' ? 'All submitted events have been reviewed.' : 'Nothing matches this filter.'}
+                      </p>
                     </div>
                   ) : (
-                    events
-                      .filter(event => event.status === 'pending')
-                      .map((event) => (
-                        <div key={event._id} className="border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow">
-                          <div className="flex justify-between items-start">
-                            <div>
-                              <h3 className="text-lg font-semibold text-gray-900">{event.title}</h3>
-                              <p className="text-gray-600 mt-1">Organizer: {event.organizer.name}</p>
-                              <p className="text-gray-500 text-sm mt-2">
-                                Submitted: {new Date(event.createdAt).toLocaleDateString()}
-                              </p>
-                              <p className="text-gray-500 text-sm">
-                                Event Date: {new Date(event.startDate).toLocaleDateString()}
-                              </p>
-                            </div>
-                            <div className="flex space-x-3">
-                              <button
-                                onClick={() => handleApproveEvent(event._id)}
-                                className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
-                              >
-                                Approve
-                              </button>
-                              <button
-                                onClick={() => handleRejectEvent(event._id)}
-                                className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors"
-                              >
-                                Reject
-                              </button>
-                            </div>
-                          </div>
-                        </div>
-                      ))
+                    reviewQueue.events.map((event) => (
+                      <EventReviewCard
+                        key={event._id}
+                        event={event}
+                        actionable={reviewStatus === 'pending'}
+                        onDecide={(decision) => reviewQueue.decide(event, decision)}
+                      />
+                    ))
                   )}
-                  
-                  {/* Approved Events */}
-                  <div className="mt-12">
-                    <h3 className="text-lg font-medium text-gray-900 mb-4">Approved Events</h3>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      {events
-                        .filter(event => event.status === 'approved')
-                        .map((event) => (
-                          <div key={event._id} className="bg-green-50 border border-green-200 rounded-lg p-4">
-                            <div className="flex justify-between">
-                              <div>
-                                <h4 className="font-medium text-green-900">{event.title}</h4>
-                                <p className="text-green-700 text-sm">Approved</p>
-                              </div>
-                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                                Approved
-                              </span>
-                            </div>
-                          </div>
-                        ))}
-                    </div>
-                  </div>
                 </div>
+
+                {reviewQueue.totalPages > 1 && (
+                  <div className="flex justify-between items-center mt-6">
+                    <button
+                      onClick={() => reviewQueue.setPage(reviewQueue.page - 1)}
+                      disabled={reviewQueue.page <= 1 || reviewQueue.loading}
+                      className="px-4 py-2 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                    >
+                      Previous
+                    </button>
+                    <span className="text-sm text-gray-600">
+                      Page {reviewQueue.page} of {reviewQueue.totalPages} · {reviewQueue.total} events
+                    </span>
+                    <button
+                      onClick={() => reviewQueue.setPage(reviewQueue.page + 1)}
+                      disabled={reviewQueue.page >= reviewQueue.totalPages || reviewQueue.loading}
+                      className="px-4 py-2 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                    >
+                      Next
+                    </button>
+                  </div>
+                )}
               </div>
             )}
 
             {activeTab === 'users' && (
               <div>
-                <h2 className="text-xl font-semibold text-gray-900 mb-6">User Management</h2>
-                <div className="overflow-x-auto">
-                  <table className="min-w-full divide-y divide-gray-200">
-                    <thead className="bg-gray-50">
-                      <tr>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
-                      </tr>
-                    </thead>
-                    <tbody className="bg-white divide-y divide-gray-200">
-                      {users.map((user) => (
-                        <tr key={user._id} className="hover:bg-gray-50">
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-gray-900">{user.name}</div>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{user.email}</td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
-                              {user.role}
-                            </span>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <select
-                              value={user.status}
-                              onChange={(e) => handleUserStatusChange(user._id, e.target.value)}
-                              className="text-sm rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                            >
-                              <option value="active">Active</option>
-                              <option value="pending">Pending</option>
-                              <option value="suspended">Suspended</option>
-                            </select>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                            <button className="text-blue-600 hover:text-blue-900 mr-3">Edit</button>
-                            <button className="text-red-600 hover:text-red-900">Delete</button>
-                          </td>
-                        </tr>
+                <div className="flex justify-between items-center mb-6">
+                  <h2 className="text-xl font-semibold text-gray-900">User Management</h2>
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      setUserFilters({ ...userFilters, search: userSearch });
+                    }}
+                    className="flex space-x-2"
+                  >
+                    <input
+                      type="search"
+                      value={userSearch}
+                      onChange={(e) => setUserSearch(e.target.value)}
+                      placeholder="Search name or email"
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <select
+                      value={userFilters.role}
+                      onChange={(e) => setUserFilters({ ...userFilters, role: e.target.value as UserFilters['role'] })}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="">All roles</option>
+                      {USER_ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {role}
+                        </option>
                       ))}
-                    </tbody>
-                  </table>
+                    </select>
+                    <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-blue-700">
+                      Search
+                    </button>
+                  </form>
                 </div>
-              </div>
-            )}
 
-            {activeTab === 'sales' && (
-              <div>
-                <h2 className="text-xl font-semibold text-gray-900 mb-6">Sales Analytics</h2>
-                
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-                  <div className="bg-white p-6 rounded-lg border border-gray-200">
-                    <h3 className="text-lg font-medium text-gray-900 mb-2">Revenue Overview</h3>
-                    <div className="space-y-3">
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">This Month</span>
-                        <span className="font-semibold text-green-600">$4,250.00</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Last Month</span>
-                        <span className="font-semibold">$3,800.00</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Growth</span>
-                        <span className="font-semibold text-green-600">+11.8%</span>
-                      </div>
-                    </div>
+                {adminUsers.loading ? (
+                  <div className="text-center py-12">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
                   </div>
-
-                  <div className="bg-white p-6 rounded-lg border border-gray-200">
-                    <h3 className="text-lg font-medium text-gray-900 mb-2">Ticket Sales</h3>
-                    <div className="space-y-3">
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Total Tickets</span>
-                        <span className="font-semibold">1,250</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Avg. Price</span>
-                        <span className="font-semibold">$24.99</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Conversion Rate</span>
-                        <span className="font-semibold">3.2%</span>
-                      </div>
-                    </div>
+                ) : adminUsers.error && adminUsers.users.length === 0 ? (
+                  <div className="text-center py-12">
+                    <p className="text-red-600">{adminUsers.error}</p>
+                    <button onClick={adminUsers.refresh} className="mt-2 text-blue-600 hover:text-blue-800">
+                      Try again
+                    </button>
                   </div>
-
-                  <div className="bg-white p-6 rounded-lg border border-gray-200">
-                    <h3 className="text-lg font-medium text-gray-900 mb-2">Top Categories</h3>
-                    <div className="space-y-2">
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Concerts</span>
-                        <span className="font-semibold">45%</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Sports</span>
-                        <span className="font-semibold">25%</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Theater</span>
-                        <span className="font-semibold">15%</span>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
-                <div className="bg-white rounded-lg border border-gray-200 p-6">
-                  <h3 className="text-lg font-medium text-gray-900 mb-4">Recent Transactions</h3>
+                ) : adminUsers.users.length === 0 ? (
+                  <p className="text-center py-12 text-sm text-gray-500">No users match these filters.</p>
+                ) : (
                   <div className="overflow-x-auto">
                     <table className="min-w-full divide-y divide-gray-200">
                       <thead className="bg-gray-50">
                         <tr>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Change</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                         </tr>
                       </thead>
                       <tbody className="bg-white divide-y divide-gray-200">
-                        <tr>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">Summer Music Festival</td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">john@example.com</td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">$125.00</td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">Jan 15, 2026</td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
-                              Completed
-                            </span>
-                          </td>
-                        </tr>
-                        <tr>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">Tech Conference</td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">jane@example.com</td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">$89.50</td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">Jan 14, 2026</td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
-                              Completed
-                            </span>
-                          </td>
-                        </tr>
+                        {adminUsers.users.map((account) => (
+                          <tr key={account._id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="text-sm font-medium text-gray-900">{account.name}</div>
+                              <div className="text-sm text-gray-500">{account.email}</div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <select
+                                value={account.role}
+                                onChange={(e) =>
+                                  setPendingUserAction({
+                                    user: account,
+                                    change: { action: 'change_role', role: e.target.value as UserRole },
+                                  })
+                                }
+                                className="text-sm rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                              >
+                                {USER_ROLES.map((role) => (
+                                  <option key={role} value={role}>
+                                    {role}
+                                  </option>
+                                ))}
+                              </select>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_BADGES[account.status]}`}>
+                                {account.status}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-500">
+                              {account.lastAdminChange ? (
+                                <>
+                                  <div>
+                                    {ACTION_LABELS[account.lastAdminChange.action]} by {account.lastAdminChange.performedBy.name}{' '}
+                                    on {new Date(account.lastAdminChange.performedAt).toLocaleDateString()}
+                                  </div>
+                                  <div className="text-gray-400">&ldquo;{account.lastAdminChange.reason}&rdquo;</div>
+                                </>
+                              ) : (
+                                '—'
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                              {account.status === 'suspended' ? (
+                                <button
+                                  onClick={() => setPendingUserAction({ user: account, change: { action: 'reactivate' } })}
+                                  className="text-green-600 hover:text-green-900 mr-3"
+                                >
+                                  Reactivate
+                                </button>
+                              ) : (
+                                <button
+                                  onClick={() => setPendingUserAction({ user: account, change: { action: 'suspend' } })}
+                                  className="text-amber-600 hover:text-amber-900 mr-3"
+                                >
+                                  Suspend
+                                </button>
+                              )}
+                              <button
+                                onClick={() => setPendingUserAction({ user: account, change: { action: 'force_password_reset' } })}
+                                className="text-blue-600 hover:text-blue-900 mr-3"
+                              >
+                                Reset Password
+                              </button>
+                              <button
+                                onClick={() => setPendingUserAction({ user: account, change: { action: 'delete' } })}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                Delete
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
                       </tbody>
                     </table>
                   </div>
-                </div>
+                )}
+
+                {adminUsers.totalPages > 1 && (
+                  <div className="flex justify-between items-center mt-6">
+                    <button
+                      onClick={() => adminUsers.setPage(adminUsers.page - 1)}
+                      disabled={adminUsers.page <= 1 || adminUsers.loading}
+                      className="px-4 py-2 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                    >
+                      Previous
+                    </button>
+                    <span className="text-sm text-gray-600">
+                      Page {adminUsers.page} of {adminUsers.totalPages} · {adminUsers.total} users
+                    </span>
+                    <button
+                      onClick={() => adminUsers.setPage(adminUsers.page + 1)}
+                      disabled={adminUsers.page >= adminUsers.totalPages || adminUsers.loading}
+                      className="px-4 py-2 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                    >
+                      Next
+                    </button>
+                  </div>
+                )}
+
+                {pendingUserAction && (
+                  <UserActionDialog
+                    user={pendingUserAction.user}
+                    change={pendingUserAction.change}
+                    onConfirm={(reason) =>
+                      adminUsers.applyAction(pendingUserAction.user, pendingUserAction.change, reason)
+                    }
+                    onClose={() => setPendingUserAction(null)}
+                  />
+                )}
               </div>
             )}
+
+            {activeTab === 'sales' &&
+              (sales.loading ? (
+                <div className="text-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                </div>
+              ) : sales.error ? (
+                <p className="text-center py-12 text-red-600">{sales.error}</p>
+              ) : (
+                <SalesAnalyticsTab orders={sales.orders} eventTypes={sales.eventTypes} />
+              ))}
+
+            {activeTab === 'refunds' && <RefundsTab />}
           </div>
         </div>
       </div>
@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import type { RefundRequest, RefundRequestStatus } from '../../services/api';
+import { useRefundQueue, type RefundDecision, type SeatReleaseState } from '../../hooks/useRefundQueue';
+import { REFUND_REASONS } from '../../lib/refund-policy';
+
+const REFUND_FILTERS: { status: RefundRequestStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'denied', label: 'Denied' },
+];
+
+const SEAT_RELEASE_LABELS: Record<SeatReleaseState, { label: string; className: string }> = {
+  waiting: { label: 'Releasing seats...', className: 'text-gray-500' },
+  released: { label: 'Seats back on sale', className: 'text-green-700' },
+  unconfirmed: { label: 'Seat release not confirmed, check the seat map', className: 'text-yellow-700' },
+};
+
+interface RefundRequestCardProps {
+  request: RefundRequest;
+  actionable: boolean;
+  busy: boolean;
+  onDecide: (decision: RefundDecision) => Promise<boolean>;
+}
+
+function RefundRequestCard({ request, actionable, busy, onDecide }: RefundRequestCardProps) {
+  const [denying, setDenying] = useState(false);
+  const [note, setNote] = useState('');
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex flex-wrap justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-gray-900">
+            Order {request.orderNumber} · {request.event.title}
+          </h3>
+          <p className="text-sm text-gray-500">
+            {new Date(request.event.eventDate).toLocaleString()}
+            {request.customerEmail && ` · ${request.customerEmail}`}
+          </p>
+          <p className="mt-2 text-sm text-gray-700">
+            {request.ticketIds.length === 0 ? 'Whole order' : `${request.ticketIds.length} tickets`} · Seats{' '}
+            {request.seatIds.join(', ')}
+          </p>
+          <p className="text-sm text-gray-700">
+            {REFUND_REASONS.find((option) => option.value === request.reason)?.label ?? request.reason}
+            {request.note && ` — “${request.note}”`}
+          </p>
+          {request.decisionNote && <p className="mt-1 text-sm text-gray-500">Note: {request.decisionNote}</p>}
+        </div>
+        <div className="text-right">
+          <p className="text-lg font-semibold text-gray-900">${request.amount.toFixed(2)}</p>
+          <p className="text-sm text-gray-500">Requested {new Date(request.requestedAt).toLocaleString()}</p>
+          {request.decidedAt && (
+            <p className="text-sm text-gray-500">Decided {new Date(request.decidedAt).toLocaleString()}</p>
+          )}
+        </div>
+      </div>
+
+      {actionable &&
+        (denying ? (
+          <div className="mt-4 flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Reason shown to the customer"
+              autoFocus
+              disabled={busy}
+              className="flex-1 min-w-[16rem] px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={() => onDecide({ action: 'deny', note: note.trim() })}
+              disabled={busy || !note.trim()}
+              className="bg-red-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              Deny refund
+            </button>
+            <button onClick={() => setDenying(false)} disabled={busy} className="text-gray-500 hover:text-gray-700 px-2">
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <div className="mt-4 flex space-x-2">
+            <button
+              onClick={() => onDecide({ action: 'approve' })}
+              disabled={busy}
+              className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              {busy ? 'Saving...' : `Approve $${request.amount.toFixed(2)}`}
+            </button>
+            <button
+              onClick={() => setDenying(true)}
+              disabled={busy}
+              className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Deny
+            </button>
+          </div>
+        ))}
+    </div>
+  );
+}
+
+/**
+ * Refund requests sent by buyers from their order pages. Approving one
+ * refunds the payment and puts its seats back on sale.
+ */
+export function RefundsTab() {
+  const [status, setStatus] = useState<RefundRequestStatus>('pending');
+  const queue = useRefundQueue(status);
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">Refund Requests</h2>
+        <div className="flex space-x-2">
+          {REFUND_FILTERS.map((filter) => (
+            <button
+              key={filter.status}
+              onClick={() => setStatus(filter.status)}
+              className={`px-3 py-1 rounded-full text-sm font-medium ${
+                status === filter.status
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {queue.actionError && (
+        <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex justify-between">
+          <span>{queue.actionError}</span>
+          <button onClick={queue.dismissActionError} className="text-red-500 hover:text-red-700">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {queue.approved.length > 0 && (
+        <div className="mb-4 bg-green-50 border border-green-200 rounded-lg px-4 py-3 space-y-1 text-sm">
+          {queue.approved.map(({ request, seats }) => (
+            <p key={request._id} className="flex justify-between">
+              <span className="text-gray-900">
+                Refunded ${request.amount.toFixed(2)} on order {request.orderNumber}
+              </span>
+              <span className={SEAT_RELEASE_LABELS[seats].className}>{SEAT_RELEASE_LABELS[seats].label}</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {queue.loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : queue.error && queue.requests.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">{queue.error}</p>
+            <button onClick={queue.refresh} className="mt-2 text-blue-600 hover:text-blue-800">
+              Try again
+            </button>
+          </div>
+        ) : queue.requests.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-sm font-medium text-gray-900">No refund requests here</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {status === 'pending' ? 'Every refund request has been handled.' : 'Nothing matches this filter.'}
+            </p>
+          </div>
+        ) : (
+          queue.requests.map((request) => (
+            <RefundRequestCard
+              key={request._id}
+              request={request}
+              actionable={status === 'pending'}
+              busy={queue.deciding.includes(request._id)}
+              onDecide={(decision) => queue.decide(request, decision)}
+            />
+          ))
+        )}
+      </div>
+
+      {queue.totalPages > 1 && (
+        <div className="flex justify-between items-center mt-6">
+          <button
+            onClick={() => queue.setPage(queue.page - 1)}
+            disabled={queue.page <= 1 || queue.loading}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {queue.page} of {queue.totalPages} · {queue.total} requests
+          </span>
+          <button
+            onClick={() => queue.setPage(queue.page + 1)}
+            disabled={queue.page >= queue.totalPages || queue.loading}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { EventType, Order } from '../../services/api';
+import {
+  isPaidOrder,
+  lastDays,
+  percentChange,
+  previousPeriod,
+  summarizeSales,
+  toDateKey,
+  type DateRange,
+  type Granularity,
+} from '../../lib/sales-analytics';
+import { RankingChart, TrendChart } from './sales-charts';
+
+interface SalesAnalyticsTabProps {
+  orders: Order[];
+  eventTypes: Record<string, EventType>;
+}
+
+const RANGE_PRESETS = [7, 30, 90, 365];
+const RECENT_ORDER_COUNT = 5;
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatCount = (value: number) => Math.round(value).toLocaleString();
+
+function Change({ current, previous }: { current: number; previous: number }) {
+  const change = percentChange(current, previous);
+  if (change === null) return <span className="text-xs text-gray-400">no prior data</span>;
+  return (
+    <span className={`text-xs font-semibold ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+      {change >= 0 ? '+' : ''}
+      {change.toFixed(1)}% vs previous period
+    </span>
+  );
+}
+
+export function SalesAnalyticsTab({ orders, eventTypes }: SalesAnalyticsTabProps) {
+  const [range, setRange] = useState<DateRange>(() => lastDays(30));
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [metric, setMetric] = useState<'revenue' | 'tickets'>('revenue');
+
+  const validRange = range.from <= range.to;
+  const current = useMemo(
+    () => (validRange ? summarizeSales(orders, range, granularity, eventTypes) : null),
+    [orders, range, granularity, eventTypes, validRange]
+  );
+  const previous = useMemo(
+    () => (validRange ? summarizeSales(orders, previousPeriod(range), granularity, eventTypes) : null),
+    [orders, range, granularity, eventTypes, validRange]
+  );
+
+  const recentOrders = useMemo(
+    () =>
+      orders
+        .filter((order) => {
+          const day = toDateKey(new Date(order.createdAt));
+          return day >= range.from && day <= range.to;
+        })
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, RECENT_ORDER_COUNT),
+    [orders, range]
+  );
+
+  const stats = current && previous
+    ? [
+        { label: 'Revenue', value: formatMoney(current.revenue), current: current.revenue, previous: previous.revenue },
+        { label: 'Tickets Sold', value: formatCount(current.ticketsSold), current: current.ticketsSold, previous: previous.ticketsSold },
+        {
+          label: 'Avg. Ticket Price',
+          value: formatMoney(current.averageTicketPrice),
+          current: current.averageTicketPrice,
+          previous: previous.averageTicketPrice,
+        },
+        { label: 'Paid Orders', value: formatCount(current.orders), current: current.orders, previous: previous.orders },
+      ]
+    : [];
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">Sales Analytics</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          {RANGE_PRESETS.map((days) => (
+            <button
+              key={days}
+              onClick={() => setRange(lastDays(days))}
+              className="px-3 py-1 rounded-full text-sm font-medium text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+            >
+              {days}d
+            </button>
+          ))}
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+          />
+          <span className="text-gray-400">to</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+          />
+          <select
+            value={granularity}
+            onChange={(e) => setGranularity(e.target.value as Granularity)}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="day">Daily</option>
+            <option value="week">Weekly</option>
+            <option value="month">Monthly</option>
+          </select>
+        </div>
+      </div>
+
+      {!current || !previous ? (
+        <p className="text-sm text-red-600">The start date must be on or before the end date.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+            {stats.map((stat) => (
+              <div key={stat.label} className="bg-white p-6 rounded-lg border border-gray-200">
+                <p className="text-sm font-medium text-gray-600">{stat.label}</p>
+                <p className="text-2xl font-bold text-gray-900 mt-1">{stat.value}</p>
+                <Change current={stat.current} previous={stat.previous} />
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg border border-gray-200 p-6 mb-8">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-900">
+                {metric === 'revenue' ? 'Revenue' : 'Tickets sold'} over time
+              </h3>
+              <div className="flex items-center gap-4">
+                <span className="text-xs text-gray-500">
+                  <span className="inline-block w-4 border-t-2 border-blue-600 align-middle mr-1"></span>This period
+                  <span className="inline-block w-4 border-t-2 border-dashed border-gray-400 align-middle ml-3 mr-1"></span>
+                  Previous period
+                </span>
+                <select
+                  value={metric}
+                  onChange={(e) => setMetric(e.target.value as 'revenue' | 'tickets')}
+                  className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="revenue">Revenue</option>
+                  <option value="tickets">Tickets</option>
+                </select>
+              </div>
+            </div>
+            <TrendChart
+              current={current.series}
+              previous={previous.series}
+              metric={metric}
+              formatValue={metric === 'revenue' ? formatMoney : formatCount}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+            <div className="bg-white p-6 rounded-lg border border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Top Events</h3>
+              <RankingChart items={current.topEvents} formatValue={formatMoney} />
+            </div>
+            <div className="bg-white p-6 rounded-lg border border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Top Categories</h3>
+              <RankingChart items={current.topCategories} formatValue={formatMoney} />
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Recent Transactions</h3>
+        {recentOrders.length === 0 ? (
+          <p className="text-sm text-gray-500">No orders in this period.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {recentOrders.map((order) => (
+                  <tr key={order._id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {typeof order.eventId === 'string' ? order.eventId : order.eventId.title}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {order.customerInfo?.email || order.guestEmail || '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatMoney(order.breakdown.total)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(order.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          isPaidOrder(order) ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {order.status ?? order.paymentStatus}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import type { RankedSales, SalesBucket } from '../../lib/sales-analytics';
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PLOT = { top: 16, right: 16, bottom: 28, left: 64 };
+const PLOT_WIDTH = WIDTH - PLOT.left - PLOT.right;
+const PLOT_HEIGHT = HEIGHT - PLOT.top - PLOT.bottom;
+const MAX_X_LABELS = 6;
+
+interface TrendChartProps {
+  current: SalesBucket[];
+  // Same number of buckets from the previous period, drawn dashed for comparison
+  previous: SalesBucket[];
+  metric: 'revenue' | 'tickets';
+  formatValue: (value: number) => string;
+}
+
+const toPoints = (values: number[], count: number, max: number) =>
+  values.map((value, index) => ({
+    x: PLOT.left + (count > 1 ? (index / (count - 1)) * PLOT_WIDTH : PLOT_WIDTH / 2),
+    y: PLOT.top + PLOT_HEIGHT * (1 - value / max),
+  }));
+
+const toPath = (points: { x: number; y: number }[]) =>
+  points.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ');
+
+/**
+ * Line chart of one metric over the selected range against the previous period
+ */
+export function TrendChart({ current, previous, metric, formatValue }: TrendChartProps) {
+  const currentValues = current.map((bucket) => bucket[metric]);
+  const previousValues = previous.slice(0, current.length).map((bucket) => bucket[metric]);
+  const max = Math.max(...currentValues, ...previousValues, 0) || 1;
+
+  const currentPoints = toPoints(currentValues, current.length, max);
+  const previousPoints = toPoints(previousValues, current.length, max);
+  const baseline = PLOT.top + PLOT_HEIGHT;
+  const labelStep = Math.max(1, Math.ceil(current.length / MAX_X_LABELS));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${metric} over time`}>
+      {[0, 0.5, 1].map((fraction) => {
+        const y = PLOT.top + PLOT_HEIGHT * (1 - fraction);
+        return (
+          <g key={fraction}>
+            <line x1={PLOT.left} x2={WIDTH - PLOT.right} y1={y} y2={y} stroke="#e5e7eb" />
+            <text x={PLOT.left - 8} y={y + 4} textAnchor="end" fontSize={11} fill="#6b7280">
+              {formatValue(max * fraction)}
+            </text>
+          </g>
+        );
+      })}
+
+      {currentPoints.length > 0 && (
+        <path
+          d={`${toPath(currentPoints)} L${currentPoints[currentPoints.length - 1].x},${baseline} L${currentPoints[0].x},${baseline} Z`}
+          fill="#dbeafe"
+          opacity={0.6}
+        />
+      )}
+      {previousPoints.length > 1 && (
+        <path d={toPath(previousPoints)} fill="none" stroke="#9ca3af" strokeWidth={2} strokeDasharray="6 4" />
+      )}
+      {currentPoints.length > 1 && <path d={toPath(currentPoints)} fill="none" stroke="#2563eb" strokeWidth={2} />}
+
+      {currentPoints.map((point, index) => (
+        <circle key={current[index].key} cx={point.x} cy={point.y} r={3} fill="#2563eb">
+          <title>
+            {current[index].label}: {formatValue(currentValues[index])}
+            {previousValues[index] !== undefined ? ` (previous: ${formatValue(previousValues[index])})` : ''}
+          </title>
+        </circle>
+      ))}
+
+      {current.map((bucket, index) =>
+        index % labelStep === 0 ? (
+          <text key={bucket.key} x={currentPoints[index].x} y={HEIGHT - 8} textAnchor="middle" fontSize={11} fill="#6b7280">
+            {bucket.label}
+          </text>
+        ) : null
+      )}
+    </svg>
+  );
+}
+
+interface RankingChartProps {
+  items: RankedSales[];
+  formatValue: (value: number) => string;
+}
+
+const ROW_HEIGHT = 32;
+const NAME_WIDTH = 180;
+const VALUE_WIDTH = 90;
+
+/**
+ * Horizontal bar chart of the top entries by revenue
+ */
+export function RankingChart({ items, formatValue }: RankingChartProps) {
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500">No sales in this period.</p>;
+  }
+
+  const max = items[0].revenue || 1;
+  const barWidth = WIDTH - NAME_WIDTH - VALUE_WIDTH;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${items.length * ROW_HEIGHT}`} className="w-full h-auto" role="img">
+      {items.map((item, index) => {
+        const y = index * ROW_HEIGHT;
+        return (
+          <g key={item.id}>
+            <text x={0} y={y + 20} fontSize={13} fill="#374151">
+              {item.name.length > 24 ? `${item.name.slice(0, 23)}…` : item.name}
+            </text>
+            <rect
+              x={NAME_WIDTH}
+              y={y + 8}
+              width={Math.max((item.revenue / max) * barWidth, 2)}
+              height={16}
+              rx={3}
+              fill="#3b82f6"
+            >
+              <title>
+                {item.name}: {formatValue(item.revenue)}, {item.tickets} tickets
+              </title>
+            </rect>
+            <text x={WIDTH} y={y + 20} textAnchor="end" fontSize={13} fill="#111827" fontWeight={600}>
+              {formatValue(item.revenue)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
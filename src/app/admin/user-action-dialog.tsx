@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import type { AdminUser } from '../../services/api';
+import type { UserAction } from '../../hooks/useAdminUsers';
+
+interface UserActionDialogProps {
+  user: AdminUser;
+  change: UserAction;
+  onConfirm: (reason: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const describeAction = (user: AdminUser, change: UserAction) => {
+  switch (change.action) {
+    case 'change_role':
+      return {
+        title: 'Change role',
+        body: `${user.name} will become ${change.role === 'admin' ? 'an' : 'a'} ${change.role} (currently ${user.role}).`,
+        confirm: 'Change Role',
+        destructive: change.role === 'admin' || user.role === 'admin',
+      };
+    case 'suspend':
+      return {
+        title: 'Suspend user',
+        body: `${user.name} will be signed out and unable to sign in until reactivated.`,
+        confirm: 'Suspend',
+        destructive: true,
+      };
+    case 'reactivate':
+      return {
+        title: 'Reactivate user',
+        body: `${user.name} will be able to sign in again.`,
+        confirm: 'Reactivate',
+        destructive: false,
+      };
+    case 'force_password_reset':
+      return {
+        title: 'Force password reset',
+        body: `${user.name}'s current password will stop working and a reset link will be emailed to ${user.email}.`,
+        confirm: 'Reset Password',
+        destructive: true,
+      };
+    case 'delete':
+      return {
+        title: 'Delete user',
+        body: `${user.name} (${user.email}) will be permanently deleted. This cannot be undone.`,
+        confirm: 'Delete User',
+        destructive: true,
+      };
+  }
+};
+
+/**
+ * Confirmation for an admin change to a user account. A reason is always
+ * required because it is stored in the audit log alongside the acting admin.
+ */
+export function UserActionDialog({ user, change, onConfirm, onClose }: UserActionDialogProps) {
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { title, body, confirm, destructive } = describeAction(user, change);
+
+  const handleConfirm = async () => {
+    const trimmed = reason.trim();
+    if (!trimmed) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onConfirm(trimmed);
+      onClose();
+    } catch (err: any) {
+      console.error('❌ User change failed:', err);
+      setError(err.response?.data?.message || err.message || 'The change could not be saved');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div role="dialog" aria-modal="true" className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        <p className="mt-2 text-sm text-gray-600">{body}</p>
+
+        <label className="block text-sm font-medium text-gray-700 mt-4 mb-1">Reason (recorded in the audit log)</label>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={3}
+          autoFocus
+          disabled={submitting}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button onClick={onClose} disabled={submitting} className="text-gray-500 hover:text-gray-700 px-4 py-2">
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={submitting || !reason.trim()}
+            className={`${
+              destructive ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            } text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50`}
+          >
+            {submitting ? 'Saving...' : confirm}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
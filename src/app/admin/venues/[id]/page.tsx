@@ -0,0 +1,225 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { venueApi, type VenueDetail, type VenueUpdateInput } from '../../../../services/api';
+import { VenueEditForm } from './venue-edit-form';
+
+export default function AdminVenueDetailPage() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+
+  const [venue, setVenue] = useState<VenueDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Check authentication
+    const token = localStorage.getItem('accessToken');
+    if (!token) {
+      router.push('/login');
+      return;
+    }
+
+    const userData = JSON.parse(localStorage.getItem('user') || '{}');
+    if (userData.role !== 'admin') {
+      router.push('/');
+      return;
+    }
+
+    venueApi
+      .getVenue(id)
+      .then((response) => setVenue(response.data))
+      .catch((err: any) => {
+        console.error('❌ Failed to load venue:', err);
+        setError(err.response?.data?.message || 'Failed to load this venue');
+      });
+  }, [id, router]);
+
+  const handleSave = async (input: VenueUpdateInput) => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const response = await venueApi.updateVenue(id, input);
+      setVenue(response.data);
+      setEditing(false);
+    } catch (err: any) {
+      console.error('❌ Failed to update venue:', err);
+      setSaveError(err.response?.data?.message || 'Failed to save venue');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-600">{error}</p>
+          <Link href="/admin/venues" className="mt-4 inline-block text-blue-600 hover:text-blue-800">
+            Back to venues
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!venue) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const totalCapacity = venue.sections.reduce((sum, section) => sum + (section.capacity ?? 0), 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex justify-between items-center">
+          <div>
+            <Link href="/admin/venues" className="text-sm text-gray-500 hover:text-gray-700">
+              ← Venues
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">{venue.name}</h1>
+            <p className="mt-1 text-gray-600">
+              {[venue.address.street, venue.address.city, venue.address.state, venue.address.zipCode, venue.address.country]
+                .filter(Boolean)
+                .join(', ')}
+            </p>
+          </div>
+          {!editing && (
+            <button
+              onClick={() => setEditing(true)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Edit Venue
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 space-y-8">
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            {editing ? (
+              <>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Edit venue</h2>
+                {saveError && <p className="mb-4 text-red-600">{saveError}</p>}
+                <VenueEditForm
+                  venue={venue}
+                  saving={saving}
+                  onSave={handleSave}
+                  onCancel={() => {
+                    setEditing(false);
+                    setSaveError(null);
+                  }}
+                />
+              </>
+            ) : (
+              <>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Seat map</h2>
+                {venue.seatMapSvg ? (
+                  // Rendered as an image so markup stored with the venue can never run scripts
+                  <img
+                    src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(venue.seatMapSvg)}`}
+                    alt={`${venue.name} seat map`}
+                    className="w-full border border-gray-200 rounded-lg"
+                  />
+                ) : (
+                  <p className="text-gray-500">No seat map stored for this venue.</p>
+                )}
+
+                <h2 className="text-xl font-semibold text-gray-900 mt-8 mb-4">Sections</h2>
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Capacity
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {venue.sections.map((section) => (
+                      <tr key={section.sectionCode}>
+                        <td className="px-6 py-3 text-sm font-mono text-gray-700">{section.sectionCode}</td>
+                        <td className="px-6 py-3 text-sm text-gray-900">{section.name}</td>
+                        <td className="px-6 py-3 text-sm text-right text-gray-900">
+                          {section.capacity?.toLocaleString() ?? '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr>
+                      <td colSpan={2} className="px-6 py-3 text-sm font-medium text-gray-700">
+                        Total
+                      </td>
+                      <td className="px-6 py-3 text-sm text-right font-semibold text-gray-900">
+                        {(venue.totalSeats ?? totalCapacity).toLocaleString()}
+                      </td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-8">
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Layout versions</h2>
+            {venue.versions.length === 0 ? (
+              <p className="text-sm text-gray-500">Version {venue.layoutVersion}</p>
+            ) : (
+              <ul className="space-y-3">
+                {[...venue.versions]
+                  .sort((a, b) => b.version - a.version)
+                  .map((version) => (
+                    <li key={version.version} className="text-sm">
+                      <p className="font-medium text-gray-900">
+                        Version {version.version}
+                        {version.version === venue.layoutVersion && (
+                          <span className="ml-2 px-2 text-xs rounded-full bg-green-100 text-green-800">current</span>
+                        )}
+                      </p>
+                      <p className="text-gray-500">
+                        {new Date(version.createdAt).toLocaleString()}
+                        {version.createdBy && ` by ${version.createdBy.name}`}
+                      </p>
+                      {version.note && <p className="text-gray-700">{version.note}</p>}
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Events at this venue</h2>
+            {venue.events.length === 0 ? (
+              <p className="text-sm text-gray-500">No events use this venue yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {venue.events.map((event) => (
+                  <li key={event._id} className="text-sm">
+                    <p className="font-medium text-gray-900">{event.title}</p>
+                    <p className="text-gray-500">
+                      {new Date(event.eventDate).toLocaleDateString()} · {event.status.replace('_', ' ')} · layout v
+                      {event.layoutVersion}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
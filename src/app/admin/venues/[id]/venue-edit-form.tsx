@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+import type { VenueDetail, VenueUpdateInput } from '../../../../services/api';
+import {
+  findSoldSeatConflicts,
+  formToVenueInput,
+  validateVenueForm,
+  venueToForm,
+  type VenueForm,
+  type VenueSectionForm,
+} from '../../../../lib/venue-edits';
+
+interface VenueEditFormProps {
+  venue: VenueDetail;
+  saving: boolean;
+  onSave: (input: VenueUpdateInput) => void;
+  onCancel: () => void;
+}
+
+const ADDRESS_FIELDS: { field: keyof VenueForm['address']; label: string }[] = [
+  { field: 'street', label: 'Street' },
+  { field: 'city', label: 'City' },
+  { field: 'state', label: 'State' },
+  { field: 'zipCode', label: 'Zip' },
+  { field: 'country', label: 'Country' },
+];
+
+export function VenueEditForm({ venue, saving, onSave, onCancel }: VenueEditFormProps) {
+  const [form, setForm] = useState<VenueForm>(() => venueToForm(venue));
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  const errors = validateVenueForm(form);
+  const conflicts = findSoldSeatConflicts(venue, form);
+
+  const updateSection = (index: number, patch: Partial<VenueSectionForm>) => {
+    setForm({
+      ...form,
+      sections: form.sections.map((section, i) => (i === index ? { ...section, ...patch } : section)),
+    });
+    setAcknowledged(false);
+  };
+
+  const removeSection = (index: number) => {
+    setForm({ ...form, sections: form.sections.filter((_, i) => i !== index) });
+    setAcknowledged(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block md:col-span-2">
+          <span className="text-sm font-medium text-gray-700">Name</span>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </label>
+        {ADDRESS_FIELDS.map(({ field, label }) => (
+          <label key={field} className="block">
+            <span className="text-sm font-medium text-gray-700">{label}</span>
+            <input
+              type="text"
+              value={form.address[field]}
+              onChange={(e) => setForm({ ...form, address: { ...form.address, [field]: e.target.value } })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="font-semibold text-gray-900">Sections</h3>
+          <button
+            type="button"
+            onClick={() =>
+              setForm({
+                ...form,
+                sections: [...form.sections, { sectionCode: '', name: '', capacity: '', isNew: true }],
+              })
+            }
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Add section
+          </button>
+        </div>
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+              <th className="py-2">Code</th>
+              <th className="py-2">Name</th>
+              <th className="py-2">Capacity</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {form.sections.map((section, index) => (
+              <tr key={index}>
+                <td className="py-2 pr-2">
+                  {section.isNew ? (
+                    <input
+                      type="text"
+                      value={section.sectionCode}
+                      onChange={(e) => updateSection(index, { sectionCode: e.target.value })}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded"
+                    />
+                  ) : (
+                    <span className="font-mono text-gray-700">{section.sectionCode}</span>
+                  )}
+                </td>
+                <td className="py-2 pr-2">
+                  <input
+                    type="text"
+                    value={section.name}
+                    onChange={(e) => updateSection(index, { name: e.target.value })}
+                    className="w-full px-2 py-1 border border-gray-300 rounded"
+                  />
+                </td>
+                <td className="py-2 pr-2">
+                  <input
+                    type="number"
+                    min={0}
+                    value={section.capacity}
+                    onChange={(e) => updateSection(index, { capacity: e.target.value })}
+                    className="w-28 px-2 py-1 border border-gray-300 rounded"
+                  />
+                </td>
+                <td className="py-2 text-right">
+                  <button onClick={() => removeSection(index)} className="text-red-600 hover:text-red-800">
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <label className="block">
+        <span className="text-sm font-medium text-gray-700">Change note</span>
+        <input
+          type="text"
+          value={form.note}
+          onChange={(e) => setForm({ ...form, note: e.target.value })}
+          placeholder="What changed and why (saved with the new layout version)"
+          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+      </label>
+
+      {errors.length > 0 && (
+        <ul className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm list-disc list-inside">
+          {errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+          <p className="font-medium">This change affects seats that are already sold:</p>
+          <ul className="list-disc list-inside mt-2">
+            {conflicts.map((conflict) => (
+              <li key={`${conflict.event._id}-${conflict.sectionCode}`}>
+                {conflict.event.title}: {conflict.sold} sold in section {conflict.sectionCode},{' '}
+                {conflict.capacity === null ? 'which is being removed' : `now limited to ${conflict.capacity}`}
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2">
+            These events will stay on layout version {venue.layoutVersion}; only new events use the edited layout.
+          </p>
+          <label className="flex items-center mt-2">
+            <input
+              type="checkbox"
+              checked={acknowledged}
+              onChange={(e) => setAcknowledged(e.target.checked)}
+              className="mr-2"
+            />
+            I understand
+          </label>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button onClick={onCancel} disabled={saving} className="px-4 py-2 text-gray-600 hover:text-gray-800">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(formToVenueInput(form))}
+          disabled={saving || errors.length > 0 || (conflicts.length > 0 && !acknowledged)}
+          className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : `Save as version ${venue.layoutVersion + 1}`}
+        </button>
+      </div>
+    </div>
+  );
+}
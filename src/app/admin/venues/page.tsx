@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { venueApi, type Venue } from '../../../services/api';
+
+export default function AdminVenuesPage() {
+  const router = useRouter();
+
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    // Check authentication
+    const token = localStorage.getItem('accessToken');
+    if (!token) {
+      router.push('/login');
+      return;
+    }
+
+    const userData = JSON.parse(localStorage.getItem('user') || '{}');
+    if (userData.role !== 'admin') {
+      router.push('/');
+      return;
+    }
+
+    venueApi
+      .listVenues()
+      .then((response) => setVenues(response.data))
+      .catch((err: any) => {
+        console.error('❌ Failed to load venues:', err);
+        setError(err.response?.data?.message || 'Failed to load venues');
+      })
+      .finally(() => setLoading(false));
+  }, [router]);
+
+  const query = search.trim().toLowerCase();
+  const filtered = query
+    ? venues.filter((venue) =>
+        [venue.name, venue.address.city, venue.address.state, venue.address.country].some((value) =>
+          value.toLowerCase().includes(query)
+        )
+      )
+    : venues;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Venues</h1>
+            <p className="mt-1 text-gray-600">Browse venues, their seat maps and layout versions</p>
+          </div>
+          <Link href="/admin" className="text-gray-500 hover:text-gray-700">
+            Back to admin panel
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or location"
+            className="w-full md:w-96 px-3 py-2 border border-gray-300 rounded-lg text-sm mb-6"
+          />
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : error ? (
+            <p className="text-center py-12 text-red-600">{error}</p>
+          ) : filtered.length === 0 ? (
+            <p className="text-center py-12 text-gray-500">
+              {venues.length === 0 ? 'No venues yet.' : 'No venues match your search.'}
+            </p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Venue</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sections</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Seats</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filtered.map((venue) => (
+                  <tr
+                    key={venue._id}
+                    onClick={() => router.push(`/admin/venues/${venue._id}`)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-6 py-4 text-sm font-medium text-blue-600">{venue.name}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {[venue.address.city, venue.address.state, venue.address.country].filter(Boolean).join(', ')}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{venue.sections.length}</td>
+                    <td className="px-6 py-4 text-sm text-right text-gray-900">
+                      {venue.totalSeats?.toLocaleString() ?? '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,8 +3,9 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { eventApi, ticketApi, checkoutApi } from '@/services/api';
-import { Event, TicketType } from '@/types';
+import { eventApi, ticketApi, checkoutApi, type Event, type TicketType } from '../../../services/api';
+import { useCheckoutMachine } from '../../../hooks/useCheckoutMachine';
+import { canRetry } from '../../../lib/checkout-machine';
 
 export default function CheckoutPage() {
   const { eventId } = useParams();
@@ -15,8 +16,10 @@ export default function CheckoutPage() {
   const [ticketTypes, setTicketTypes] = useState<TicketType[]>([]);
   const [selectedTickets, setSelectedTickets] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
-  const [processing, setProcessing] = useState(false);
   const [error, setError] = useState('');
+  const checkout = useCheckoutMachine();
+  const processing =
+    checkout.state.status === 'creating_intent' || checkout.state.status === 'confirming_payment';
 
   useEffect(() => {
     if (!user) {
@@ -73,34 +76,40 @@ export default function CheckoutPage() {
       return;
     }
 
-    try {
-      setProcessing(true);
-      setError('');
+    setError('');
 
-      // Prepare line items for checkout
-      const lineItems = Object.entries(selectedTickets)
-        .filter(([_, quantity]) => quantity > 0)
-        .map(([ticketTypeId, quantity]) => {
-          const ticketType = ticketTypes.find(t => t._id === ticketTypeId);
-          return {
-            ticketTypeId,
-            quantity,
-            price: ticketType?.price || 0,
-            name: `${event?.title} - ${ticketType?.name}`
-          };
-        });
+    // Prepare line items for checkout
+    const lineItems = Object.entries(selectedTickets)
+      .filter(([_, quantity]) => quantity > 0)
+      .map(([ticketTypeId, quantity]) => {
+        const ticketType = ticketTypes.find(t => t._id === ticketTypeId);
+        return {
+          ticketTypeId,
+          quantity,
+          price: ticketType?.price || 0,
+          name: `${event?.title} - ${ticketType?.name}`
+        };
+      });
+
+    // Ticket types are not held: resume a failed session request, otherwise start over
+    const retrying = checkout.state.error?.step === 'creating_intent' && canRetry(checkout.state);
+    if (!retrying) {
+      checkout.send({ type: 'RESET' });
+      checkout.send({ type: 'PROCEED' });
+    }
 
-      const response = await checkoutApi.createSession({
+    const response = await checkout.run(
+      retrying ? { type: 'RETRY' } : { type: 'DETAILS_SUBMITTED' },
+      () => checkoutApi.createSession({
         eventId: eventId as string,
         lineItems
-      });
+      }),
+      (res) => ({ type: 'INTENT_CREATED', redirectUrl: res.data.url })
+    );
 
-      // Redirect to Stripe checkout
+    // Redirect to Stripe checkout
+    if (response) {
       window.location.href = response.data.url;
-    } catch (err: any) {
-      setError(err.response?.data?.message || 'Failed to create checkout session');
-    } finally {
-      setProcessing(false);
     }
   };
 
@@ -242,13 +251,13 @@ export default function CheckoutPage() {
               <div className="flex justify-between">
                 <span className="text-gray-600">Date</span>
                 <span className="font-medium text-gray-900">
-                  {new Date(event.startDate).toLocaleDateString()}
+                  {new Date(event.eventDate).toLocaleDateString()}
                 </span>
               </div>
               
               <div className="flex justify-between">
                 <span className="text-gray-600">Location</span>
-                <span className="font-medium text-gray-900">{event.location.venue}</span>
+                <span className="font-medium text-gray-900">{event.venueId.name}</span>
               </div>
               
               <div className="border-t pt-4">
@@ -262,9 +271,9 @@ export default function CheckoutPage() {
               </div>
             </div>
 
-            {error && (
+            {checkout.state.error && (
               <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
-                <p className="text-red-700 text-sm">{error}</p>
+                <p className="text-red-700 text-sm">{checkout.state.error.message}</p>
               </div>
             )}
 
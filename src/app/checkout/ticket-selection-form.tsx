@@ -1,30 +1,14 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { eventApi, orderApi } from '../../services/api';
+import { eventApi, orderApi, type Event } from '../../services/api';
 import { loadStripe } from '@stripe/stripe-js';
 import { useAuth } from '../../hooks/useAuth';
-
-interface Event {
-  _id: string;
-  title: string;
-  description: string;
-  eventDate: string;
-  venueId: {
-    name: string;
-    address: {
-      street: string;
-      city: string;
-      state: string;
-    };
-  };
-  pricingZones: Record<string, { 
-    name: string; 
-    price: number; 
-    currency: string;
-    available: number;
-  }>;
-}
+import { useCheckoutMachine } from '../../hooks/useCheckoutMachine';
+import { usePromoCode } from '../../hooks/usePromoCode';
+import { useOrderQuote } from '../../hooks/useOrderQuote';
+import { canRetry, checkoutErrorMessage } from '../../lib/checkout-machine';
+import { breakdownDiffers, taxLabel } from '../../lib/order-pricing';
 
 interface TicketSelectionFormProps {
   eventId: string | undefined;
@@ -41,9 +25,22 @@ export function TicketSelectionForm({ eventId, ticketType }: TicketSelectionForm
     email: '',
     phoneNumber: '',
   });
-  const [processing, setProcessing] = useState(false);
   const [error, setError] = useState('');
   const { isAuthenticated } = useAuth();
+  const checkout = useCheckoutMachine();
+  const promo = usePromoCode(eventId);
+  const [redirecting, setRedirecting] = useState(false);
+  const processing = checkout.state.status === 'creating_intent' || redirecting;
+
+  const quotedTickets = Object.entries(selectedTickets)
+    .filter(([, quantity]) => quantity > 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([type, quantity]) => ({ type, quantity }));
+  const { quote, loading: quoteLoading, error: quoteError } = useOrderQuote(
+    eventId && quotedTickets.length > 0
+      ? { eventId, tickets: quotedTickets, promoCode: promo.promo?.code }
+      : null
+  );
 
   useEffect(() => {
     if (eventId) {
@@ -74,6 +71,8 @@ export function TicketSelectionForm({ eventId, ticketType }: TicketSelectionForm
   };
 
   const handleTicketChange = (ticketType: string, quantity: number) => {
+    // A changed cart needs a freshly priced order
+    checkout.send({ type: 'PAYMENT_CANCELLED' });
     setSelectedTickets(prev => ({
       ...prev,
       [ticketType]: Math.max(0, quantity)
@@ -84,43 +83,9 @@ export function TicketSelectionForm({ eventId, ticketType }: TicketSelectionForm
     return Object.values(selectedTickets).reduce((sum, qty) => sum + qty, 0);
   };
 
-  const getTotalPrice = () => {
-    if (!event) return 0;
-    
-    return Object.entries(selectedTickets).reduce((total, [type, quantity]) => {
-      const price = event.pricingZones[type]?.price || 0;
-      return total + (price * quantity);
-    }, 0);
-  };
-
-  const handleCheckout = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!event || !eventId) return;
-
-    if (getTotalTickets() === 0) {
-      setError('Please select at least one ticket');
-      return;
-    }
-
-    setProcessing(true);
-    setError('');
-
+  const redirectToStripe = async (clientSecret: string) => {
+    setRedirecting(true);
     try {
-      // Prepare ticket data
-      const ticketData = Object.entries(selectedTickets)
-        .filter(([, quantity]) => quantity > 0)
-        .map(([type, quantity]) => ({
-          type,
-          quantity
-        }));
-
-      // Create checkout session
-      const response = await orderApi.createCheckoutIntent({
-        eventId,
-        tickets: ticketData,
-        customerInfo
-      });
-
       // Initialize Stripe
       const stripe = await loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!);
       
@@ -130,18 +95,74 @@ export function TicketSelectionForm({ eventId, ticketType }: TicketSelectionForm
 
       // Redirect to Stripe checkout
       const { error: stripeError } = await stripe.redirectToCheckout({
-        sessionId: response.data.paymentIntentClientSecret
+        sessionId: clientSecret
       });
 
       if (stripeError) {
         throw new Error(stripeError.message || 'Stripe checkout failed');
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Checkout failed';
-      setError(errorMessage);
+      checkout.send({ type: 'FAILED', message: checkoutErrorMessage(err, 'Checkout failed') });
     } finally {
-      setProcessing(false);
+      setRedirecting(false);
+    }
+  };
+
+  const handleCheckout = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!event || !eventId) return;
+
+    if (getTotalTickets() === 0) {
+      setError('Please select at least one ticket');
+      return;
+    }
+
+    setError('');
+
+    // The buyer has reviewed server-updated totals and wants to continue
+    if (checkout.state.status === 'confirming_payment' && checkout.state.clientSecret) {
+      await redirectToStripe(checkout.state.clientSecret);
+      return;
+    }
+
+    // Prepare ticket data
+    const ticketData = Object.entries(selectedTickets)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([type, quantity]) => ({
+        type,
+        quantity
+      }));
+
+    // Resume a failed intent step; otherwise start over, since general admission has no hold to keep
+    const retrying = checkout.state.error?.step === 'creating_intent' && canRetry(checkout.state);
+    if (!retrying) {
+      checkout.send({ type: 'RESET' });
+      checkout.send({ type: 'PROCEED' });
     }
+
+    // Create checkout session
+    const response = await checkout.run(
+      retrying ? { type: 'RETRY' } : { type: 'DETAILS_SUBMITTED' },
+      () => orderApi.createCheckoutIntent({
+        eventId,
+        tickets: ticketData,
+        customerInfo,
+        promoCode: promo.promo?.code
+      }),
+      (res) => ({
+        type: 'INTENT_CREATED',
+        orderId: res.data.orderId,
+        orderNumber: res.data.orderNumber,
+        clientSecret: res.data.paymentIntentClientSecret,
+        breakdown: res.data.breakdown,
+      })
+    );
+    if (!response) return;
+
+    // Stop and show the server's totals if they differ from what the buyer saw
+    if (!quote || breakdownDiffers(quote, response.data.breakdown)) return;
+
+    await redirectToStripe(response.data.paymentIntentClientSecret);
   };
 
   if (loading) {
@@ -164,7 +185,9 @@ export function TicketSelectionForm({ eventId, ticketType }: TicketSelectionForm
   }
 
   const totalTickets = getTotalTickets();
-  const totalPrice = getTotalPrice();
+  const breakdown = checkout.state.breakdown ?? quote;
+  const pricingChanged = !!quote && !!checkout.state.breakdown && breakdownDiffers(quote, checkout.state.breakdown);
+  const promoLocked = processing;
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -173,15 +196,16 @@ export function TicketSelectionForm({ eventId, ticketType }: TicketSelectionForm
         <div className="bg-white rounded-xl shadow-lg p-8">
           <h2 className="text-2xl font-bold text-gray-900 mb-6">Select Tickets</h2>
           
-          {error && (
+          {(error || checkout.state.error) && (
             <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-700 rounded-lg">
-              {error}
+              {error || checkout.state.error?.message}
             </div>
           )}
 
           <form onSubmit={handleCheckout} className="space-y-6">
             {/* Ticket Types */}
             <div className="space-y-4">
+              {/* Sold by zone: the ticket type is the zone key, which need not be a section code */}
               {Object.entries(event.pricingZones).map(([type, zone]) => {
                 const selectedQuantity = selectedTickets[type] || 0;
                 const maxAvailable = zone.available;
@@ -294,7 +318,7 @@ export function TicketSelectionForm({ eventId, ticketType }: TicketSelectionForm
             <div className="border-t border-gray-200 pt-6">
               <button
                 type="submit"
-                disabled={processing || totalTickets === 0}
+                disabled={processing || totalTickets === 0 || quoteLoading || !quote}
                 className="w-full bg-primary-600 hover:bg-primary-700 text-white font-semibold py-4 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {processing ? (
@@ -306,7 +330,7 @@ export function TicketSelectionForm({ eventId, ticketType }: TicketSelectionForm
                     Processing...
                   </span>
                 ) : (
-                  `Proceed to Payment ($${totalPrice.toFixed(2)})`
+                  breakdown ? `Proceed to Payment ($${breakdown.total.toFixed(2)})` : 'Proceed to Payment'
                 )}
               </button>
             </div>
@@ -340,10 +364,103 @@ export function TicketSelectionForm({ eventId, ticketType }: TicketSelectionForm
                 <span className="text-gray-600">Tickets:</span>
                 <span className="font-medium">{totalTickets}</span>
               </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Total:</span>
-                <span className="text-xl font-bold text-primary-600">${totalPrice.toFixed(2)}</span>
-              </div>
+              {quote?.lines.map((line) => (
+                <div key={line.type} className="flex justify-between mb-2 text-sm">
+                  <span className="text-gray-600">
+                    {line.name} × {line.quantity}
+                    {line.fees > 0 && <span className="text-gray-400"> (incl. ${line.fees.toFixed(2)} fees)</span>}
+                  </span>
+                  <span>${line.total.toFixed(2)}</span>
+                </div>
+              ))}
+              {breakdown && (
+                <>
+                  <div className="flex justify-between mb-2">
+                    <span className="text-gray-600">Subtotal:</span>
+                    <span className="font-medium">${breakdown.subtotal.toFixed(2)}</span>
+                  </div>
+                  {!!breakdown.discount && (
+                    <div className="flex justify-between mb-2 text-green-700">
+                      <span>Discount{breakdown.promoCode ? ` (${breakdown.promoCode})` : ''}:</span>
+                      <span className="font-medium">-${breakdown.discount.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between mb-2">
+                    <span className="text-gray-600">Fees:</span>
+                    <span className="font-medium">${breakdown.fees.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between mb-2">
+                    <span className="text-gray-600">{taxLabel(quote)}:</span>
+                    <span className="font-medium">${breakdown.tax.toFixed(2)}</span>
+                  </div>
+                  {!!quote?.rounding && (
+                    <div className="flex justify-between mb-2">
+                      <span className="text-gray-600">Rounding:</span>
+                      <span className="font-medium">${quote.rounding.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Total:</span>
+                    <span className="text-xl font-bold text-primary-600">${breakdown.total.toFixed(2)}</span>
+                  </div>
+                </>
+              )}
+              {quoteLoading && <p className="text-sm text-gray-500 mt-2">Updating price...</p>}
+              {quoteError && <p className="text-sm text-red-600 mt-2">{quoteError}</p>}
+              {pricingChanged && (
+                <p className="text-sm text-amber-700 mt-3">
+                  Your total was updated when the order was created. Review it and continue to payment.
+                </p>
+              )}
+            </div>
+
+            <div className="border-t border-gray-200 pt-4">
+              <label htmlFor="promoCode" className="block text-sm font-medium text-gray-700 mb-1">
+                Promo code
+              </label>
+              {promo.promo ? (
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900">{promo.promo.code}</span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      checkout.send({ type: 'PAYMENT_CANCELLED' });
+                      promo.clear();
+                    }}
+                    disabled={promoLocked}
+                    className="text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    id="promoCode"
+                    value={promo.code}
+                    onChange={(e) => promo.setCode(e.target.value)}
+                    disabled={promoLocked}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => {
+                      checkout.send({ type: 'PAYMENT_CANCELLED' });
+                      promo.apply();
+                    }}
+                    disabled={promoLocked || promo.validating || !promo.code.trim()}
+                    className="px-4 py-2 border border-gray-300 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {promo.validating ? 'Checking...' : 'Apply'}
+                  </button>
+                </div>
+              )}
+              {promo.error && <p className="text-sm text-red-600 mt-2">{promo.error}</p>}
+              {promo.promo?.description && <p className="text-sm text-gray-500 mt-2">{promo.promo.description}</p>}
+              {promo.promo && quote && !quoteLoading && !quote.discount && (
+                <p className="text-sm text-amber-700 mt-2">{promo.promo.code} does not apply to these tickets.</p>
+              )}
             </div>
 
             <div className="text-sm text-gray-500">
@@ -1,44 +1,13 @@
 import { eventApi } from '../../../services/api';
+import { getAvailableTickets, getSoldPercentage } from '../../../lib/event-normalizers';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import { generateEventMetadata } from '../../../lib/event-metadata';
 
-interface Event {
-  _id: string;
-  title: string;
-  description: string;
-  eventDate: string;
-  eventEndDate?: string;
-  doorOpenTime?: string;
-  eventType: string;
-  imageUrl?: string;
-  status: string;
-  totalCapacity: number;
-  soldCount: number;
-  venueId: {
-    _id: string;
-    name: string;
-    address: {
-      street: string;
-      city: string;
-      state: string;
-      zipCode: string;
-      country: string;
-    };
-  };
-  pricingZones: Record<string, { 
-    name: string; 
-    price: number; 
-    currency: string;
-    available: number;
-  }>;
-  slug: string;
-}
-
 async function getEvent(slug: string) {
   try {
     const response = await eventApi.getEvent(slug);
-    return response.data as Event;
+    return response.data;
   } catch (error) {
     console.error('Error fetching event:', error);
     return null;
@@ -59,7 +28,7 @@ export default async function EventDetailsPage({ params }: { params: { slug: str
   const startDate = new Date(event.eventDate);
   const endDate = event.eventEndDate ? new Date(event.eventEndDate) : null;
   const doorOpenTime = event.doorOpenTime ? new Date(event.doorOpenTime) : null;
-  const availableTickets = event.totalCapacity - event.soldCount;
+  const availableTickets = getAvailableTickets(event);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -164,7 +133,7 @@ export default async function EventDetailsPage({ params }: { params: { slug: str
                     {availableTickets} tickets available
                   </div>
                   <div className="text-sm text-gray-300">
-                    {Math.round((event.soldCount / event.totalCapacity) * 100)}% sold
+                    {getSoldPercentage(event)}% sold
                   </div>
                 </div>
               </div>
@@ -1,31 +1,11 @@
-import { eventApi } from '../../services/api';
+import { eventApi, type Event } from '../../services/api';
+import { getAvailableTickets, getSoldPercentage } from '../../lib/event-normalizers';
 import Link from 'next/link';
 
-interface Event {
-  _id: string;
-  title: string;
-  description: string;
-  eventDate: string;
-  venueId: {
-    name: string;
-    address: {
-      city: string;
-      state: string;
-    };
-  };
-  totalCapacity: number;
-  soldCount: number;
-  pricingZones: Record<string, { price: number }>;
-  eventType: string;
-  status: string;
-  imageUrl?: string;
-  slug: string; // Add slug to interface
-}
-
 async function getEvents() {
   try {
     const response = await eventApi.getEvents();
-    return response.data as Event[];
+    return response.data;
   } catch (error) {
     console.error('Error fetching events:', error);
     return [];
@@ -67,8 +47,8 @@ export default async function EventsPage() {
 
 function EventCard({ event }: { event: Event }) {
   const startDate = new Date(event.eventDate);
-  const isSoldOut = event.soldCount >= event.totalCapacity;
-  const availableTickets = event.totalCapacity - event.soldCount;
+  const availableTickets = getAvailableTickets(event);
+  const isSoldOut = availableTickets === 0;
   const price = Object.values(event.pricingZones)[0]?.price || 0;
 
   return (
@@ -140,13 +120,13 @@ function EventCard({ event }: { event: Event }) {
               {availableTickets} tickets available
             </span>
             <span className="text-primary-600 font-medium">
-              {Math.round((event.soldCount / event.totalCapacity) * 100)}% sold
+              {getSoldPercentage(event)}% sold
             </span>
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2">
             <div 
               className="bg-primary-600 h-2 rounded-full transition-all duration-300" 
-              style={{ width: `${(event.soldCount / event.totalCapacity) * 100}%` }}
+              style={{ width: `${getSoldPercentage(event)}%` }}
             ></div>
           </div>
         </div>
@@ -0,0 +1,337 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ProtectedRoute } from '../../../components/ProtectedRoute';
+import { useOrder } from '../../../hooks/useOrder';
+import {
+  orderApi,
+  ticketApi,
+  type RefundRequest,
+  type RefundRequestStatus,
+  type Ticket,
+  type TicketTransfer,
+} from '../../../services/api';
+import {
+  isOrderCancelled,
+  isOrderRefunded,
+  orderEventInfo,
+  orderStatusLabel,
+  orderTimeline,
+} from '../../../lib/order-timeline';
+import { REFUND_REASONS, canRequestRefund, isRefundPending } from '../../../lib/refund-policy';
+import {
+  TRANSFER_STATUS_LABELS,
+  activeTransfer,
+  canTransferTicket,
+  transferRecipient,
+} from '../../../lib/ticket-transfer';
+import { OrderBreakdownRows } from '../order-breakdown';
+import { RefundDialog } from './refund-dialog';
+import { TransferDialog } from './transfer-dialog';
+
+const REFUND_STATUS_COLORS: Record<RefundRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  denied: 'bg-red-100 text-red-800',
+};
+
+function OrderDetail({ orderId }: { orderId: string }) {
+  const { order, error, reload } = useOrder(orderId);
+  const [refundRequests, setRefundRequests] = useState<RefundRequest[]>([]);
+  const [showRefundDialog, setShowRefundDialog] = useState(false);
+  const [transfers, setTransfers] = useState<TicketTransfer[]>([]);
+  const [transferTicket, setTransferTicket] = useState<Ticket | null>(null);
+  const [cancellingTransfer, setCancellingTransfer] = useState<string | null>(null);
+  const [transferError, setTransferError] = useState<string | null>(null);
+
+  useEffect(() => {
+    orderApi
+      .listRefundRequests(orderId)
+      .then((response) => setRefundRequests(response.data))
+      .catch((err: any) => console.error('❌ Failed to load refund requests:', err));
+    ticketApi
+      .listTransfers(orderId)
+      .then((response) => setTransfers(response.data))
+      .catch((err: any) => console.error('❌ Failed to load ticket transfers:', err));
+  }, [orderId]);
+
+  const replaceTransfer = (transfer: TicketTransfer) =>
+    setTransfers((current) => [transfer, ...current.filter((item) => item._id !== transfer._id)]);
+
+  // Sending or cancelling a transfer reissues the ticket's code, so the order is reloaded either way
+  const handleTransferSent = (transfer: TicketTransfer) => {
+    replaceTransfer(transfer);
+    reload();
+  };
+
+  const handleCancelTransfer = async (transfer: TicketTransfer) => {
+    setCancellingTransfer(transfer._id);
+    setTransferError(null);
+    try {
+      const response = await ticketApi.cancelTransfer(transfer._id);
+      replaceTransfer(response.data);
+      reload();
+    } catch (err: any) {
+      console.error('❌ Failed to cancel transfer:', err);
+      setTransferError(err.response?.data?.message || 'Failed to cancel the transfer');
+    } finally {
+      setCancellingTransfer(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-600">{error}</p>
+          <Link href="/orders" className="mt-4 inline-block text-blue-600 hover:text-blue-800">
+            Back to my orders
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const event = orderEventInfo(order);
+  const timeline = orderTimeline(order);
+  const refunded = isOrderRefunded(order);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex flex-wrap gap-4 justify-between items-center">
+          <div>
+            <Link href="/orders" className="text-sm text-gray-500 hover:text-gray-700">
+              ← My orders
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Order {order.orderNumber}</h1>
+            <p className="mt-1 text-gray-600">
+              <Link href={`/events/${event.id}`} className="hover:text-blue-600">
+                {event.title}
+              </Link>
+              {event.eventDate && ` · ${new Date(event.eventDate).toLocaleString()}`}
+              {event.venueName && ` · ${event.venueName}`}
+            </p>
+          </div>
+          <div className="flex items-center space-x-4">
+            <span className="px-3 py-1 rounded-full text-sm font-semibold bg-gray-100 text-gray-800">
+              {orderStatusLabel(order)}
+            </span>
+            {canRequestRefund(order, refundRequests, transfers) && (
+              <button
+                onClick={() => setShowRefundDialog(true)}
+                className="border border-red-300 text-red-700 px-4 py-2 rounded-lg hover:bg-red-50 transition-colors"
+              >
+                Request refund
+              </button>
+            )}
+            <Link
+              href={`/orders/${order._id}/receipt`}
+              className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Receipt
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Tickets</h2>
+          {order.ticketIds.length === 0 ? (
+            <>
+              <p className="text-gray-600">
+                {refunded || isOrderCancelled(order)
+                  ? 'No tickets were issued for this order.'
+                  : 'Your tickets will appear here as soon as your payment is confirmed.'}
+              </p>
+              <p className="mt-4 text-sm text-gray-500">Seats: {order.seatIds.join(', ')}</p>
+            </>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {order.ticketIds.map((ticket) => {
+                const transfer = activeTransfer(ticket, transfers);
+                const ticketRefunded = refunded || !!ticket.refundedAt;
+                // The code of a sent or claimed ticket no longer admits anyone, so its QR is hidden
+                const valid = !ticketRefunded && !ticket.transferredAt && !transfer;
+                return (
+                  <div
+                    key={ticket._id || ticket.ticketCode}
+                    className={`border border-gray-200 rounded-lg p-4 text-center ${valid ? '' : 'opacity-50'}`}
+                  >
+                    {valid && ticket.qrCodeUrl && (
+                      <img
+                        src={ticket.qrCodeUrl}
+                        alt={`QR code for seat ${ticket.seatId}`}
+                        className="w-40 h-40 mx-auto"
+                      />
+                    )}
+                    <p className="mt-3 font-semibold text-gray-900">Seat {ticket.seatId}</p>
+                    {valid && <p className="font-mono text-sm text-gray-600 break-all">{ticket.ticketCode}</p>}
+                    {ticketRefunded ? (
+                      <p className="mt-1 text-sm text-red-600">Refunded · no longer valid</p>
+                    ) : transfer?.status === 'pending' ? (
+                      <p className="mt-1 text-sm text-yellow-700">Sent to {transferRecipient(transfer)}</p>
+                    ) : transfer || ticket.transferredAt ? (
+                      <p className="mt-1 text-sm text-gray-600">
+                        Transferred{transfer && ` to ${transferRecipient(transfer)}`}
+                      </p>
+                    ) : (
+                      isRefundPending(ticket, refundRequests) && (
+                        <p className="mt-1 text-sm text-yellow-700">Refund requested</p>
+                      )
+                    )}
+                    {canTransferTicket(order, ticket, transfers, refundRequests) && (
+                      <button
+                        onClick={() => setTransferTicket(ticket)}
+                        className="mt-3 text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        Transfer ticket
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-8">
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Status</h2>
+            <ol className="space-y-4">
+              {timeline.map((step) => (
+                <li key={step.key} className="flex items-start">
+                  <span
+                    className={`mt-1 mr-3 w-3 h-3 rounded-full flex-shrink-0 ${
+                      !step.done
+                        ? 'border-2 border-gray-300'
+                        : step.key === 'refunded' || step.key === 'cancelled'
+                          ? 'bg-red-500'
+                          : 'bg-green-500'
+                    }`}
+                  />
+                  <div>
+                    <p className={step.done ? 'text-gray-900' : 'text-gray-400'}>{step.label}</p>
+                    {step.at && <p className="text-sm text-gray-500">{new Date(step.at).toLocaleString()}</p>}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Payment</h2>
+            <OrderBreakdownRows breakdown={order.breakdown} refunded={refunded} />
+          </div>
+
+          {transfers.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Transfers</h2>
+              {transferError && <p className="mb-4 text-sm text-red-600">{transferError}</p>}
+              <ul className="space-y-4 text-sm">
+                {transfers.map((transfer) => (
+                  <li key={transfer._id}>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-900">Seat {transfer.seatId}</span>
+                      <span className="text-gray-500">{TRANSFER_STATUS_LABELS[transfer.status]}</span>
+                    </div>
+                    <p className="text-gray-600 break-all">To {transferRecipient(transfer)}</p>
+                    <p className="text-gray-500">
+                      Sent {new Date(transfer.createdAt).toLocaleDateString()}
+                      {transfer.claimedAt &&
+                        ` · claimed ${new Date(transfer.claimedAt).toLocaleDateString()}${
+                          transfer.claimedAsGuest ? ' as a guest' : ''
+                        }`}
+                      {transfer.cancelledAt && ` · cancelled ${new Date(transfer.cancelledAt).toLocaleDateString()}`}
+                    </p>
+                    {transfer.status === 'pending' && (
+                      <button
+                        onClick={() => handleCancelTransfer(transfer)}
+                        disabled={cancellingTransfer === transfer._id}
+                        className="mt-1 text-red-600 hover:text-red-800 disabled:opacity-50"
+                      >
+                        {cancellingTransfer === transfer._id ? 'Cancelling...' : 'Cancel transfer'}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {refundRequests.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Refund requests</h2>
+              <ul className="space-y-4 text-sm">
+                {refundRequests.map((request) => (
+                  <li key={request._id}>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-900">
+                        {request.ticketIds.length === 0
+                          ? 'Whole order'
+                          : `${request.ticketIds.length} of ${order.ticketIds.length} tickets`}{' '}
+                        · ${request.amount.toFixed(2)}
+                      </span>
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-semibold capitalize ${
+                          REFUND_STATUS_COLORS[request.status]
+                        }`}
+                      >
+                        {request.status}
+                      </span>
+                    </div>
+                    <p className="text-gray-500">
+                      {REFUND_REASONS.find((option) => option.value === request.reason)?.label} ·{' '}
+                      {new Date(request.requestedAt).toLocaleDateString()}
+                    </p>
+                    {request.decisionNote && <p className="mt-1 text-gray-700">{request.decisionNote}</p>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showRefundDialog && (
+        <RefundDialog
+          order={order}
+          requests={refundRequests}
+          transfers={transfers}
+          onSubmitted={(request) => setRefundRequests((current) => [request, ...current])}
+          onClose={() => setShowRefundDialog(false)}
+        />
+      )}
+
+      {transferTicket && (
+        <TransferDialog
+          ticket={transferTicket}
+          eventTitle={event.title}
+          onSent={handleTransferSent}
+          onClose={() => setTransferTicket(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default function OrderDetailPage() {
+  const { orderId } = useParams<{ orderId: string }>();
+
+  return (
+    <ProtectedRoute>
+      <OrderDetail orderId={orderId} />
+    </ProtectedRoute>
+  );
+}
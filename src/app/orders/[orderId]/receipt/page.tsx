@@ -0,0 +1,118 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ProtectedRoute } from '../../../../components/ProtectedRoute';
+import { useOrder } from '../../../../hooks/useOrder';
+import { siteConfig } from '../../../../lib/config';
+import { isOrderRefunded, orderEventInfo, orderStatusLabel } from '../../../../lib/order-timeline';
+import { OrderBreakdownRows } from '../../order-breakdown';
+
+function OrderReceipt({ orderId }: { orderId: string }) {
+  const { order, error } = useOrder(orderId);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-red-600">{error}</p>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const event = orderEventInfo(order);
+  const customer = order.customerInfo;
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white py-8 print:py-0">
+      <div className="max-w-2xl mx-auto px-4 mb-4 flex justify-between print:hidden">
+        <Link href={`/orders/${order._id}`} className="text-sm text-gray-500 hover:text-gray-700">
+          ← Back to order
+        </Link>
+        <button
+          onClick={() => window.print()}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Print receipt
+        </button>
+      </div>
+
+      <div className="max-w-2xl mx-auto bg-white rounded-xl shadow-sm print:shadow-none print:rounded-none p-8 space-y-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <p className="text-sm text-gray-500">{siteConfig.title}</p>
+            <h1 className="text-2xl font-bold text-gray-900">Receipt</h1>
+          </div>
+          <div className="text-right text-sm">
+            <p className="font-mono text-gray-900">{order.orderNumber}</p>
+            <p className="text-gray-500">{new Date(order.paidAt ?? order.createdAt).toLocaleString()}</p>
+            <p className="text-gray-500">{orderStatusLabel(order)}</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Billed to</p>
+            {customer ? (
+              <>
+                <p className="text-gray-900">
+                  {customer.firstName} {customer.lastName}
+                </p>
+                <p className="text-gray-700">{customer.email}</p>
+              </>
+            ) : (
+              <p className="text-gray-900">{order.guestEmail ?? '—'}</p>
+            )}
+          </div>
+          <div>
+            <p className="text-gray-500">Event</p>
+            <p className="text-gray-900">{event.title}</p>
+            {event.eventDate && <p className="text-gray-700">{new Date(event.eventDate).toLocaleString()}</p>}
+            {event.venueName && <p className="text-gray-700">{event.venueName}</p>}
+          </div>
+        </div>
+
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase tracking-wider border-b border-gray-200">
+              <th className="py-2">Seat</th>
+              <th className="py-2">Ticket code</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {(order.ticketIds.length > 0
+              ? order.ticketIds.map((ticket) => ({ seatId: ticket.seatId, ticketCode: ticket.ticketCode }))
+              : order.seatIds.map((seatId) => ({ seatId, ticketCode: 'Not issued' }))
+            ).map((line) => (
+              <tr key={line.seatId}>
+                <td className="py-2 text-gray-900">{line.seatId}</td>
+                <td className="py-2 font-mono text-gray-700">{line.ticketCode}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="max-w-xs ml-auto">
+          <OrderBreakdownRows breakdown={order.breakdown} refunded={isOrderRefunded(order)} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function OrderReceiptPage() {
+  const { orderId } = useParams<{ orderId: string }>();
+
+  return (
+    <ProtectedRoute>
+      <OrderReceipt orderId={orderId} />
+    </ProtectedRoute>
+  );
+}
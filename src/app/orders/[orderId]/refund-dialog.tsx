@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  eventApi,
+  orderApi,
+  type Order,
+  type RefundPolicy,
+  type RefundReason,
+  type RefundRequest,
+  type TicketTransfer,
+} from '../../../services/api';
+import { orderEventInfo } from '../../../lib/order-timeline';
+import {
+  DEFAULT_REFUND_POLICY,
+  REFUND_REASONS,
+  describeRefundPolicy,
+  estimateRefund,
+  refundableTickets,
+} from '../../../lib/refund-policy';
+
+const formatMoney = (value: number, currency = 'USD') =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value);
+
+interface RefundDialogProps {
+  order: Order;
+  requests: RefundRequest[];
+  transfers: TicketTransfer[];
+  onSubmitted: (request: RefundRequest) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lets a buyer ask for their money back. The amount shown is an estimate from
+ * the event's refund policy; the request is reviewed by an admin before
+ * anything is refunded or any seat is released.
+ */
+export function RefundDialog({ order, requests, transfers, onSubmitted, onClose }: RefundDialogProps) {
+  const event = orderEventInfo(order);
+  const tickets = refundableTickets(order, requests, transfers);
+  // Once part of the order is refunded, requested or being transferred, only the remaining tickets can be picked
+  const wholeOrderAvailable = tickets.length === order.ticketIds.length;
+
+  const [policy, setPolicy] = useState<RefundPolicy | null>(null);
+  const [policyError, setPolicyError] = useState<string | null>(null);
+  const [eventDate, setEventDate] = useState(event.eventDate);
+  const [currency, setCurrency] = useState<string | undefined>(undefined);
+  const [scope, setScope] = useState<'order' | 'tickets'>('order');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reason, setReason] = useState<RefundReason>('cant_attend');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    eventApi
+      .getEvent(event.id)
+      .then((response) => {
+        setPolicy(response.data.refundPolicy ?? DEFAULT_REFUND_POLICY);
+        setEventDate(response.data.eventDate);
+        // Orders are charged in the currency of the event's zones
+        setCurrency(Object.values(response.data.pricingZones)[0]?.currency);
+      })
+      .catch((err: any) => {
+        console.error('❌ Failed to load refund policy:', err);
+        setPolicyError("This event's refund policy could not be loaded. Please try again later.");
+      });
+  }, [event.id]);
+
+  const partial = scope === 'tickets' || !wholeOrderAvailable;
+  const estimate =
+    policy && eventDate ? estimateRefund(order, policy, eventDate, partial ? selected.size : undefined) : null;
+
+  const toggleTicket = (ticketId: string) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(ticketId)) next.delete(ticketId);
+      else next.add(ticketId);
+      return next;
+    });
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await orderApi.requestRefund(order._id, {
+        ticketIds: partial ? [...selected] : undefined,
+        reason,
+        note: note.trim() || undefined,
+      });
+      onSubmitted(response.data);
+      onClose();
+    } catch (err: any) {
+      console.error('❌ Refund request failed:', err);
+      setError(err.response?.data?.message || err.message || 'Your refund request could not be sent');
+      setSubmitting(false);
+    }
+  };
+
+  const canSubmit = !submitting && !!estimate && estimate.percent > 0 && (!partial || selected.size > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div role="dialog" aria-modal="true" className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6">
+        <h3 className="text-lg font-semibold text-gray-900">Request a refund</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Order {order.orderNumber} · {event.title}
+        </p>
+
+        {order.ticketIds.length > 1 && (
+          <div className="mt-4 space-y-2">
+            {wholeOrderAvailable && (
+              <>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input type="radio" checked={scope === 'order'} onChange={() => setScope('order')} className="mr-2" />
+                  The whole order
+                </label>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={scope === 'tickets'}
+                    onChange={() => setScope('tickets')}
+                    className="mr-2"
+                  />
+                  Only some tickets
+                </label>
+              </>
+            )}
+            {partial && (
+              <div className={`grid grid-cols-2 gap-2 ${wholeOrderAvailable ? 'pl-6' : ''}`}>
+                {tickets.map((ticket) => (
+                  <label key={ticket._id} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(ticket._id)}
+                      onChange={() => toggleTicket(ticket._id)}
+                      className="mr-2"
+                    />
+                    Seat {ticket.seatId}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <label className="block text-sm font-medium text-gray-700 mt-4 mb-1">Reason</label>
+        <select
+          value={reason}
+          onChange={(e) => setReason(e.target.value as RefundReason)}
+          disabled={submitting}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {REFUND_REASONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
+        <label className="block text-sm font-medium text-gray-700 mt-4 mb-1">Anything we should know? (optional)</label>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          disabled={submitting}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        <div className="mt-4 bg-gray-50 rounded-lg p-4 text-sm">
+          {policyError ? (
+            <p className="text-red-600">{policyError}</p>
+          ) : !policy ? (
+            <p className="text-gray-500">Loading refund policy...</p>
+          ) : (
+            <>
+              <ul className="text-gray-600 list-disc pl-5 space-y-1">
+                {describeRefundPolicy(policy).map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+              {estimate && (
+                <p className="mt-3 font-semibold text-gray-900">
+                  {estimate.percent > 0
+                    ? `Estimated refund: ${formatMoney(estimate.amount, currency)} (${estimate.percent}%)`
+                    : 'This event is no longer eligible for a refund.'}
+                </p>
+              )}
+              {estimate && estimate.percent > 0 && partial && (
+                <p className="mt-1 text-xs text-gray-500">
+                  An average: each ticket counts as an even share of the order, so the amount approved may differ.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button onClick={onClose} disabled={submitting} className="text-gray-500 hover:text-gray-700 px-4 py-2">
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {submitting ? 'Sending...' : 'Request refund'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
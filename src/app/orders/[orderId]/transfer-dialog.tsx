@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { ticketApi, type Ticket, type TicketTransfer } from '../../../services/api';
+
+interface TransferDialogProps {
+  ticket: Ticket;
+  eventTitle: string;
+  onSent: (transfer: TicketTransfer) => void;
+  onClose: () => void;
+}
+
+/**
+ * Sends a ticket to someone else. The recipient gets an email with a link to
+ * claim it; until then the transfer can be cancelled from the order page.
+ */
+export function TransferDialog({ ticket, eventTitle, onSent, onClose }: TransferDialogProps) {
+  const [recipientEmail, setRecipientEmail] = useState('');
+  const [recipientName, setRecipientName] = useState('');
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await ticketApi.transfer(ticket._id, {
+        recipientEmail: recipientEmail.trim(),
+        recipientName: recipientName.trim() || undefined,
+        message: message.trim() || undefined,
+      });
+      onSent(response.data);
+      onClose();
+    } catch (err: any) {
+      console.error('❌ Ticket transfer failed:', err);
+      setError(err.response?.data?.message || err.message || 'The ticket could not be transferred');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <form
+        role="dialog"
+        aria-modal="true"
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl shadow-xl max-w-md w-full p-6"
+      >
+        <h3 className="text-lg font-semibold text-gray-900">Transfer ticket</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Seat {ticket.seatId} · {eventTitle}
+        </p>
+
+        <label className="block text-sm font-medium text-gray-700 mt-4 mb-1">Recipient's email</label>
+        <input
+          type="email"
+          required
+          autoFocus
+          value={recipientEmail}
+          onChange={(e) => setRecipientEmail(e.target.value)}
+          disabled={submitting}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        <label className="block text-sm font-medium text-gray-700 mt-4 mb-1">Recipient's name (optional)</label>
+        <input
+          type="text"
+          value={recipientName}
+          onChange={(e) => setRecipientName(e.target.value)}
+          disabled={submitting}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        <label className="block text-sm font-medium text-gray-700 mt-4 mb-1">Message (optional)</label>
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          rows={2}
+          disabled={submitting}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        <p className="mt-4 text-sm text-gray-500">
+          Your current QR code stops working as soon as you send this. If you cancel before it is claimed, you get a
+          new one.
+        </p>
+
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            className="text-gray-500 hover:text-gray-700 px-4 py-2"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting || !recipientEmail.trim()}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {submitting ? 'Sending...' : 'Send ticket'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import type { OrderBreakdown } from '../../services/api';
+
+interface OrderBreakdownRowsProps {
+  breakdown: OrderBreakdown;
+  refunded?: boolean;
+}
+
+/**
+ * Subtotal-to-total lines of what the buyer was charged
+ */
+export function OrderBreakdownRows({ breakdown, refunded }: OrderBreakdownRowsProps) {
+  return (
+    <dl className="space-y-2 text-sm">
+      <div className="flex justify-between">
+        <dt className="text-gray-600">Subtotal</dt>
+        <dd className="text-gray-900">${breakdown.subtotal.toFixed(2)}</dd>
+      </div>
+      {!!breakdown.discount && (
+        <div className="flex justify-between text-green-700">
+          <dt>Discount{breakdown.promoCode && ` (${breakdown.promoCode})`}</dt>
+          <dd>-${breakdown.discount.toFixed(2)}</dd>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <dt className="text-gray-600">Fees</dt>
+        <dd className="text-gray-900">${breakdown.fees.toFixed(2)}</dd>
+      </div>
+      <div className="flex justify-between">
+        <dt className="text-gray-600">Tax</dt>
+        <dd className="text-gray-900">${breakdown.tax.toFixed(2)}</dd>
+      </div>
+      <div className="flex justify-between border-t border-gray-200 pt-2 font-semibold">
+        <dt className="text-gray-900">Total</dt>
+        <dd className="text-gray-900">${breakdown.total.toFixed(2)}</dd>
+      </div>
+      {refunded && (
+        <div className="flex justify-between text-red-700">
+          <dt>Refunded</dt>
+          <dd>-${breakdown.total.toFixed(2)}</dd>
+        </div>
+      )}
+    </dl>
+  );
+}
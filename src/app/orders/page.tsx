@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ProtectedRoute } from '../../components/ProtectedRoute';
+import { orderApi, type Order } from '../../services/api';
+import { orderEventInfo, orderStatusLabel } from '../../lib/order-timeline';
+import { orderTicketCount } from '../../lib/sales-analytics';
+
+function OrderList() {
+  const [orders, setOrders] = useState<Order[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    orderApi
+      .listMyOrders()
+      .then((response) =>
+        setOrders([...response.data].sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt)))
+      )
+      .catch((err: any) => {
+        console.error('❌ Failed to load orders:', err);
+        setError(err.response?.data?.message || 'Failed to load your orders');
+      });
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-3xl font-bold text-gray-900">My orders</h1>
+          <p className="mt-1 text-gray-600">Your tickets and receipts</p>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">{error}</div>}
+
+        {!orders && !error ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : orders?.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm p-8 text-center">
+            <p className="text-gray-600">You haven't bought any tickets yet.</p>
+            <Link href="/events" className="mt-4 inline-block text-blue-600 hover:text-blue-800">
+              Browse events
+            </Link>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm divide-y divide-gray-100">
+            {orders?.map((order) => {
+              const event = orderEventInfo(order);
+              return (
+                <Link
+                  key={order._id}
+                  href={`/orders/${order._id}`}
+                  className="flex flex-wrap items-center justify-between gap-4 p-6 hover:bg-gray-50 transition-colors"
+                >
+                  <div>
+                    <p className="font-semibold text-gray-900">{event.title}</p>
+                    <p className="text-sm text-gray-500">
+                      Order {order.orderNumber} · {new Date(order.createdAt).toLocaleDateString()} ·{' '}
+                      {orderTicketCount(order)} tickets
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold text-gray-900">${order.breakdown.total.toFixed(2)}</p>
+                    <p className="text-sm text-gray-500">{orderStatusLabel(order)}</p>
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function OrdersPage() {
+  return (
+    <ProtectedRoute>
+      <OrderList />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { venueApi, type Venue } from '../../../services/api';
+import { useEventDraft } from '../../../hooks/useEventDraft';
+import { WIZARD_STEPS, firstInvalidStep, validateStep, type WizardStep } from '../../../lib/event-wizard';
+import { DetailsStep, PricingStep, SalesStep, ScheduleStep, VenueStep } from './wizard-steps';
+
+export default function CreateEventPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const draftId = searchParams.get('draft');
+
+  const [authorized, setAuthorized] = useState(false);
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [venuesError, setVenuesError] = useState<string | null>(null);
+  const [step, setStep] = useState<WizardStep>('details');
+  // Errors for a step only show once the organizer has tried to leave it
+  const [checkedSteps, setCheckedSteps] = useState<WizardStep[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const handleDraftCreated = useCallback(
+    (id: string) => router.replace(`/organizer/create-event?draft=${id}`),
+    [router]
+  );
+  const wizard = useEventDraft(draftId, handleDraftCreated);
+
+  useEffect(() => {
+    // Check authentication
+    const token = localStorage.getItem('accessToken');
+    if (!token) {
+      router.push('/login');
+      return;
+    }
+
+    const userData = JSON.parse(localStorage.getItem('user') || '{}');
+    if (userData.role !== 'organizer') {
+      router.push('/');
+      return;
+    }
+
+    setAuthorized(true);
+    venueApi
+      .listVenues()
+      .then((response) => setVenues(response.data))
+      .catch((err: any) => {
+        console.error('❌ Failed to load venues:', err);
+        setVenuesError(err.response?.data?.message || 'Failed to load venues');
+      });
+  }, [router]);
+
+  const venue = venues.find((candidate) => candidate._id === wizard.form.venueId);
+  const errors = checkedSteps.includes(step) ? validateStep(step, wizard.form, venue) : {};
+  const stepIndex = WIZARD_STEPS.findIndex(({ id }) => id === step);
+  const isLastStep = stepIndex === WIZARD_STEPS.length - 1;
+  const disabled = !wizard.editable || submitting;
+
+  const goToStep = (next: WizardStep) => {
+    setCheckedSteps((steps) => (steps.includes(step) ? steps : [...steps, step]));
+    setStep(next);
+  };
+
+  const handleNext = () => {
+    setCheckedSteps((steps) => (steps.includes(step) ? steps : [...steps, step]));
+    if (Object.keys(validateStep(step, wizard.form, venue)).length > 0) return;
+    setStep(WIZARD_STEPS[stepIndex + 1].id);
+  };
+
+  const handleSubmit = async () => {
+    const invalid = firstInvalidStep(wizard.form, venue);
+    if (invalid) {
+      setCheckedSteps(WIZARD_STEPS.map(({ id }) => id));
+      setStep(invalid);
+      return;
+    }
+
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      await wizard.submit();
+    } catch (err: any) {
+      console.error('❌ Failed to submit event:', err);
+      setSubmitError(err.response?.data?.message || err.message || 'Failed to submit your event');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!authorized || wizard.loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (wizard.loadError) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-600">{wizard.loadError}</p>
+          <button onClick={() => router.push('/organizer/dashboard')} className="mt-4 text-blue-600 hover:text-blue-800">
+            Back to dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (wizard.draft?.status === 'pending') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+          <h2 className="text-2xl font-bold text-gray-900">Submitted for approval</h2>
+          <p className="mt-2 text-gray-600">
+            {wizard.draft.title} is waiting for review. We&apos;ll let you know once an admin has looked at it.
+          </p>
+          <button
+            onClick={() => router.push('/organizer/dashboard')}
+            className="mt-6 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Back to dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const stepProps = { form: wizard.form, errors, disabled, onChange: wizard.updateForm };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{draftId ? 'Edit Event' : 'Create Event'}</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              {wizard.saveStatus === 'saving' && 'Saving...'}
+              {wizard.saveStatus === 'saved' &&
+                wizard.lastSavedAt &&
+                `Draft saved at ${wizard.lastSavedAt.toLocaleTimeString()}`}
+              {wizard.saveStatus === 'error' && <span className="text-red-600">{wizard.saveError}</span>}
+              {wizard.saveStatus === 'idle' && 'Changes are saved automatically once the event has a title.'}
+            </p>
+          </div>
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => wizard.save().catch(() => undefined)}
+              disabled={disabled || !wizard.form.title.trim() || wizard.saveStatus === 'saving'}
+              className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              Save draft
+            </button>
+            <button onClick={() => router.push('/organizer/dashboard')} className="text-gray-500 hover:text-gray-700">
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!wizard.editable && (
+          <div className="mb-6 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg">
+            This event is {wizard.draft?.status.replace('_', ' ')} and can no longer be edited here.
+          </div>
+        )}
+        {wizard.draft?.reviewNote && (
+          <div className="mb-6 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg">
+            Reviewer feedback: {wizard.draft.reviewNote}
+          </div>
+        )}
+
+        <nav className="flex mb-8">
+          {WIZARD_STEPS.map(({ id, label }, index) => (
+            <button
+              key={id}
+              onClick={() => goToStep(id)}
+              className={`flex-1 py-2 border-b-2 text-sm font-medium ${
+                id === step
+                  ? 'border-blue-500 text-blue-600'
+                  : checkedSteps.includes(id) && Object.keys(validateStep(id, wizard.form, venue)).length > 0
+                    ? 'border-red-300 text-red-600'
+                    : 'border-gray-200 text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {index + 1}. {label}
+            </button>
+          ))}
+        </nav>
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          {step === 'details' && <DetailsStep {...stepProps} />}
+          {step === 'schedule' && <ScheduleStep {...stepProps} />}
+          {step === 'venue' && <VenueStep {...stepProps} venues={venues} venuesError={venuesError} />}
+          {step === 'pricing' && <PricingStep {...stepProps} venue={venue} />}
+          {step === 'sales' && <SalesStep {...stepProps} />}
+        </div>
+
+        {submitError && <p className="mt-4 text-red-600">{submitError}</p>}
+
+        <div className="flex justify-between mt-6">
+          <button
+            onClick={() => setStep(WIZARD_STEPS[stepIndex - 1].id)}
+            disabled={stepIndex === 0}
+            className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Back
+          </button>
+          {isLastStep ? (
+            <button
+              onClick={handleSubmit}
+              disabled={disabled}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {submitting ? 'Submitting...' : 'Submit for Approval'}
+            </button>
+          ) : (
+            <button
+              onClick={handleNext}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Next
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,355 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import type { Venue } from '../../../services/api';
+import {
+  EVENT_TYPES,
+  type EventForm,
+  type FormErrors,
+  type PricingZoneForm,
+  type SalesWindowForm,
+} from '../../../lib/event-wizard';
+
+interface StepProps {
+  form: EventForm;
+  errors: FormErrors;
+  disabled: boolean;
+  onChange: (patch: Partial<EventForm>) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100';
+
+function Field({ label, error, hint, children }: { label: string; error?: string; hint?: string; children: ReactNode }) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      {children}
+      {hint && !error && <p className="mt-1 text-xs text-gray-500">{hint}</p>}
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+export function DetailsStep({ form, errors, disabled, onChange }: StepProps) {
+  return (
+    <div className="space-y-5">
+      <Field label="Title" error={errors.title}>
+        <input
+          value={form.title}
+          onChange={(e) => onChange({ title: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </Field>
+      <Field label="Description" error={errors.description}>
+        <textarea
+          value={form.description}
+          onChange={(e) => onChange({ description: e.target.value })}
+          disabled={disabled}
+          rows={5}
+          className={inputClass}
+        />
+      </Field>
+      <Field label="Event type" error={errors.eventType}>
+        <select
+          value={form.eventType}
+          onChange={(e) => onChange({ eventType: e.target.value as EventForm['eventType'] })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="">Choose a type</option>
+          {EVENT_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type.charAt(0).toUpperCase() + type.slice(1)}
+            </option>
+          ))}
+        </select>
+      </Field>
+      <Field label="Image URL" error={errors.imageUrl} hint="Optional. Shown on the event page and listings.">
+        <input
+          type="url"
+          value={form.imageUrl}
+          onChange={(e) => onChange({ imageUrl: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </Field>
+      {form.imageUrl && !errors.imageUrl && (
+        <img src={form.imageUrl} alt="Event preview" className="h-40 rounded-lg object-cover" />
+      )}
+    </div>
+  );
+}
+
+export function ScheduleStep({ form, errors, disabled, onChange }: StepProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+      <Field label="Starts" error={errors.eventDate}>
+        <input
+          type="datetime-local"
+          value={form.eventDate}
+          onChange={(e) => onChange({ eventDate: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </Field>
+      <Field label="Ends" error={errors.eventEndDate} hint="Optional">
+        <input
+          type="datetime-local"
+          value={form.eventEndDate}
+          min={form.eventDate || undefined}
+          onChange={(e) => onChange({ eventEndDate: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </Field>
+      <Field label="Doors open" error={errors.doorOpenTime} hint="Optional">
+        <input
+          type="datetime-local"
+          value={form.doorOpenTime}
+          max={form.eventDate || undefined}
+          onChange={(e) => onChange({ doorOpenTime: e.target.value })}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </Field>
+    </div>
+  );
+}
+
+interface VenueStepProps extends StepProps {
+  venues: Venue[];
+  venuesError: string | null;
+}
+
+export function VenueStep({ form, errors, disabled, onChange, venues, venuesError }: VenueStepProps) {
+  if (venuesError) return <p className="text-red-600">{venuesError}</p>;
+
+  return (
+    <div className="space-y-3">
+      {errors.venueId && <p className="text-sm text-red-600">{errors.venueId}</p>}
+      {venues.map((venue) => (
+        <label
+          key={venue._id}
+          className={`flex items-start p-4 border rounded-lg cursor-pointer ${
+            form.venueId === venue._id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+          }`}
+        >
+          <input
+            type="radio"
+            name="venue"
+            checked={form.venueId === venue._id}
+            disabled={disabled}
+            // Pricing zones belong to the old venue's sections, so they start over
+            onChange={() =>
+              onChange({
+                venueId: venue._id,
+                pricingZones: {},
+                salesWindows: form.salesWindows.map((window) => ({ ...window, zones: [] })),
+              })
+            }
+            className="mt-1 mr-3"
+          />
+          <div>
+            <p className="font-medium text-gray-900">{venue.name}</p>
+            <p className="text-sm text-gray-500">
+              {venue.address.city}, {venue.address.state} · {venue.sections.length} sections
+              {venue.totalSeats ? ` · ${venue.totalSeats} seats` : ''}
+            </p>
+          </div>
+        </label>
+      ))}
+      {venues.length === 0 && <p className="text-gray-500">No venues are available yet.</p>}
+    </div>
+  );
+}
+
+interface PricingStepProps extends StepProps {
+  venue: Venue | undefined;
+}
+
+export function PricingStep({ form, errors, disabled, onChange, venue }: PricingStepProps) {
+  if (!venue) return <p className="text-gray-500">Choose a venue first.</p>;
+
+  const updateZone = (section: string, patch: Partial<PricingZoneForm>) =>
+    onChange({ pricingZones: { ...form.pricingZones, [section]: { ...form.pricingZones[section], ...patch } } });
+
+  const toggleSection = (section: Venue['sections'][number]) => {
+    const { [section.sectionCode]: existing, ...rest } = form.pricingZones;
+    if (existing) {
+      // Drop the zone from sales windows too so they never reference an unpriced section
+      onChange({
+        pricingZones: rest,
+        salesWindows: form.salesWindows.map((window) => ({
+          ...window,
+          zones: window.zones.filter((zone) => zone !== section.sectionCode),
+        })),
+      });
+    } else {
+      onChange({
+        pricingZones: {
+          ...form.pricingZones,
+          [section.sectionCode]: {
+            name: section.name,
+            price: '',
+            available: section.capacity !== undefined ? String(section.capacity) : '',
+          },
+        },
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {errors.pricingZones && <p className="text-sm text-red-600">{errors.pricingZones}</p>}
+      {venue.sections.map((section) => {
+        const zone = form.pricingZones[section.sectionCode];
+        const prefix = `pricingZones.${section.sectionCode}`;
+        return (
+          <div key={section.sectionCode} className="border border-gray-200 rounded-lg p-4">
+            <label className="flex items-center font-medium text-gray-900">
+              <input
+                type="checkbox"
+                checked={!!zone}
+                disabled={disabled}
+                onChange={() => toggleSection(section)}
+                className="mr-3"
+              />
+              {section.name} ({section.sectionCode})
+              {section.capacity !== undefined && (
+                <span className="ml-2 text-sm font-normal text-gray-500">{section.capacity} seats</span>
+              )}
+            </label>
+            {errors[prefix] && <p className="mt-1 text-sm text-red-600">{errors[prefix]}</p>}
+            {zone && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                <Field label="Zone name" error={errors[`${prefix}.name`]}>
+                  <input
+                    value={zone.name}
+                    onChange={(e) => updateZone(section.sectionCode, { name: e.target.value })}
+                    disabled={disabled}
+                    className={inputClass}
+                  />
+                </Field>
+                <Field label="Price (USD)" error={errors[`${prefix}.price`]}>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={zone.price}
+                    onChange={(e) => updateZone(section.sectionCode, { price: e.target.value })}
+                    disabled={disabled}
+                    className={inputClass}
+                  />
+                </Field>
+                <Field label="Tickets available" error={errors[`${prefix}.available`]}>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={zone.available}
+                    onChange={(e) => updateZone(section.sectionCode, { available: e.target.value })}
+                    disabled={disabled}
+                    className={inputClass}
+                  />
+                </Field>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {venue.sections.length === 0 && <p className="text-gray-500">This venue has no sections to price.</p>}
+    </div>
+  );
+}
+
+export function SalesStep({ form, errors, disabled, onChange }: StepProps) {
+  const zoneKeys = Object.keys(form.pricingZones);
+
+  const updateWindow = (index: number, patch: Partial<SalesWindowForm>) =>
+    onChange({
+      salesWindows: form.salesWindows.map((window, i) => (i === index ? { ...window, ...patch } : window)),
+    });
+
+  const toggleZone = (index: number, zone: string) => {
+    const zones = form.salesWindows[index].zones;
+    updateWindow(index, { zones: zones.includes(zone) ? zones.filter((z) => z !== zone) : [...zones, zone] });
+  };
+
+  return (
+    <div className="space-y-4">
+      {errors.salesWindows && <p className="text-sm text-red-600">{errors.salesWindows}</p>}
+      {form.salesWindows.map((window, index) => {
+        const prefix = `salesWindows.${index}`;
+        return (
+          <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Field label="Name" error={errors[`${prefix}.name`]}>
+                <input
+                  value={window.name}
+                  onChange={(e) => updateWindow(index, { name: e.target.value })}
+                  disabled={disabled}
+                  className={inputClass}
+                />
+              </Field>
+              <Field label="Sales open" error={errors[`${prefix}.startsAt`]}>
+                <input
+                  type="datetime-local"
+                  value={window.startsAt}
+                  onChange={(e) => updateWindow(index, { startsAt: e.target.value })}
+                  disabled={disabled}
+                  className={inputClass}
+                />
+              </Field>
+              <Field label="Sales close" error={errors[`${prefix}.endsAt`]}>
+                <input
+                  type="datetime-local"
+                  value={window.endsAt}
+                  max={form.eventDate || undefined}
+                  onChange={(e) => updateWindow(index, { endsAt: e.target.value })}
+                  disabled={disabled}
+                  className={inputClass}
+                />
+              </Field>
+            </div>
+            <Field label="Zones on sale" error={errors[`${prefix}.zones`]} hint="Leave all unchecked to sell every zone.">
+              <div className="flex flex-wrap gap-4">
+                {zoneKeys.map((zone) => (
+                  <label key={zone} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={window.zones.includes(zone)}
+                      disabled={disabled}
+                      onChange={() => toggleZone(index, zone)}
+                      className="mr-2"
+                    />
+                    {form.pricingZones[zone].name}
+                  </label>
+                ))}
+              </div>
+            </Field>
+            {form.salesWindows.length > 1 && (
+              <button
+                onClick={() => onChange({ salesWindows: form.salesWindows.filter((_, i) => i !== index) })}
+                disabled={disabled}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Remove window
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={() =>
+          onChange({ salesWindows: [...form.salesWindows, { name: '', startsAt: '', endsAt: '', zones: [] }] })
+        }
+        disabled={disabled}
+        className="text-sm text-blue-600 hover:text-blue-800"
+      >
+        + Add sales window (e.g. presale)
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useState } from 'react';
+import { organizerApi, type EventDraft, type EventSalesStats, type EventStatus, type Order } from '../../../services/api';
+import { isDraftEditable } from '../../../lib/event-wizard';
+import { orderTicketCount } from '../../../lib/sales-analytics';
+
+interface EventCardProps {
+  event: EventDraft;
+  stats: EventSalesStats | undefined;
+  busy: boolean;
+  onEdit: () => void;
+  onDuplicate: () => void;
+  onPublish: () => void;
+  onCancel: (reason: string) => void;
+}
+
+const STATUS_BADGES: Partial<Record<EventStatus, string>> = {
+  draft: 'bg-gray-100 text-gray-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  changes_requested: 'bg-amber-100 text-amber-800',
+  approved: 'bg-blue-100 text-blue-800',
+  published: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const formatMoney = (value: number, currency = 'USD') =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value);
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</p>
+      <p className="text-lg font-semibold text-gray-900">{value}</p>
+      {hint && <p className="text-xs text-gray-500">{hint}</p>}
+    </div>
+  );
+}
+
+export function EventCard({ event, stats, busy, onEdit, onDuplicate, onPublish, onCancel }: EventCardProps) {
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [orders, setOrders] = useState<Order[] | null>(null);
+  const [ordersOpen, setOrdersOpen] = useState(false);
+  const [ordersError, setOrdersError] = useState<string | null>(null);
+
+  const soldCount = stats?.soldCount ?? event.soldCount;
+  const capacity = stats?.totalCapacity ?? event.totalCapacity;
+  const soldPercent = capacity > 0 ? Math.min(100, Math.round((soldCount / capacity) * 100)) : 0;
+  const heldPercent = capacity > 0 && stats ? Math.min(100 - soldPercent, Math.round((stats.heldCount / capacity) * 100)) : 0;
+  const onSale = event.status === 'published';
+
+  const toggleOrders = async () => {
+    setOrdersOpen(!ordersOpen);
+    if (ordersOpen || orders) return;
+    try {
+      const response = await organizerApi.listEventOrders(event._id);
+      setOrders(response.data);
+    } catch (err: any) {
+      console.error('❌ Failed to load event orders:', err);
+      setOrdersError(err.response?.data?.message || 'Failed to load orders');
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-5">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="font-semibold text-gray-900">{event.title}</h3>
+          <p className="text-sm text-gray-500">
+            {event.eventDate ? new Date(event.eventDate).toLocaleString() : 'Date not set'}
+          </p>
+          {event.reviewNote && <p className="text-sm text-amber-700 mt-1">Reviewer feedback: {event.reviewNote}</p>}
+        </div>
+        <span
+          className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+            STATUS_BADGES[event.status] ?? 'bg-gray-100 text-gray-800'
+          }`}
+        >
+          {event.status.replace('_', ' ')}
+        </span>
+      </div>
+
+      {capacity > 0 && (
+        <div className="mt-4">
+          <div className="flex justify-between text-sm text-gray-600 mb-1">
+            <span>
+              {soldCount} / {capacity} sold ({soldPercent}%)
+            </span>
+            {stats && stats.heldCount > 0 && <span className="text-amber-600">{stats.heldCount} on hold</span>}
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden flex">
+            <div className="bg-green-500" style={{ width: `${soldPercent}%` }} />
+            <div className="bg-amber-400" style={{ width: `${heldPercent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {stats && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+            <Stat label="Revenue" value={formatMoney(stats.revenue, stats.currency)} />
+            <Stat
+              label="Checked in"
+              value={`${stats.checkedInCount} / ${stats.soldCount}`}
+              hint={stats.soldCount > 0 ? `${Math.round((stats.checkedInCount / stats.soldCount) * 100)}%` : undefined}
+            />
+            <Stat label="Last hour" value={`${stats.salesVelocity.lastHour} sold`} />
+            <Stat
+              label="Last 24h / 7d"
+              value={`${stats.salesVelocity.last24Hours} / ${stats.salesVelocity.last7Days}`}
+            />
+          </div>
+
+          {Object.keys(stats.revenueByZone).length > 0 && (
+            <table className="min-w-full text-sm mt-4">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+                  <th className="py-1">Zone</th>
+                  <th className="py-1">Sold</th>
+                  <th className="py-1 text-right">Revenue</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {Object.entries(stats.revenueByZone).map(([zone, sales]) => (
+                  <tr key={zone}>
+                    <td className="py-1 text-gray-700">{event.pricingZones[zone]?.name ?? zone}</td>
+                    <td className="py-1 text-gray-700">
+                      {sales.sold}
+                      {/* `available` is what is left to sell, so the zone's size is that plus what sold */}
+                      {event.pricingZones[zone] ? ` / ${sales.sold + event.pricingZones[zone].available}` : ''}
+                    </td>
+                    <td className="py-1 text-right text-gray-900">{formatMoney(sales.revenue, stats.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-wrap gap-4 mt-4 text-sm font-medium">
+        {isDraftEditable(event.status) && (
+          <button onClick={onEdit} disabled={busy} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+            Edit
+          </button>
+        )}
+        <button onClick={onDuplicate} disabled={busy} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+          Duplicate
+        </button>
+        {event.status === 'approved' && (
+          <button onClick={onPublish} disabled={busy} className="text-green-600 hover:text-green-800 disabled:opacity-50">
+            Publish
+          </button>
+        )}
+        {(onSale || event.status === 'approved') && (
+          <button
+            onClick={() => setConfirmingCancel(!confirmingCancel)}
+            disabled={busy}
+            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+          >
+            Cancel Event
+          </button>
+        )}
+        {(onSale || event.status === 'cancelled' || event.status === 'completed') && (
+          <button onClick={toggleOrders} className="text-gray-600 hover:text-gray-800">
+            {ordersOpen ? 'Hide orders' : 'View orders'}
+          </button>
+        )}
+      </div>
+
+      {confirmingCancel && (
+        <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-800">
+            Cancelling notifies every ticket holder and refunds their orders. This cannot be undone.
+          </p>
+          <textarea
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            placeholder="Reason shown to ticket holders"
+            rows={2}
+            className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <div className="flex justify-end space-x-3 mt-2">
+            <button onClick={() => setConfirmingCancel(false)} className="text-gray-500 hover:text-gray-700 text-sm">
+              Keep event
+            </button>
+            <button
+              onClick={() => {
+                onCancel(cancelReason.trim());
+                setConfirmingCancel(false);
+              }}
+              disabled={busy || !cancelReason.trim()}
+              className="bg-red-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-red-700 disabled:opacity-50"
+            >
+              Cancel Event
+            </button>
+          </div>
+        </div>
+      )}
+
+      {ordersOpen && (
+        <div className="mt-4">
+          {ordersError ? (
+            <p className="text-sm text-red-600">{ordersError}</p>
+          ) : !orders ? (
+            <p className="text-sm text-gray-500">Loading orders...</p>
+          ) : orders.length === 0 ? (
+            <p className="text-sm text-gray-500">No orders yet.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+                  <th className="py-1">Order</th>
+                  <th className="py-1">Customer</th>
+                  <th className="py-1">Tickets</th>
+                  <th className="py-1">Status</th>
+                  <th className="py-1 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {orders.map((order) => (
+                  <tr key={order._id}>
+                    <td className="py-1 font-mono text-gray-700">{order.orderNumber}</td>
+                    <td className="py-1 text-gray-700">{order.customerInfo?.email || order.guestEmail || '—'}</td>
+                    <td className="py-1 text-gray-700">{orderTicketCount(order)}</td>
+                    <td className="py-1 text-gray-700">{order.status ?? order.paymentStatus}</td>
+                    <td className="py-1 text-right text-gray-900">{formatMoney(order.breakdown.total, stats?.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
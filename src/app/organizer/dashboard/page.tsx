@@ -2,14 +2,29 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { organizerApi, type EventDraft } from '../../../services/api';
+import { useLiveEventStats } from '../../../hooks/useLiveEventStats';
+import { EventCard } from './event-card';
+
+const formatMoney = (value: number, currency = 'USD') =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value);
 
 export default function OrganizerDashboard() {
   const router = useRouter();
   
   const [user, setUser] = useState<any>(null);
-  const [events, setEvents] = useState<any[]>([]);
+  const [events, setEvents] = useState<EventDraft[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'events' | 'create' | 'sales'>('events');
+  const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'events' | 'sales'>('events');
+  const [busyEventId, setBusyEventId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Only events that are or have been on sale have stats worth watching
+  const liveEventIds = events
+    .filter((event) => event.status === 'published' || event.status === 'completed')
+    .map((event) => event._id);
+  const live = useLiveEventStats(liveEventIds);
 
   useEffect(() => {
     // Check authentication
@@ -28,34 +43,79 @@ export default function OrganizerDashboard() {
     
     setUser(userData);
     
-    // Mock events data
-    const mockEvents = [
-      {
-        _id: '1',
-        title: 'Summer Music Festival',
-        slug: 'summer-music-festival',
-        startDate: '2026-06-15T19:00:00Z',
-        location: { venue: 'Central Park' },
-        status: 'published',
-        soldCount: 150,
-        totalCapacity: 500
-      },
-      {
-        _id: '2',
-        title: 'Tech Conference 2026',
-        slug: 'tech-conference-2026',
-        startDate: '2026-03-20T09:00:00Z',
-        location: { venue: 'Convention Center' },
-        status: 'draft',
-        soldCount: 0,
-        totalCapacity: 300
-      }
-    ];
-    
-    setEvents(mockEvents);
-    setLoading(false);
+    organizerApi
+      .listMyEvents()
+      .then((response) => setEvents(response.data))
+      .catch((err: any) => {
+        console.error('❌ Failed to load organizer events:', err);
+        setError(err.response?.data?.message || 'Failed to load your events');
+      })
+      .finally(() => setLoading(false));
   }, [router]);
 
+  const replaceEvent = (updated: EventDraft) =>
+    setEvents((prev) => prev.map((event) => (event._id === updated._id ? updated : event)));
+
+  const runAction = async (eventId: string, action: () => Promise<void>, failure: string) => {
+    setBusyEventId(eventId);
+    setActionError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error(`❌ ${failure}:`, err);
+      setActionError(err.response?.data?.message || failure);
+    } finally {
+      setBusyEventId(null);
+    }
+  };
+
+  const handleDuplicate = (event: EventDraft) =>
+    runAction(
+      event._id,
+      async () => {
+        const response = await organizerApi.duplicateEvent(event._id);
+        router.push(`/organizer/create-event?draft=${response.data._id}`);
+      },
+      'Failed to duplicate event'
+    );
+
+  const handlePublish = (event: EventDraft) =>
+    runAction(
+      event._id,
+      async () => replaceEvent((await organizerApi.publishEvent(event._id)).data),
+      'Failed to publish event'
+    );
+
+  const handleCancel = (event: EventDraft, reason: string) =>
+    runAction(
+      event._id,
+      async () => replaceEvent((await organizerApi.cancelEvent(event._id, reason)).data),
+      'Failed to cancel event'
+    );
+
+  // Stats stay behind for events that left the live list (e.g. cancelled ones), so only live events count
+  const salesRows = events.flatMap((event) =>
+    liveEventIds.includes(event._id) && live.stats[event._id] ? [{ event, stats: live.stats[event._id] }] : []
+  );
+  const totals = salesRows.reduce(
+    (sum, { stats }) => ({
+      sold: sum.sold + stats.soldCount,
+      held: sum.held + stats.heldCount,
+      checkedIn: sum.checkedIn + stats.checkedInCount,
+      lastDay: sum.lastDay + stats.salesVelocity.last24Hours,
+    }),
+    { sold: 0, held: 0, checkedIn: 0, lastDay: 0 }
+  );
+  // Events can sell in different currencies, which are totalled separately
+  const revenueByCurrency = salesRows.reduce<Record<string, number>>(
+    (sum, { stats }) => ({ ...sum, [stats.currency]: (sum[stats.currency] ?? 0) + stats.revenue }),
+    {}
+  );
+  const revenue =
+    Object.entries(revenueByCurrency)
+      .map(([currency, amount]) => formatMoney(amount, currency))
+      .join(' + ') || formatMoney(0);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -96,14 +156,29 @@ export default function OrganizerDashboard() {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="bg-white rounded-xl shadow-sm p-6">
-          <div className="text-center py-12">
-            <svg className="mx-auto h-16 w-16 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
-            </svg>
-            <h3 className="mt-4 text-lg font-medium text-gray-900">Organizer Dashboard</h3>
-            <p className="mt-2 text-gray-500">Your event management dashboard is ready.</p>
-            <div className="mt-6">
+        <div className="bg-white rounded-xl shadow-sm">
+          <div className="border-b border-gray-200 flex justify-between items-center pr-6">
+            <nav className="flex -mb-px">
+              {(['events', 'sales'] as const).map((tab) => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${
+                    activeTab === tab
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  {tab === 'events' ? 'My Events' : 'Sales'}
+                </button>
+              ))}
+            </nav>
+            <div className="flex items-center space-x-4">
+              {liveEventIds.length > 0 && (
+                <span className={`text-xs ${live.connected ? 'text-green-600' : 'text-gray-400'}`}>
+                  {live.connected ? '● Live' : '○ Offline'}
+                </span>
+              )}
               <button
                 onClick={() => router.push('/organizer/create-event')}
                 className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -112,6 +187,95 @@ export default function OrganizerDashboard() {
               </button>
             </div>
           </div>
+
+          <div className="p-6">
+            {actionError && (
+              <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex justify-between">
+                <span>{actionError}</span>
+                <button onClick={() => setActionError(null)} className="text-red-500 hover:text-red-700">
+                  Dismiss
+                </button>
+              </div>
+            )}
+
+            {error ? (
+              <p className="text-center py-12 text-red-600">{error}</p>
+            ) : events.length === 0 ? (
+              <div className="text-center py-12">
+                <svg className="mx-auto h-16 w-16 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
+                </svg>
+                <h3 className="mt-4 text-lg font-medium text-gray-900">No events yet</h3>
+                <p className="mt-2 text-gray-500">Create your first event to get started.</p>
+              </div>
+            ) : activeTab === 'events' ? (
+              <div className="space-y-4">
+                {events.map((event) => (
+                  <EventCard
+                    key={event._id}
+                    event={event}
+                    stats={live.stats[event._id]}
+                    busy={busyEventId === event._id}
+                    onEdit={() => router.push(`/organizer/create-event?draft=${event._id}`)}
+                    onDuplicate={() => handleDuplicate(event)}
+                    onPublish={() => handlePublish(event)}
+                    onCancel={(reason) => handleCancel(event, reason)}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-6 mb-8">
+                  {[
+                    { label: 'Revenue', value: revenue },
+                    { label: 'Tickets Sold', value: totals.sold.toLocaleString() },
+                    { label: 'Sold (24h)', value: totals.lastDay.toLocaleString() },
+                    { label: 'On Hold Now', value: totals.held.toLocaleString() },
+                    { label: 'Checked In', value: totals.checkedIn.toLocaleString() },
+                  ].map((stat) => (
+                    <div key={stat.label} className="bg-gray-50 rounded-lg p-4">
+                      <p className="text-sm font-medium text-gray-600">{stat.label}</p>
+                      <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+                    </div>
+                  ))}
+                </div>
+
+                {salesRows.length === 0 ? (
+                  <p className="text-center py-12 text-gray-500">Sales appear here once an event is published.</p>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sold</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Holds</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last hour / 24h / 7d</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {salesRows.map(({ event, stats }) => (
+                        <tr key={event._id}>
+                          <td className="px-6 py-4 text-sm font-medium text-gray-900">{event.title}</td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            {stats.soldCount} / {stats.totalCapacity}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-700">{stats.heldCount}</td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            {stats.salesVelocity.lastHour} / {stats.salesVelocity.last24Hours} /{' '}
+                            {stats.salesVelocity.last7Days}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-right text-gray-900">
+                            {formatMoney(stats.revenue, stats.currency)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </div>
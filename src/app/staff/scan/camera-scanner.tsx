@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+// The Barcode Detection API is not in TypeScript's DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const DETECT_INTERVAL_MS = 250;
+// A code held in front of the camera is reported once, not on every frame
+const REPEAT_SCAN_MS = 3000;
+
+interface CameraScannerProps {
+  paused: boolean;
+  onDetect: (rawValue: string) => void;
+}
+
+export function CameraScanner({ paused, onDetect }: CameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectRef = useRef(onDetect);
+  const pausedRef = useRef(paused);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onDetectRef.current = onDetect;
+    pausedRef.current = paused;
+  }, [onDetect, paused]);
+
+  useEffect(() => {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setError("This browser can't scan with the camera. Enter ticket codes by hand below.");
+      return;
+    }
+
+    const detector = new Detector({ formats: ['qr_code'] });
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+    let detecting = false;
+    let last = { value: '', at: 0 };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(async (media) => {
+        if (stopped) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = media;
+        await video.play();
+
+        timer = setInterval(async () => {
+          if (detecting || pausedRef.current || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+          detecting = true;
+          try {
+            const [barcode] = await detector.detect(video);
+            const now = Date.now();
+            if (barcode && !(barcode.rawValue === last.value && now - last.at < REPEAT_SCAN_MS)) {
+              last = { value: barcode.rawValue, at: now };
+              onDetectRef.current(barcode.rawValue);
+            }
+          } catch (err) {
+            console.error('❌ Barcode detection failed:', err);
+          } finally {
+            detecting = false;
+          }
+        }, DETECT_INTERVAL_MS);
+      })
+      .catch((err: any) => {
+        console.error('❌ Failed to start camera:', err);
+        setError(
+          err?.name === 'NotAllowedError'
+            ? 'Camera access was blocked. Allow it in the browser settings, or enter codes by hand.'
+            : 'Could not start the camera. Enter ticket codes by hand below.'
+        );
+      });
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return <div className="bg-gray-800 text-gray-200 rounded-xl p-6 text-center text-sm">{error}</div>;
+  }
+
+  return (
+    <div className="relative bg-black rounded-xl overflow-hidden aspect-square">
+      <video ref={videoRef} muted playsInline className="w-full h-full object-cover" />
+      <div className="absolute inset-[15%] border-4 border-white/70 rounded-2xl pointer-events-none" />
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { STAFF_SCAN_KEY_PREFIX, staffApi, type StaffEvent, type TicketScanResult } from '../../../services/api';
+import { SCAN_RESULT_LABELS, parseTicketCode } from '../../../lib/ticket-scan';
+import { useTicketScanner, type ScanOutcome } from '../../../hooks/useTicketScanner';
+import { CameraScanner } from './camera-scanner';
+
+const EVENTS_KEY = `${STAFF_SCAN_KEY_PREFIX}Events`;
+const GATE_KEY = `${STAFF_SCAN_KEY_PREFIX}Gate`;
+const RECENT_SCAN_LIMIT = 10;
+
+const RESULT_COLORS: Record<TicketScanResult, string> = {
+  valid: 'bg-green-600',
+  already_used: 'bg-red-600',
+  wrong_event: 'bg-amber-500',
+  not_found: 'bg-gray-600',
+};
+
+export default function StaffScanPage() {
+  const router = useRouter();
+  const [events, setEvents] = useState<StaffEvent[] | null>(null);
+  const [eventId, setEventId] = useState<string | null>(null);
+  const [eventsError, setEventsError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<ScanOutcome | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [recent, setRecent] = useState<ScanOutcome[]>([]);
+  const [gate, setGate] = useState('');
+
+  const scanner = useTicketScanner(eventId, gate.trim());
+  const { scan } = scanner;
+
+  useEffect(() => {
+    // Check authentication
+    const token = localStorage.getItem('accessToken');
+    if (!token || !localStorage.getItem('staffProfile')) {
+      router.push('/admin/login');
+      return;
+    }
+    setGate(localStorage.getItem(GATE_KEY) ?? '');
+
+    const pickFirst = (list: StaffEvent[]) => {
+      setEvents(list);
+      setEventId((current) => current ?? list[0]?._id ?? null);
+    };
+
+    staffApi
+      .listAssignedEvents()
+      .then((response) => {
+        localStorage.setItem(EVENTS_KEY, JSON.stringify(response.data));
+        pickFirst(response.data);
+      })
+      .catch((err: any) => {
+        console.error('❌ Failed to load assigned events:', err);
+        const cached = localStorage.getItem(EVENTS_KEY);
+        if (cached) {
+          pickFirst(JSON.parse(cached));
+        } else {
+          setEventsError(err.response?.data?.message || 'Failed to load your assigned events');
+        }
+      });
+  }, [router]);
+
+  const handleCode = useCallback(
+    async (raw: string) => {
+      const ticketCode = parseTicketCode(raw);
+      setScanError(null);
+      if (!ticketCode) {
+        setResult(null);
+        setScanError("That code isn't a ticket.");
+        return;
+      }
+
+      setBusy(true);
+      try {
+        const outcome = await scan(ticketCode);
+        setResult(outcome);
+        setRecent((prev) => [outcome, ...prev].slice(0, RECENT_SCAN_LIMIT));
+      } catch (err: any) {
+        console.error('❌ Failed to scan ticket:', err);
+        setResult(null);
+        setScanError(err.response?.data?.message || err.message || 'Failed to scan ticket');
+      } finally {
+        setBusy(false);
+      }
+    },
+    [scan]
+  );
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manualCode.trim()) return;
+    handleCode(manualCode);
+    setManualCode('');
+  };
+
+  if (eventsError) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center px-4">
+        <p className="text-red-400 text-center">{eventsError}</p>
+      </div>
+    );
+  }
+
+  if (!events) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <div className="max-w-lg mx-auto px-4 py-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold">Ticket scanner</h1>
+          <span
+            className={`px-3 py-1 rounded-full text-xs font-semibold ${
+              scanner.online ? 'bg-green-900 text-green-300' : 'bg-amber-900 text-amber-300'
+            }`}
+          >
+            {scanner.online ? 'Online' : 'Offline'}
+          </span>
+        </div>
+
+        {events.length === 0 ? (
+          <p className="text-gray-400">You have no events assigned for scanning.</p>
+        ) : (
+          <>
+            <select
+              value={eventId ?? ''}
+              onChange={(e) => {
+                setEventId(e.target.value);
+                setResult(null);
+                setRecent([]);
+              }}
+              className="w-full px-3 py-2 rounded-lg bg-gray-800 border border-gray-700"
+            >
+              {events.map((event) => (
+                <option key={event._id} value={event._id}>
+                  {event.title} · {new Date(event.eventDate).toLocaleDateString()}
+                  {event.venueName && ` · ${event.venueName}`}
+                </option>
+              ))}
+            </select>
+
+            <input
+              type="text"
+              value={gate}
+              onChange={(e) => {
+                setGate(e.target.value);
+                localStorage.setItem(GATE_KEY, e.target.value);
+              }}
+              placeholder="Gate (e.g. North Entrance)"
+              className="w-full px-3 py-2 rounded-lg bg-gray-800 border border-gray-700"
+            />
+
+            <div className="text-sm text-gray-400 flex flex-wrap gap-x-4 gap-y-1">
+              <span>
+                {scanner.checkedInCount.toLocaleString()} / {scanner.ticketCount.toLocaleString()} checked in
+              </span>
+              <span>
+                {scanner.cachedAt
+                  ? `Ticket list from ${new Date(scanner.cachedAt).toLocaleTimeString()}`
+                  : 'Ticket list not downloaded'}
+              </span>
+              {scanner.online && (
+                <button onClick={() => scanner.refreshTickets()} className="text-blue-400 hover:text-blue-300">
+                  Refresh
+                </button>
+              )}
+            </div>
+            {scanner.loadError && <p className="text-sm text-red-400">{scanner.loadError}</p>}
+
+            <CameraScanner paused={busy} onDetect={handleCode} />
+
+            <form onSubmit={handleManualSubmit} className="flex gap-2">
+              <input
+                type="text"
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                placeholder="Ticket code"
+                autoCapitalize="characters"
+                autoCorrect="off"
+                className="flex-1 px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 font-mono"
+              />
+              <button
+                type="submit"
+                disabled={busy || !manualCode.trim()}
+                className="bg-blue-600 px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Check
+              </button>
+            </form>
+
+            {scanError && <div className="bg-red-900 text-red-200 rounded-xl p-4 text-center">{scanError}</div>}
+
+            {result && (
+              <div
+                className={`${RESULT_COLORS[result.result]} rounded-xl p-6 text-center`}
+                role="status"
+                aria-live="assertive"
+              >
+                <p className="text-4xl font-extrabold tracking-wide">{SCAN_RESULT_LABELS[result.result]}</p>
+                <p className="mt-3 font-mono text-lg">{result.ticketCode}</p>
+                {result.ticket && (
+                  <p className="mt-1">
+                    Seat {result.ticket.seatId}
+                    {result.ticket.holderName && ` · ${result.ticket.holderName}`}
+                  </p>
+                )}
+                {result.result === 'already_used' && result.ticket?.checkedInAt && (
+                  <p className="mt-1">Checked in at {new Date(result.ticket.checkedInAt).toLocaleTimeString()}</p>
+                )}
+                {result.result === 'wrong_event' && result.ticket && (
+                  <p className="mt-1">
+                    Ticket is for{' '}
+                    {events.find((event) => event._id === result.ticket?.eventId)?.title ?? 'another event'}
+                  </p>
+                )}
+                {result.offline && (
+                  <p className="mt-3 text-sm opacity-90">
+                    Checked offline{result.result === 'valid' && ', will sync when back online'}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {(scanner.pendingCount > 0 || scanner.lastSync || scanner.syncError) && (
+              <div className="bg-gray-800 rounded-xl p-4 text-sm space-y-2">
+                <div className="flex items-center justify-between">
+                  <span>{scanner.pendingCount} offline scans waiting to sync</span>
+                  {scanner.pendingCount > 0 && scanner.online && (
+                    <button
+                      onClick={() => scanner.sync()}
+                      disabled={scanner.syncing}
+                      className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                    >
+                      {scanner.syncing ? 'Syncing...' : 'Sync now'}
+                    </button>
+                  )}
+                </div>
+                {scanner.syncError && <p className="text-red-400">{scanner.syncError}</p>}
+                {scanner.lastSync && (
+                  <p className="text-gray-400">
+                    Synced {scanner.lastSync.sent} scans at {new Date(scanner.lastSync.syncedAt).toLocaleTimeString()}
+                  </p>
+                )}
+                {scanner.lastSync && scanner.lastSync.rejected.length > 0 && (
+                  <div className="text-amber-300">
+                    <p>These offline admissions were overruled by the server:</p>
+                    <ul className="list-disc list-inside font-mono">
+                      {scanner.lastSync.rejected.map((synced) => (
+                        <li key={synced.ticketCode}>
+                          {synced.ticketCode} · {SCAN_RESULT_LABELS[synced.result]}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {recent.length > 0 && (
+              <div>
+                <h2 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-2">Recent scans</h2>
+                <ul className="divide-y divide-gray-800">
+                  {recent.map((outcome) => (
+                    <li key={`${outcome.ticketCode}-${outcome.scannedAt}`} className="py-2 flex items-center text-sm">
+                      <span className={`w-3 h-3 rounded-full mr-3 ${RESULT_COLORS[outcome.result]}`} />
+                      <span className="font-mono flex-1">{outcome.ticketCode}</span>
+                      <span className="text-gray-400">
+                        {SCAN_RESULT_LABELS[outcome.result]} · {new Date(outcome.scannedAt).toLocaleTimeString()}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import type { ScanLogSummary } from '../../../lib/scan-log';
+
+const WIDTH = 640;
+const HEIGHT = 160;
+const PLOT = { top: 12, right: 8, bottom: 24, left: 36 };
+const PLOT_WIDTH = WIDTH - PLOT.left - PLOT.right;
+const PLOT_HEIGHT = HEIGHT - PLOT.top - PLOT.bottom;
+const LABEL_EVERY = 5;
+
+interface EntryRateChartProps {
+  minutes: ScanLogSummary['entriesPerMinute'];
+}
+
+/**
+ * Bar per minute of admissions, most recent minute on the right
+ */
+export function EntryRateChart({ minutes }: EntryRateChartProps) {
+  const max = Math.max(...minutes.map((minute) => minute.count), 0) || 1;
+  const slot = PLOT_WIDTH / Math.max(minutes.length, 1);
+  const baseline = PLOT.top + PLOT_HEIGHT;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Entries per minute">
+      {[0, 1].map((fraction) => {
+        const y = PLOT.top + PLOT_HEIGHT * (1 - fraction);
+        return (
+          <g key={fraction}>
+            <line x1={PLOT.left} x2={WIDTH - PLOT.right} y1={y} y2={y} stroke="#e5e7eb" />
+            <text x={PLOT.left - 6} y={y + 4} textAnchor="end" fontSize={11} fill="#6b7280">
+              {Math.round(max * fraction)}
+            </text>
+          </g>
+        );
+      })}
+
+      {minutes.map((minute, index) => {
+        const height = (minute.count / max) * PLOT_HEIGHT;
+        const x = PLOT.left + index * slot;
+        return (
+          <g key={minute.minute.getTime()}>
+            <rect x={x + 1} y={baseline - height} width={Math.max(slot - 2, 1)} height={height} rx={2} fill="#16a34a">
+              <title>
+                {minute.minute.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}: {minute.count} entries
+              </title>
+            </rect>
+            {(minutes.length - 1 - index) % LABEL_EVERY === 0 && (
+              <text x={x + slot / 2} y={HEIGHT - 6} textAnchor="middle" fontSize={11} fill="#6b7280">
+                {minute.minute.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  staffApi,
+  type StaffEvent,
+  type TicketScanHistory,
+  type TicketScanResult,
+} from '../../../services/api';
+import { useScanLog } from '../../../hooks/useScanLog';
+import { SCAN_LOG_LIMIT, summarizeScanLog, type ScanBreakdown } from '../../../lib/scan-log';
+import { SCAN_RESULT_LABELS, parseTicketCode } from '../../../lib/ticket-scan';
+import { EntryRateChart } from './entry-rate-chart';
+
+const FEED_LIMIT = 50;
+// The per-minute chart moves on even when nobody is scanning
+const CLOCK_TICK_MS = 15 * 1000;
+
+const RESULT_BADGES: Record<TicketScanResult, string> = {
+  valid: 'bg-green-100 text-green-800',
+  already_used: 'bg-red-100 text-red-800',
+  wrong_event: 'bg-amber-100 text-amber-800',
+  not_found: 'bg-gray-100 text-gray-800',
+};
+
+function BreakdownTable({ title, rows }: { title: string; rows: ScanBreakdown[] }) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No scans yet.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+              <th className="py-2"></th>
+              <th className="py-2 text-right">Admitted</th>
+              <th className="py-2 text-right">Duplicate</th>
+              <th className="py-2 text-right">Wrong event</th>
+              <th className="py-2 text-right">Not found</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td className="py-2 text-gray-900">{row.label}</td>
+                <td className="py-2 text-right">{row.admitted.toLocaleString()}</td>
+                <td className="py-2 text-right">{row.duplicates.toLocaleString()}</td>
+                <td className="py-2 text-right">{row.wrongEvent.toLocaleString()}</td>
+                <td className="py-2 text-right">{row.notFound.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function ScanLogPage() {
+  const router = useRouter();
+  const [events, setEvents] = useState<StaffEvent[]>([]);
+  const [eventId, setEventId] = useState<string | null>(null);
+  const [eventsError, setEventsError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [search, setSearch] = useState('');
+  const [history, setHistory] = useState<TicketScanHistory | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const { entries, loading, error, connected } = useScanLog(eventId);
+
+  useEffect(() => {
+    // Check authentication: scanning staff or admins
+    const token = localStorage.getItem('accessToken');
+    const userData = JSON.parse(localStorage.getItem('user') || '{}');
+    if (!token || (!localStorage.getItem('staffProfile') && userData.role !== 'admin')) {
+      router.push('/admin/login');
+      return;
+    }
+
+    staffApi
+      .listAssignedEvents()
+      .then((response) => {
+        setEvents(response.data);
+        setEventId((current) => current ?? response.data[0]?._id ?? null);
+      })
+      .catch((err: any) => {
+        console.error('❌ Failed to load events:', err);
+        setEventsError(err.response?.data?.message || 'Failed to load events');
+      });
+  }, [router]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ticketCode = parseTicketCode(search);
+    if (!ticketCode) return;
+
+    setSearching(true);
+    setSearchError(null);
+    try {
+      const response = await staffApi.getTicketScanHistory(ticketCode);
+      setHistory(response.data);
+    } catch (err: any) {
+      console.error('❌ Failed to load ticket scan history:', err);
+      setHistory(null);
+      setSearchError(err.response?.data?.message || 'Failed to look up this ticket');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const summary = summarizeScanLog(entries, now);
+  const lastMinute = summary.entriesPerMinute[summary.entriesPerMinute.length - 1]?.count ?? 0;
+  const recentRate =
+    summary.entriesPerMinute.slice(-10).reduce((sum, minute) => sum + minute.count, 0) /
+    Math.min(10, summary.entriesPerMinute.length || 1);
+  const eventTitle = (id: string) => events.find((event) => event._id === id)?.title ?? id;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex flex-wrap gap-4 justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Scan log</h1>
+            <p className="mt-1 text-gray-600">Live check-ins by gate and scanner</p>
+          </div>
+          <div className="flex items-center space-x-4">
+            <span className="flex items-center text-sm text-gray-600">
+              <span className={`w-2 h-2 rounded-full mr-2 ${connected ? 'bg-green-500' : 'bg-gray-400'}`} />
+              {connected ? 'Live' : 'Not live'}
+            </span>
+            <select
+              value={eventId ?? ''}
+              onChange={(e) => setEventId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {events.map((event) => (
+                <option key={event._id} value={event._id}>
+                  {event.title} · {new Date(event.eventDate).toLocaleDateString()}
+                </option>
+              ))}
+            </select>
+            <Link href="/staff/scan" className="text-blue-600 hover:text-blue-800 text-sm">
+              Open scanner
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {(eventsError || error) && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{eventsError || error}</div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {[
+            { label: 'Admitted', value: summary.totals.admitted, className: 'text-green-700' },
+            { label: 'Entries last minute', value: lastMinute, className: 'text-gray-900' },
+            { label: 'Avg / min (10 min)', value: recentRate, className: 'text-gray-900' },
+            { label: 'Duplicate attempts', value: summary.totals.duplicates, className: 'text-red-700' },
+            { label: 'Wrong event', value: summary.totals.wrongEvent, className: 'text-amber-700' },
+          ].map((card) => (
+            <div key={card.label} className="bg-white rounded-xl shadow-sm p-4">
+              <p className="text-sm text-gray-500">{card.label}</p>
+              <p className={`text-2xl font-bold ${card.className}`}>
+                {card.value.toLocaleString(undefined, { maximumFractionDigits: 1 })}
+              </p>
+            </div>
+          ))}
+        </div>
+        {entries.length >= SCAN_LOG_LIMIT && (
+          <p className="text-sm text-gray-500">
+            Counts cover the latest {SCAN_LOG_LIMIT.toLocaleString()} scans; older scans are not included.
+          </p>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Entries per minute</h2>
+          {loading ? (
+            <div className="animate-pulse h-40 bg-gray-100 rounded"></div>
+          ) : (
+            <EntryRateChart minutes={summary.entriesPerMinute} />
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <BreakdownTable title="By gate" rows={summary.byGate} />
+          <BreakdownTable title="By scanner" rows={summary.byScanner} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Ticket lookup</h2>
+            <form onSubmit={handleSearch} className="flex gap-2 mb-4">
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Ticket code"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+              />
+              <button
+                type="submit"
+                disabled={searching || !search.trim()}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {searching ? 'Searching...' : 'Search'}
+              </button>
+            </form>
+            {searchError && <p className="text-sm text-red-600">{searchError}</p>}
+            {history && (
+              <div className="text-sm">
+                {history.ticket ? (
+                  <p className="text-gray-700 mb-3">
+                    <span className="font-mono">{history.ticket.ticketCode}</span> · Seat {history.ticket.seatId} ·{' '}
+                    {eventTitle(history.ticket.eventId)}
+                    {history.ticket.holderName && ` · ${history.ticket.holderName}`}
+                    {history.ticket.checkedInAt &&
+                      ` · admitted ${new Date(history.ticket.checkedInAt).toLocaleString()}`}
+                  </p>
+                ) : (
+                  <p className="text-gray-700 mb-3">No ticket was issued with this code.</p>
+                )}
+                {history.scans.length === 0 ? (
+                  <p className="text-gray-500">Never scanned.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {history.scans.map((scan) => (
+                      <li key={scan._id} className="py-2 flex flex-wrap items-center gap-x-3">
+                        <span className={`px-2 text-xs font-semibold rounded-full ${RESULT_BADGES[scan.result]}`}>
+                          {SCAN_RESULT_LABELS[scan.result]}
+                        </span>
+                        <span className="text-gray-900">{new Date(scan.scannedAt).toLocaleString()}</span>
+                        <span className="text-gray-500">
+                          {eventTitle(scan.eventId)} · {scan.gate || 'No gate set'} · {scan.scannedBy.name}
+                          {scan.offline && ' · offline'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Latest scans</h2>
+            {entries.length === 0 ? (
+              <p className="text-sm text-gray-500">{loading ? 'Loading...' : 'No scans yet.'}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 text-sm max-h-96 overflow-y-auto">
+                {entries.slice(0, FEED_LIMIT).map((scan) => (
+                  <li key={scan._id} className="py-2 flex items-center gap-3">
+                    <span className={`px-2 text-xs font-semibold rounded-full ${RESULT_BADGES[scan.result]}`}>
+                      {SCAN_RESULT_LABELS[scan.result]}
+                    </span>
+                    <button
+                      onClick={() => setSearch(scan.ticketCode)}
+                      className="font-mono text-blue-600 hover:text-blue-800"
+                      title="Copy to ticket lookup"
+                    >
+                      {scan.ticketCode}
+                    </button>
+                    <span className="text-gray-500 flex-1 truncate">
+                      {scan.gate || 'No gate set'} · {scan.scannedBy.name}
+                    </span>
+                    <span className="text-gray-500">{new Date(scan.scannedAt).toLocaleTimeString()}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
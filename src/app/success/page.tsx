@@ -50,7 +50,7 @@ export default function SuccessPage() {
         {/* Action Buttons */}
         <div className="space-y-4">
           <button
-            onClick={() => router.push('/my-tickets')}
+            onClick={() => router.push(orderId ? `/orders/${orderId}` : '/orders')}
             className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors"
           >
             View My Tickets
@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useAuth } from '../../../hooks/useAuth';
+import { ticketApi, type ClaimedTicket, type TransferInvite } from '../../../services/api';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * Landing page of the link in a ticket transfer email. Signed-in recipients
+ * claim the ticket into their account; anyone else can claim it as a guest
+ * and gets the new QR code here and by email.
+ */
+export default function ClaimTransferPage() {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading: authLoading } = useAuth();
+
+  const [invite, setInvite] = useState<TransferInvite | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [guest, setGuest] = useState({ email: '', firstName: '', lastName: '' });
+  const [claiming, setClaiming] = useState(false);
+  const [claimError, setClaimError] = useState<string | null>(null);
+  const [claimed, setClaimed] = useState<ClaimedTicket | null>(null);
+
+  useEffect(() => {
+    ticketApi
+      .getTransferInvite(token)
+      .then((response) => {
+        setInvite(response.data);
+        setGuest((current) => ({ ...current, email: current.email || response.data.recipientEmail }));
+      })
+      .catch((err: any) => {
+        console.error('❌ Failed to load transfer:', err);
+        setLoadError(
+          err.response?.status === 404
+            ? 'This transfer link is not valid.'
+            : err.response?.data?.message || 'Failed to load this transfer'
+        );
+      });
+  }, [token]);
+
+  const claim = async (asGuest: boolean) => {
+    setClaiming(true);
+    setClaimError(null);
+    try {
+      const response = await ticketApi.claimTransfer(
+        token,
+        asGuest
+          ? { email: guest.email.trim(), firstName: guest.firstName.trim(), lastName: guest.lastName.trim() }
+          : undefined
+      );
+      setClaimed(response.data);
+    } catch (err: any) {
+      console.error('❌ Failed to claim transfer:', err);
+      setClaimError(err.response?.data?.message || 'Failed to claim this ticket');
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-600">{loadError}</p>
+          <Link href="/events" className="mt-4 inline-block text-blue-600 hover:text-blue-800">
+            Browse events
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!invite || authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const guestComplete = !!guest.email.trim() && !!guest.firstName.trim() && !!guest.lastName.trim();
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-md mx-auto bg-white rounded-xl shadow-sm p-8">
+        <p className="text-sm text-gray-500">{invite.senderName} sent you a ticket</p>
+        <h1 className="mt-1 text-2xl font-bold text-gray-900">{invite.event.title}</h1>
+        <p className="mt-1 text-gray-600">
+          {new Date(invite.event.eventDate).toLocaleString()}
+          {invite.event.venueName && ` · ${invite.event.venueName}`}
+        </p>
+        <p className="mt-1 font-semibold text-gray-900">Seat {invite.seatId}</p>
+        {invite.message && <p className="mt-4 text-gray-700 italic">“{invite.message}”</p>}
+
+        <div className="mt-6 border-t border-gray-200 pt-6">
+          {claimed ? (
+            <div className="text-center">
+              <p className="text-green-700 font-semibold">The ticket is yours.</p>
+              {claimed.ticket.qrCodeUrl && (
+                <img
+                  src={claimed.ticket.qrCodeUrl}
+                  alt={`QR code for seat ${claimed.ticket.seatId}`}
+                  className="w-48 h-48 mx-auto mt-4"
+                />
+              )}
+              <p className="mt-2 font-mono text-sm text-gray-600 break-all">{claimed.ticket.ticketCode}</p>
+              {claimed.orderId ? (
+                <Link
+                  href={`/orders/${claimed.orderId}`}
+                  className="mt-4 inline-block text-blue-600 hover:text-blue-800"
+                >
+                  View it in my orders
+                </Link>
+              ) : (
+                <p className="mt-4 text-sm text-gray-500">We've also emailed it to {guest.email.trim()}.</p>
+              )}
+            </div>
+          ) : invite.status === 'claimed' ? (
+            <p className="text-gray-600">This ticket has already been claimed.</p>
+          ) : invite.status === 'cancelled' ? (
+            <p className="text-gray-600">{invite.senderName} cancelled this transfer.</p>
+          ) : user ? (
+            <>
+              {user.email.toLowerCase() !== invite.recipientEmail.toLowerCase() && (
+                <p className="mb-4 text-sm text-yellow-700">
+                  This ticket was sent to {invite.recipientEmail}; you are signed in as {user.email}.
+                </p>
+              )}
+              <button
+                onClick={() => claim(false)}
+                disabled={claiming}
+                className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {claiming ? 'Claiming...' : 'Add to my account'}
+              </button>
+            </>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                claim(true);
+              }}
+              className="space-y-3"
+            >
+              <p className="text-sm text-gray-600">
+                Have an account? <Link href="/login" className="text-blue-600 hover:text-blue-800">Sign in</Link>{' '}
+                and open this link again to keep the ticket with your orders. Or claim it as a guest:
+              </p>
+              <input
+                type="email"
+                required
+                value={guest.email}
+                onChange={(e) => setGuest({ ...guest, email: e.target.value })}
+                placeholder="Email"
+                className={inputClassName}
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  required
+                  value={guest.firstName}
+                  onChange={(e) => setGuest({ ...guest, firstName: e.target.value })}
+                  placeholder="First name"
+                  className={inputClassName}
+                />
+                <input
+                  type="text"
+                  required
+                  value={guest.lastName}
+                  onChange={(e) => setGuest({ ...guest, lastName: e.target.value })}
+                  placeholder="Last name"
+                  className={inputClassName}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={claiming || !guestComplete}
+                className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {claiming ? 'Claiming...' : 'Claim ticket'}
+              </button>
+            </form>
+          )}
+          {claimError && <p className="mt-3 text-sm text-red-600">{claimError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
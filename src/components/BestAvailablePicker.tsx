@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react';
+import type { EventPricingConfig, SeatPlanSeat } from '../services/api';
+import { findBestAvailable, naturalCompare, type SeatBlock } from '../lib/best-available';
+import { zoneKeyForSeat, zoneKeyForSection } from '../lib/pricing-zones';
+
+interface BestAvailablePickerProps {
+  seats: SeatPlanSeat[];
+  pricing: EventPricingConfig;
+  onHold: (seatIds: string[]) => Promise<void>;
+  disabled?: boolean;
+  maxQuantity?: number;
+}
+
+const formatCurrency = (value: number, currency = 'USD') =>
+  value.toLocaleString('en-US', { style: 'currency', currency });
+
+// Currency of the zone the block starts in; an event's zones share one currency
+const blockCurrency = (pricing: EventPricingConfig, block: SeatBlock) => {
+  const zoneKey = zoneKeyForSeat(pricing, block.seats[0]);
+  return zoneKey ? pricing.pricingZones[zoneKey].currency : undefined;
+};
+
+// Zones are keyed independently of sections, so name the section and the zone it is priced in
+const sectionLabel = (pricing: EventPricingConfig, sectionCode: string) => {
+  const zoneKey = zoneKeyForSection(pricing, sectionCode);
+  return zoneKey ? `${sectionCode} · ${pricing.pricingZones[zoneKey].name}` : sectionCode;
+};
+
+/**
+ * "Give me N seats together" control offering the top few contiguous blocks
+ */
+export function BestAvailablePicker({
+  seats,
+  pricing,
+  onHold,
+  disabled = false,
+  maxQuantity = 10,
+}: BestAvailablePickerProps) {
+  const [quantity, setQuantity] = useState(2);
+  const [section, setSection] = useState('');
+  const [options, setOptions] = useState<SeatBlock[] | null>(null);
+  const [holding, setHolding] = useState<string | null>(null);
+
+  const sections = useMemo(
+    () => Array.from(new Set(seats.map((seat) => seat.section))).sort(naturalCompare),
+    [seats]
+  );
+
+  const handleSearch = () => {
+    setOptions(
+      findBestAvailable(seats, {
+        quantity,
+        section: section || undefined,
+        pricing,
+      })
+    );
+  };
+
+  const handleHold = async (block: SeatBlock) => {
+    const key = block.seats.map((seat) => seat.id).join(',');
+    setHolding(key);
+    try {
+      await onHold(block.seats.map((seat) => seat.id));
+      setOptions(null);
+    } finally {
+      setHolding(null);
+    }
+  };
+
+  return (
+    <div className="summary-card" style={{ marginBottom: '1rem' }}>
+      <p className="eyebrow" style={{ marginBottom: '0.5rem' }}>
+        Best available
+      </p>
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+        <select
+          className="summary-input"
+          value={quantity}
+          onChange={(e) => {
+            setQuantity(Number(e.target.value));
+            setOptions(null);
+          }}
+          aria-label="Number of seats"
+        >
+          {Array.from({ length: maxQuantity }, (_, i) => i + 1).map((n) => (
+            <option key={n} value={n}>
+              {n} {n === 1 ? 'seat' : 'seats'}
+            </option>
+          ))}
+        </select>
+        <select
+          className="summary-input"
+          value={section}
+          onChange={(e) => {
+            setSection(e.target.value);
+            setOptions(null);
+          }}
+          aria-label="Section"
+        >
+          <option value="">Any section</option>
+          {sections.map((code) => (
+            <option key={code} value={code}>
+              {sectionLabel(pricing, code)}
+            </option>
+          ))}
+        </select>
+        <button className="primary" type="button" disabled={disabled} onClick={handleSearch}>
+          Find seats together
+        </button>
+      </div>
+
+      {options && options.length === 0 && (
+        <p className="muted small" style={{ marginTop: '0.75rem' }}>
+          No {quantity} adjacent seats are available{section ? ' in this section' : ''}. Try fewer seats or another
+          section.
+        </p>
+      )}
+
+      {options && options.length > 0 && (
+        <div style={{ display: 'grid', gap: '0.5rem', marginTop: '0.75rem' }}>
+          {options.map((block, index) => {
+            const key = block.seats.map((seat) => seat.id).join(',');
+            const first = block.seats[0];
+            const last = block.seats[block.seats.length - 1];
+            return (
+              <div key={key} className="summary-row" style={{ alignItems: 'center' }}>
+                <span>
+                  {index === 0 ? '★ ' : ''}
+                  {sectionLabel(pricing, block.section)} · Row {block.row} · Seats {first.seat}
+                  {block.seats.length > 1 ? `–${last.seat}` : ''}
+                  <span className="muted small"> ({formatCurrency(block.totalPrice, blockCurrency(pricing, block))})</span>
+                </span>
+                <button
+                  className="ghost"
+                  type="button"
+                  disabled={disabled || holding !== null}
+                  onClick={() => handleHold(block)}
+                >
+                  {holding === key ? 'Holding...' : 'Hold these'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+export type HoldNotice =
+  | { kind: 'expiring' }
+  | { kind: 'recovering' }
+  | { kind: 'checking_payment' }
+  | { kind: 'recovered'; duringPayment: boolean }
+  | { kind: 'lost'; seatIds: string[]; duringPayment: boolean };
+
+interface HoldExpiryModalProps {
+  notice: HoldNotice;
+  timeRemaining?: string;
+  extending?: boolean;
+  onExtend: () => void;
+  onDismiss: () => void;
+}
+
+const copy = (notice: HoldNotice, timeRemaining: string) => {
+  switch (notice.kind) {
+    case 'expiring':
+      return {
+        icon: '⏰',
+        title: 'Your seats are about to be released',
+        body: `Your hold expires in ${timeRemaining}. Extend it to keep your seats while you finish checking out.`,
+      };
+    case 'recovering':
+      return {
+        icon: '⏳',
+        title: 'Your hold expired',
+        body: 'Trying to hold the same seats for you again...',
+      };
+    case 'checking_payment':
+      return {
+        icon: '⏳',
+        title: 'Checking your payment',
+        body: 'Your hold ran out while your payment was being processed. We are checking it now and will complete your order if it went through.',
+      };
+    case 'recovered':
+      return {
+        icon: '✅',
+        title: 'Seats held again',
+        body: notice.duringPayment
+          ? 'Your previous hold ran out before payment was completed, but we were able to hold the same seats again. Continue to payment to try again.'
+          : 'Your previous hold ran out, but we were able to hold the same seats again. The timer has restarted.',
+      };
+    case 'lost':
+      return {
+        icon: '⚠️',
+        title: 'Your seats were released',
+        body: notice.duringPayment
+          ? `Your hold expired before payment was completed and ${notice.seatIds.length} seat(s) could not be held again. Please pick seats again.`
+          : `Your hold expired and ${notice.seatIds.length} seat(s) could not be held again. Please pick seats again.`,
+      };
+  }
+};
+
+/**
+ * Warns before a seat hold runs out and reports what happened once it did
+ */
+export function HoldExpiryModal({
+  notice,
+  timeRemaining = 'a moment',
+  extending = false,
+  onExtend,
+  onDismiss,
+}: HoldExpiryModalProps) {
+  const { icon, title, body } = copy(notice, timeRemaining);
+
+  return (
+    <div
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="hold-expiry-title"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,0.8)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        // Above the payment modal so a running checkout still sees the warning
+        zIndex: 1100,
+        padding: '1rem',
+      }}
+    >
+      <div
+        style={{
+          background: '#0d1118',
+          border: '1px solid rgba(255,255,255,0.08)',
+          borderRadius: '14px',
+          padding: '1.25rem',
+          width: 'min(420px, 100%)',
+          color: '#e8ecf3',
+          textAlign: 'center',
+        }}
+      >
+        <div style={{ fontSize: '40px', marginBottom: '0.5rem' }}>{icon}</div>
+        <h3 id="hold-expiry-title" style={{ marginTop: 0, marginBottom: '0.75rem', color: '#f6f8fc' }}>
+          {title}
+        </h3>
+        <p className="muted" style={{ marginBottom: '1rem' }}>
+          {body}
+        </p>
+        {notice.kind === 'expiring' && (
+          <button className="primary full" type="button" disabled={extending} onClick={onExtend}>
+            {extending ? 'Extending...' : 'Extend hold'}
+          </button>
+        )}
+        {notice.kind !== 'recovering' && (
+          <button className="ghost" type="button" style={{ marginTop: '0.5rem', width: '100%' }} onClick={onDismiss}>
+            {notice.kind === 'expiring' ? 'Not now' : 'OK'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
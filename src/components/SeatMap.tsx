@@ -0,0 +1,280 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent, PointerEvent } from 'react';
+import type { SeatPlanSeat } from '../services/api';
+import {
+  IDENTITY_VIEW,
+  estimateSeatRadius,
+  fitBounds,
+  getBounds,
+  padBounds,
+  parseViewBox,
+  zoomAt,
+  type Bounds,
+  type Point,
+  type ViewTransform,
+} from '../lib/seat-map-geometry';
+
+interface SeatMapProps {
+  seats: SeatPlanSeat[];
+  seatMapSvg?: string;
+  selected: Set<string>;
+  onSeatClick: (seat: SeatPlanSeat) => void;
+  disabled?: boolean;
+  // Optional per-seat fill override (e.g. pricing zone colors); status colors apply otherwise
+  seatColor?: (seat: SeatPlanSeat) => string | undefined;
+  height?: number;
+}
+
+const SEAT_STATUS_COLORS: Record<SeatPlanSeat['status'] | 'selected', string> = {
+  available: '#22c55e',
+  held: '#f59e0b',
+  sold: '#4b5563',
+  selected: '#3b82f6',
+};
+
+// Pointer travel (in screen px) before a press turns into a pan instead of a click
+const DRAG_THRESHOLD = 4;
+const WHEEL_ZOOM_STEP = 1.15;
+
+type PlacedSeat = SeatPlanSeat & { coordinates: Point };
+
+const parseVenueSvg = (svg: string | undefined): { viewBox: Bounds | null; markup: string } => {
+  if (!svg || typeof DOMParser === 'undefined') return { viewBox: null, markup: '' };
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (root.nodeName.toLowerCase() !== 'svg') return { viewBox: null, markup: '' };
+
+  const viewBox =
+    parseViewBox(root.getAttribute('viewBox')) ??
+    (root.getAttribute('width') && root.getAttribute('height')
+      ? { minX: 0, minY: 0, maxX: Number.parseFloat(root.getAttribute('width')!), maxY: Number.parseFloat(root.getAttribute('height')!) }
+      : null);
+
+  return { viewBox, markup: root.innerHTML };
+};
+
+/**
+ * Venue SVG with live seat markers overlaid at their plan coordinates.
+ * Supports wheel and pinch zoom, drag to pan, zoom-to-section and seat selection.
+ */
+export function SeatMap({
+  seats,
+  seatMapSvg,
+  selected,
+  onSeatClick,
+  disabled = false,
+  seatColor,
+  height = 480,
+}: SeatMapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW);
+  const pointersRef = useRef(new Map<number, { screen: Point; svg: Point }>());
+  const pressOriginRef = useRef<Point | null>(null);
+  const draggedRef = useRef(false);
+
+  const placedSeats = useMemo(
+    () => seats.filter((seat): seat is PlacedSeat => !!seat.coordinates),
+    [seats]
+  );
+  const venue = useMemo(() => parseVenueSvg(seatMapSvg), [seatMapSvg]);
+  const seatRadius = useMemo(
+    () => estimateSeatRadius(placedSeats.map((seat) => seat.coordinates)),
+    [placedSeats]
+  );
+
+  const viewport = useMemo<Bounds>(() => {
+    if (venue.viewBox) return venue.viewBox;
+    const seatBounds = getBounds(placedSeats.map((seat) => seat.coordinates));
+    return seatBounds ? padBounds(seatBounds, seatRadius * 4) : { minX: 0, minY: 0, maxX: 100, maxY: 100 };
+  }, [venue.viewBox, placedSeats, seatRadius]);
+
+  const sections = useMemo(() => {
+    const bySection = new Map<string, Point[]>();
+    placedSeats.forEach((seat) => {
+      const points = bySection.get(seat.section) ?? [];
+      points.push(seat.coordinates);
+      bySection.set(seat.section, points);
+    });
+    return Array.from(bySection.entries()).map(([section, points]) => ({
+      section,
+      bounds: getBounds(points)!,
+    }));
+  }, [placedSeats]);
+
+  // Screen coordinates -> untransformed SVG user units
+  const toSvgPoint = useCallback((clientX: number, clientY: number): Point => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return { x: clientX, y: clientY };
+    const point = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+    return { x: point.x, y: point.y };
+  }, []);
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const anchor = toSvgPoint(e.clientX, e.clientY);
+      const factor = e.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP;
+      setView((prev) => zoomAt(prev, factor, anchor));
+    };
+
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, [toSvgPoint]);
+
+  const handlePointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    pointersRef.current.set(e.pointerId, {
+      screen: { x: e.clientX, y: e.clientY },
+      svg: toSvgPoint(e.clientX, e.clientY),
+    });
+    if (pointersRef.current.size === 1) {
+      pressOriginRef.current = { x: e.clientX, y: e.clientY };
+      draggedRef.current = false;
+    }
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+
+    const current = { screen: { x: e.clientX, y: e.clientY }, svg: toSvgPoint(e.clientX, e.clientY) };
+
+    if (!draggedRef.current) {
+      const origin = pressOriginRef.current ?? previous.screen;
+      if (pointers.size < 2 && Math.hypot(e.clientX - origin.x, e.clientY - origin.y) < DRAG_THRESHOLD) return;
+      draggedRef.current = true;
+      // Capture only once dragging starts, otherwise the seat would never receive its click
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+
+    if (pointers.size >= 2) {
+      // Pinch: scale by the change in distance between the first two pointers
+      const [first, second] = Array.from(pointers.entries());
+      const other = first[0] === e.pointerId ? second[1] : first[1];
+      const before = Math.hypot(previous.screen.x - other.screen.x, previous.screen.y - other.screen.y);
+      const after = Math.hypot(current.screen.x - other.screen.x, current.screen.y - other.screen.y);
+      if (before > 0) {
+        const midpoint = { x: (current.svg.x + other.svg.x) / 2, y: (current.svg.y + other.svg.y) / 2 };
+        setView((prev) => zoomAt(prev, after / before, midpoint));
+      }
+    } else {
+      const dx = current.svg.x - previous.svg.x;
+      const dy = current.svg.y - previous.svg.y;
+      setView((prev) => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+    }
+
+    pointers.set(e.pointerId, current);
+  };
+
+  const handlePointerUp = (e: PointerEvent<SVGSVGElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  const selectSeat = (seat: SeatPlanSeat) => {
+    if (draggedRef.current || disabled) return;
+    if (seat.status !== 'available' && !selected.has(seat.id)) return;
+    onSeatClick(seat);
+  };
+
+  const handleSeatKeyDown = (e: KeyboardEvent<SVGCircleElement>, seat: SeatPlanSeat) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      draggedRef.current = false;
+      selectSeat(seat);
+    }
+  };
+
+  const zoomBy = (factor: number) => {
+    const center = { x: (viewport.minX + viewport.maxX) / 2, y: (viewport.minY + viewport.maxY) / 2 };
+    setView((prev) => zoomAt(prev, factor, center));
+  };
+
+  const zoomToSection = (bounds: Bounds) => {
+    setView(fitBounds(padBounds(bounds, seatRadius * 3), viewport));
+  };
+
+  const fillFor = (seat: SeatPlanSeat) => {
+    if (selected.has(seat.id)) return SEAT_STATUS_COLORS.selected;
+    if (seat.status !== 'available') return SEAT_STATUS_COLORS[seat.status];
+    return seatColor?.(seat) ?? SEAT_STATUS_COLORS.available;
+  };
+
+  const viewBox = `${viewport.minX} ${viewport.minY} ${viewport.maxX - viewport.minX} ${viewport.maxY - viewport.minY}`;
+
+  return (
+    <div className="seat-map">
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.75rem' }}>
+        <button type="button" className="ghost" onClick={() => zoomBy(WHEEL_ZOOM_STEP)} aria-label="Zoom in">
+          +
+        </button>
+        <button type="button" className="ghost" onClick={() => zoomBy(1 / WHEEL_ZOOM_STEP)} aria-label="Zoom out">
+          −
+        </button>
+        <button type="button" className="ghost" onClick={() => setView(IDENTITY_VIEW)}>
+          Reset
+        </button>
+        {sections.map(({ section, bounds }) => (
+          <button key={section} type="button" className="ghost" onClick={() => zoomToSection(bounds)}>
+            {section}
+          </button>
+        ))}
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={viewBox}
+        role="application"
+        aria-label="Seat map"
+        style={{
+          width: '100%',
+          height,
+          touchAction: 'none',
+          cursor: 'grab',
+          background: 'rgba(255,255,255,0.03)',
+          borderRadius: '12px',
+          border: '1px solid rgba(255,255,255,0.08)',
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+          {venue.markup && <g dangerouslySetInnerHTML={{ __html: venue.markup }} style={{ pointerEvents: 'none' }} />}
+          {placedSeats.map((seat) => {
+            const isSelected = selected.has(seat.id);
+            const clickable = !disabled && (seat.status === 'available' || isSelected);
+            return (
+              <circle
+                key={seat.id}
+                cx={seat.coordinates.x}
+                cy={seat.coordinates.y}
+                r={seatRadius}
+                fill={fillFor(seat)}
+                stroke={isSelected ? '#bfdbfe' : 'rgba(0,0,0,0.35)'}
+                strokeWidth={seatRadius * (isSelected ? 0.35 : 0.15)}
+                role="button"
+                tabIndex={clickable ? 0 : -1}
+                aria-pressed={isSelected}
+                aria-disabled={!clickable}
+                aria-label={`Section ${seat.section}, row ${seat.row}, seat ${seat.seat}, ${isSelected ? 'selected' : seat.status}`}
+                style={{ cursor: clickable ? 'pointer' : 'not-allowed' }}
+                onClick={() => selectSeat(seat)}
+                onKeyDown={(e) => handleSeatKeyDown(e, seat)}
+              >
+                <title>{`${seat.section} · Row ${seat.row} · Seat ${seat.seat} (${seat.status})`}</title>
+              </circle>
+            );
+          })}
+        </g>
+      </svg>
+    </div>
+  );
+}
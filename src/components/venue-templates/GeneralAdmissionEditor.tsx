@@ -0,0 +1,57 @@
+import type { GeneralAdmissionArea } from '../../services/api';
+import { newGeneralAdmissionArea, type TemplateConfigOf } from '../../lib/venue-templates';
+import { TemplateField } from './TemplateField';
+
+interface GeneralAdmissionEditorProps {
+  config: TemplateConfigOf<'general_admission'>;
+  onChange: (config: TemplateConfigOf<'general_admission'>) => void;
+}
+
+/**
+ * Standing areas sold by capacity; position and size only affect how the map is drawn
+ */
+export function GeneralAdmissionEditor({ config, onChange }: GeneralAdmissionEditorProps) {
+  const updateArea = (index: number, patch: Partial<GeneralAdmissionArea>) =>
+    onChange({ ...config, areas: config.areas.map((area, i) => (i === index ? { ...area, ...patch } : area)) });
+
+  return (
+    <div className="sections">
+      <div className="sections-head">
+        <p>Standing areas</p>
+        <button
+          type="button"
+          onClick={() => onChange({ ...config, areas: [...config.areas, newGeneralAdmissionArea(config.areas.length)] })}
+        >
+          + Add Area
+        </button>
+      </div>
+      {config.areas.map((area, idx) => (
+        <div key={idx} className="section-card">
+          <div className="section-row">
+            <TemplateField
+              type="text"
+              label="Code"
+              value={area.sectionCode}
+              onChange={(value) => updateArea(idx, { sectionCode: value })}
+            />
+            <TemplateField type="text" label="Name" value={area.name} onChange={(value) => updateArea(idx, { name: value })} />
+            <TemplateField label="Capacity" value={area.capacity} onChange={(value) => updateArea(idx, { capacity: Number(value) })} />
+            <button
+              type="button"
+              className="ghost"
+              onClick={() => onChange({ ...config, areas: config.areas.filter((_, i) => i !== idx) })}
+            >
+              Remove
+            </button>
+          </div>
+          <div className="section-row">
+            <TemplateField label="X" value={area.x} onChange={(value) => updateArea(idx, { x: Number(value) })} />
+            <TemplateField label="Y" value={area.y} onChange={(value) => updateArea(idx, { y: Number(value) })} />
+            <TemplateField label="Width" value={area.width} onChange={(value) => updateArea(idx, { width: Number(value) })} />
+            <TemplateField label="Height" value={area.height} onChange={(value) => updateArea(idx, { height: Number(value) })} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useCallback, useRef, useState, type KeyboardEvent, type PointerEvent } from 'react';
+import type { TheaterSection } from '../../services/api';
+import { getBounds, padBounds, type Point } from '../../lib/seat-map-geometry';
+import {
+  GRID_SIZE,
+  ROTATION_STEP,
+  SEAT_SIZE,
+  angleFrom,
+  findOverlappingSections,
+  normalizeAngle,
+  resizeSection,
+  rotatePoint,
+  sectionCorners,
+  sectionFrame,
+  sectionSeatPositions,
+  snapToGrid,
+} from '../../lib/venue-layout';
+
+interface SectionLayoutCanvasProps {
+  sections: TheaterSection[];
+  // Called on every pointer move while dragging, without recording an undo step
+  onPreview: (sections: TheaterSection[]) => void;
+  // Called once per finished gesture
+  onChange: (sections: TheaterSection[]) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+type DragMode = 'move' | 'resize' | 'rotate';
+
+interface Drag {
+  mode: DragMode;
+  index: number;
+  origin: Point;
+  section: TheaterSection;
+  moved: boolean;
+}
+
+const MIN_CANVAS = { minX: 0, minY: 0, maxX: 1000, maxY: 700 };
+const HANDLE_SIZE = 12;
+const ROTATE_HANDLE_OFFSET = 30;
+
+const toViewBox = (sections: TheaterSection[]) => {
+  const content = getBounds(sections.flatMap(sectionCorners));
+  const bounds = content
+    ? padBounds(
+        {
+          minX: Math.min(MIN_CANVAS.minX, content.minX),
+          minY: Math.min(MIN_CANVAS.minY, content.minY),
+          maxX: Math.max(MIN_CANVAS.maxX, content.maxX),
+          maxY: Math.max(MIN_CANVAS.maxY, content.maxY),
+        },
+        GRID_SIZE * 4
+      )
+    : MIN_CANVAS;
+  return `${bounds.minX} ${bounds.minY} ${bounds.maxX - bounds.minX} ${bounds.maxY - bounds.minY}`;
+};
+
+/**
+ * Drag sections into place, resize them by their corner to change rows and
+ * seats, and rotate them by the handle above. Positions snap to the grid and
+ * overlapping sections are outlined in red.
+ */
+export function SectionLayoutCanvas({
+  sections,
+  onPreview,
+  onChange,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+}: SectionLayoutCanvasProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  // The canvas grows to fit its sections, but holds still mid-drag so the section doesn't slide away from the pointer
+  const [frozenViewBox, setFrozenViewBox] = useState<string | null>(null);
+
+  const overlapping = new Set(findOverlappingSections(sections).flat());
+  const viewBox = frozenViewBox ?? toViewBox(sections);
+
+  // Screen coordinates -> SVG user units
+  const toSvgPoint = useCallback((clientX: number, clientY: number): Point => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return { x: clientX, y: clientY };
+    const point = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+    return { x: point.x, y: point.y };
+  }, []);
+
+  const startDrag = (e: PointerEvent<SVGElement>, index: number, mode: DragMode) => {
+    e.stopPropagation();
+    setSelected(index);
+    setFrozenViewBox(viewBox);
+    svgRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      mode,
+      index,
+      origin: toSvgPoint(e.clientX, e.clientY),
+      section: sections[index],
+      moved: false,
+    };
+  };
+
+  const dragTo = (drag: Drag, point: Point): TheaterSection => {
+    const { section } = drag;
+    const frame = sectionFrame(section);
+    const center = { x: frame.x + frame.width / 2, y: frame.y + frame.height / 2 };
+
+    switch (drag.mode) {
+      case 'move':
+        return {
+          ...section,
+          startX: snapToGrid(section.startX + point.x - drag.origin.x),
+          startY: snapToGrid(section.startY + point.y - drag.origin.y),
+        };
+      case 'resize': {
+        // Measure in the section's own unrotated axes
+        const local = rotatePoint(point, center, -frame.rotation);
+        return resizeSection(section, local.x - frame.x, local.y - frame.y);
+      }
+      case 'rotate':
+        return {
+          ...section,
+          rotation: normalizeAngle(Math.round(angleFrom(center, point) / ROTATION_STEP) * ROTATION_STEP),
+        };
+    }
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const next = dragTo(drag, toSvgPoint(e.clientX, e.clientY));
+    const current = sections[drag.index];
+    if (
+      next.startX === current.startX &&
+      next.startY === current.startY &&
+      next.rows === current.rows &&
+      next.seatsPerRow === current.seatsPerRow &&
+      next.rotation === current.rotation
+    )
+      return;
+    drag.moved = true;
+    onPreview(sections.map((section, i) => (i === drag.index ? next : section)));
+  };
+
+  const handlePointerUp = (e: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setFrozenViewBox(null);
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    if (drag?.moved) onChange(sections);
+  };
+
+  const nudge = (index: number, dx: number, dy: number) =>
+    onChange(
+      sections.map((section, i) =>
+        i === index ? { ...section, startX: section.startX + dx, startY: section.startY + dy } : section
+      )
+    );
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const modifier = e.metaKey || e.ctrlKey;
+    if (modifier && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) onRedo();
+      else onUndo();
+      return;
+    }
+    if (modifier && e.key.toLowerCase() === 'y') {
+      e.preventDefault();
+      onRedo();
+      return;
+    }
+
+    if (selected === null || !sections[selected]) return;
+    const arrows: Record<string, [number, number]> = {
+      ArrowLeft: [-GRID_SIZE, 0],
+      ArrowRight: [GRID_SIZE, 0],
+      ArrowUp: [0, -GRID_SIZE],
+      ArrowDown: [0, GRID_SIZE],
+    };
+    if (arrows[e.key]) {
+      e.preventDefault();
+      nudge(selected, ...arrows[e.key]);
+    }
+  };
+
+  return (
+    <div className="layout-canvas" tabIndex={0} onKeyDown={handleKeyDown}>
+      <div className="sections-head">
+        <p>Layout</p>
+        <div className="admin-actions">
+          <button type="button" className="ghost" onClick={onUndo} disabled={!canUndo}>
+            Undo
+          </button>
+          <button type="button" className="ghost" onClick={onRedo} disabled={!canRedo}>
+            Redo
+          </button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={viewBox}
+        width="100%"
+        style={{ touchAction: 'none', background: '#fff', border: '1px solid #e5e7eb' }}
+        onPointerDown={() => setSelected(null)}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <defs>
+          <pattern id="layout-grid" width={GRID_SIZE} height={GRID_SIZE} patternUnits="userSpaceOnUse">
+            <path d={`M ${GRID_SIZE} 0 L 0 0 0 ${GRID_SIZE}`} fill="none" stroke="#f3f4f6" strokeWidth={1} />
+          </pattern>
+        </defs>
+        <rect x={-10000} y={-10000} width={20000} height={20000} fill="url(#layout-grid)" />
+        <text x={MIN_CANVAS.maxX / 2} y={30} textAnchor="middle" fontSize={14} fill="#9ca3af">
+          STAGE
+        </text>
+
+        {sections.map((section, index) => {
+          const corners = sectionCorners(section);
+          const frame = sectionFrame(section);
+          const center = { x: frame.x + frame.width / 2, y: frame.y + frame.height / 2 };
+          const isSelected = selected === index;
+          const resizeHandle = corners[2];
+          const rotateHandle = rotatePoint(
+            { x: center.x, y: frame.y - ROTATE_HANDLE_OFFSET },
+            center,
+            frame.rotation
+          );
+
+          return (
+            <g key={index}>
+              <polygon
+                points={corners.map((p) => `${p.x},${p.y}`).join(' ')}
+                fill={overlapping.has(index) ? 'rgba(239, 68, 68, 0.12)' : 'rgba(59, 130, 246, 0.08)'}
+                stroke={overlapping.has(index) ? '#ef4444' : isSelected ? '#2563eb' : '#93c5fd'}
+                strokeWidth={isSelected ? 2 : 1}
+                style={{ cursor: 'move' }}
+                onPointerDown={(e) => startDrag(e, index, 'move')}
+              />
+              {sectionSeatPositions(section).map((seat, seatIndex) => (
+                <circle
+                  key={seatIndex}
+                  cx={seat.x}
+                  cy={seat.y}
+                  r={SEAT_SIZE / 2}
+                  fill="#60a5fa"
+                  pointerEvents="none"
+                />
+              ))}
+              <text
+                x={center.x}
+                y={center.y}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fontSize={14}
+                fontWeight={600}
+                fill="#1e3a8a"
+                pointerEvents="none"
+              >
+                {section.sectionCode}
+              </text>
+
+              {isSelected && (
+                <>
+                  <line
+                    x1={(corners[0].x + corners[1].x) / 2}
+                    y1={(corners[0].y + corners[1].y) / 2}
+                    x2={rotateHandle.x}
+                    y2={rotateHandle.y}
+                    stroke="#2563eb"
+                    pointerEvents="none"
+                  />
+                  <circle
+                    cx={rotateHandle.x}
+                    cy={rotateHandle.y}
+                    r={HANDLE_SIZE / 2}
+                    fill="#fff"
+                    stroke="#2563eb"
+                    strokeWidth={2}
+                    style={{ cursor: 'grab' }}
+                    onPointerDown={(e) => startDrag(e, index, 'rotate')}
+                  />
+                  <rect
+                    x={resizeHandle.x - HANDLE_SIZE / 2}
+                    y={resizeHandle.y - HANDLE_SIZE / 2}
+                    width={HANDLE_SIZE}
+                    height={HANDLE_SIZE}
+                    fill="#fff"
+                    stroke="#2563eb"
+                    strokeWidth={2}
+                    style={{ cursor: 'nwse-resize' }}
+                    onPointerDown={(e) => startDrag(e, index, 'resize')}
+                  />
+                </>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      <p className="hint">
+        {selected !== null && sections[selected]
+          ? `${sections[selected].name}: ${sections[selected].rows} rows × ${sections[selected].seatsPerRow} seats, ${
+              sections[selected].rotation ?? 0
+            }°. Arrow keys nudge; Ctrl+Z / Ctrl+Shift+Z undo and redo.`
+          : 'Drag a section to move it. Select it to resize from the corner or rotate from the top handle.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import type { StadiumSection, StadiumTier } from '../../services/api';
+import {
+  estimateStadiumSectionSeats,
+  newStadiumSection,
+  newStadiumTier,
+  type TemplateConfigOf,
+} from '../../lib/venue-templates';
+import { TemplateField } from './TemplateField';
+
+interface StadiumLayoutEditorProps {
+  config: TemplateConfigOf<'stadium'>;
+  onChange: (config: TemplateConfigOf<'stadium'>) => void;
+}
+
+/**
+ * Field size, concentric seating tiers, and arced sections placed on those tiers
+ */
+export function StadiumLayoutEditor({ config, onChange }: StadiumLayoutEditorProps) {
+  const updateTier = (index: number, patch: Partial<StadiumTier>) => {
+    const previousCode = config.tiers[index].tierCode;
+    onChange({
+      ...config,
+      tiers: config.tiers.map((tier, i) => (i === index ? { ...tier, ...patch } : tier)),
+      // Renaming a tier code carries its sections along
+      sections:
+        patch.tierCode === undefined
+          ? config.sections
+          : config.sections.map((section) =>
+              section.tierCode === previousCode ? { ...section, tierCode: patch.tierCode! } : section
+            ),
+    });
+  };
+
+  const removeTier = (index: number) => {
+    const tierCode = config.tiers[index].tierCode;
+    onChange({
+      ...config,
+      tiers: config.tiers.filter((_, i) => i !== index),
+      sections: config.sections.filter((section) => section.tierCode !== tierCode),
+    });
+  };
+
+  const updateSection = (index: number, patch: Partial<StadiumSection>) =>
+    onChange({
+      ...config,
+      sections: config.sections.map((section, i) => (i === index ? { ...section, ...patch } : section)),
+    });
+
+  return (
+    <>
+      <div className="sections">
+        <div className="sections-head">
+          <p>Field</p>
+        </div>
+        <div className="section-row">
+          <TemplateField
+            label="Width"
+            value={config.field.width}
+            onChange={(value) => onChange({ ...config, field: { ...config.field, width: Number(value) } })}
+          />
+          <TemplateField
+            label="Height"
+            value={config.field.height}
+            onChange={(value) => onChange({ ...config, field: { ...config.field, height: Number(value) } })}
+          />
+        </div>
+      </div>
+
+      <div className="sections">
+        <div className="sections-head">
+          <p>Tiers</p>
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...config,
+                tiers: [...config.tiers, newStadiumTier(config.tiers.length, config.tiers[config.tiers.length - 1])],
+              })
+            }
+          >
+            + Add Tier
+          </button>
+        </div>
+        {config.tiers.map((tier, idx) => (
+          <div key={idx} className="section-card">
+            <div className="section-row">
+              <TemplateField type="text" label="Code" value={tier.tierCode} onChange={(value) => updateTier(idx, { tierCode: value })} />
+              <TemplateField type="text" label="Name" value={tier.name} onChange={(value) => updateTier(idx, { name: value })} />
+              <button type="button" className="ghost" onClick={() => removeTier(idx)}>
+                Remove
+              </button>
+            </div>
+            <div className="section-row">
+              <TemplateField
+                label="Inner radius"
+                value={tier.innerRadius}
+                onChange={(value) => updateTier(idx, { innerRadius: Number(value) })}
+              />
+              <TemplateField label="Rows" value={tier.rows} onChange={(value) => updateTier(idx, { rows: Number(value) })} />
+              <TemplateField
+                label="Row spacing"
+                value={tier.rowSpacing}
+                onChange={(value) => updateTier(idx, { rowSpacing: Number(value) })}
+              />
+              <TemplateField
+                label="Seat spacing"
+                value={tier.seatSpacing}
+                onChange={(value) => updateTier(idx, { seatSpacing: Number(value) })}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="sections">
+        <div className="sections-head">
+          <p>Sections</p>
+          <button
+            type="button"
+            disabled={config.tiers.length === 0}
+            onClick={() =>
+              onChange({
+                ...config,
+                sections: [...config.sections, newStadiumSection(config.sections.length, config.tiers[0].tierCode)],
+              })
+            }
+          >
+            + Add Section
+          </button>
+        </div>
+        {config.sections.map((section, idx) => (
+          <div key={idx} className="section-card">
+            <div className="section-row">
+              <TemplateField
+                type="text"
+                label="Code"
+                value={section.sectionCode}
+                onChange={(value) => updateSection(idx, { sectionCode: value })}
+              />
+              <TemplateField type="text" label="Name" value={section.name} onChange={(value) => updateSection(idx, { name: value })} />
+              <label className="field small">
+                <span>Tier</span>
+                <select value={section.tierCode} onChange={(e) => updateSection(idx, { tierCode: e.target.value })}>
+                  {config.tiers.map((tier) => (
+                    <option key={tier.tierCode} value={tier.tierCode}>
+                      {tier.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                className="ghost"
+                onClick={() => onChange({ ...config, sections: config.sections.filter((_, i) => i !== idx) })}
+              >
+                Remove
+              </button>
+            </div>
+            <div className="section-row">
+              <TemplateField
+                label="Start angle (°)"
+                value={section.startAngle}
+                onChange={(value) => updateSection(idx, { startAngle: Number(value) })}
+              />
+              <TemplateField
+                label="End angle (°)"
+                value={section.endAngle}
+                onChange={(value) => updateSection(idx, { endAngle: Number(value) })}
+              />
+              <p className="hint">
+                ~
+                {estimateStadiumSectionSeats(
+                  section,
+                  config.tiers.find((tier) => tier.tierCode === section.tierCode)
+                ).toLocaleString()}{' '}
+                seats
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
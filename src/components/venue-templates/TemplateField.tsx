@@ -0,0 +1,18 @@
+interface TemplateFieldProps {
+  label: string;
+  value: string | number;
+  onChange: (value: string) => void;
+  type?: 'text' | 'number';
+}
+
+/**
+ * Labelled input used by every template editor
+ */
+export function TemplateField({ label, value, onChange, type = 'number' }: TemplateFieldProps) {
+  return (
+    <label className="field small">
+      <span>{label}</span>
+      <input type={type} value={value} onChange={(e) => onChange(e.target.value)} />
+    </label>
+  );
+}
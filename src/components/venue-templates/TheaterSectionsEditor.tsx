@@ -0,0 +1,95 @@
+import type { TheaterSection } from '../../services/api';
+import { newTheaterSection, type TemplateConfigOf } from '../../lib/venue-templates';
+import { TemplateField } from './TemplateField';
+
+interface TheaterSectionsEditorProps {
+  config: TemplateConfigOf<'theater'>;
+  onChange: (config: TemplateConfigOf<'theater'>) => void;
+}
+
+/**
+ * Rectangular seat blocks, each rows × seatsPerRow
+ */
+export function TheaterSectionsEditor({ config, onChange }: TheaterSectionsEditorProps) {
+  const updateSection = (index: number, patch: Partial<TheaterSection>) =>
+    onChange({
+      ...config,
+      sections: config.sections.map((section, i) => (i === index ? { ...section, ...patch } : section)),
+    });
+
+  return (
+    <div className="sections">
+      <div className="sections-head">
+        <p>Sections</p>
+        <button
+          type="button"
+          onClick={() => onChange({ ...config, sections: [...config.sections, newTheaterSection(config.sections.length)] })}
+        >
+          + Add Section
+        </button>
+      </div>
+      {config.sections.map((section, idx) => (
+        <div key={idx} className="section-card">
+          <div className="section-row">
+            <TemplateField
+              type="text"
+              label="Code"
+              value={section.sectionCode}
+              onChange={(value) => updateSection(idx, { sectionCode: value })}
+            />
+            <TemplateField
+              type="text"
+              label="Name"
+              value={section.name}
+              onChange={(value) => updateSection(idx, { name: value })}
+            />
+            <button
+              type="button"
+              className="ghost"
+              onClick={() => onChange({ ...config, sections: config.sections.filter((_, i) => i !== idx) })}
+            >
+              Remove
+            </button>
+          </div>
+          <div className="section-row">
+            <TemplateField label="Rows" value={section.rows} onChange={(value) => updateSection(idx, { rows: Number(value) })} />
+            <TemplateField
+              label="Seats/row"
+              value={section.seatsPerRow}
+              onChange={(value) => updateSection(idx, { seatsPerRow: Number(value) })}
+            />
+            <TemplateField
+              label="Seat spacing"
+              value={section.seatSpacing}
+              onChange={(value) => updateSection(idx, { seatSpacing: Number(value) })}
+            />
+            <TemplateField
+              label="Row spacing"
+              value={section.rowSpacing}
+              onChange={(value) => updateSection(idx, { rowSpacing: Number(value) })}
+            />
+          </div>
+          <div className="section-row">
+            <TemplateField label="Start X" value={section.startX} onChange={(value) => updateSection(idx, { startX: Number(value) })} />
+            <TemplateField label="Start Y" value={section.startY} onChange={(value) => updateSection(idx, { startY: Number(value) })} />
+            <TemplateField
+              label="Rotation (°)"
+              value={section.rotation ?? 0}
+              onChange={(value) => updateSection(idx, { rotation: Number(value) })}
+            />
+            <label className="field small checkbox">
+              <input
+                type="checkbox"
+                checked={!!section.hasAisle}
+                onChange={(e) =>
+                  updateSection(idx, { hasAisle: e.target.checked, aislePosition: e.target.checked ? 'center' : undefined })
+                }
+              />
+              <span>Center aisle</span>
+            </label>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
-import { apiClient } from '../services/api';
+import { apiClient, clearStaffScanData, SESSION_EXPIRED_EVENT, type SessionExpiredDetail } from '../services/api';
 import { AuthContext } from './auth-context';
 
 interface User {
@@ -40,12 +40,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // apiClient signals here when a token refresh fails and the session is gone
+  useEffect(() => {
+    const handleSessionExpired = (event: Event) => {
+      setUser(null);
+      const { isStaffSession } = (event as CustomEvent<SessionExpiredDetail>).detail;
+      router.push(isStaffSession ? '/admin/login' : '/login');
+    };
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+  }, [router]);
+
   const login = async (email: string, password: string) => {
     const response = await apiClient.post('/auth/login', { email, password });
     const { accessToken, refreshToken, user: userData } = response.data;
     
     localStorage.setItem('accessToken', accessToken);
     localStorage.setItem('refreshToken', refreshToken);
+    // A leftover staff profile would send this customer session to the staff refresh endpoint
+    localStorage.removeItem('staffProfile');
     setUser(userData);
     
     // Redirect based on user role
@@ -62,6 +76,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     
     localStorage.setItem('accessToken', accessToken);
     localStorage.setItem('refreshToken', refreshToken);
+    localStorage.removeItem('staffProfile');
     
     // Get user data after registration
     const userResponse = await apiClient.get('/auth/me');
@@ -72,6 +87,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const logout = () => {
     localStorage.removeItem('accessToken');
     localStorage.removeItem('refreshToken');
+    localStorage.removeItem('staffProfile');
+    clearStaffScanData();
     setUser(null);
     router.push('/');
   };
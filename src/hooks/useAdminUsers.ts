@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from 'react';
+import { adminApi, type AdminUser, type Paginated, type UserRole } from '../services/api';
+
+export type UserAction =
+  | { action: 'change_role'; role: UserRole }
+  | { action: 'suspend' }
+  | { action: 'reactivate' }
+  | { action: 'force_password_reset' }
+  | { action: 'delete' };
+
+export interface UserFilters {
+  search: string;
+  role: UserRole | '';
+}
+
+const USER_PAGE_SIZE = 20;
+
+interface UsersResult {
+  key: string;
+  data: Paginated<AdminUser> | null;
+  error: string | null;
+}
+
+const sendAction = async (userId: string, change: UserAction, reason: string): Promise<AdminUser | null> => {
+  switch (change.action) {
+    case 'change_role':
+      return (await adminApi.changeUserRole(userId, change.role, reason)).data;
+    case 'suspend':
+      return (await adminApi.suspendUser(userId, reason)).data;
+    case 'reactivate':
+      return (await adminApi.reactivateUser(userId, reason)).data;
+    case 'force_password_reset':
+      return (await adminApi.forcePasswordReset(userId, reason)).data;
+    case 'delete':
+      await adminApi.deleteUser(userId, reason);
+      return null;
+  }
+};
+
+/**
+ * Paged, filterable user list for the admin panel.
+ * Changes are not optimistic: they wait for the server, which records the
+ * acting admin and the reason, and the row is replaced with its response.
+ * Nothing is loaded until `enabled`.
+ */
+export function useAdminUsers(filters: UserFilters, enabled: boolean, limit = USER_PAGE_SIZE) {
+  const filterKey = `${filters.search.trim()}|${filters.role}`;
+  // Page is stored with its filters so changing them starts again from page 1
+  const [pageState, setPageState] = useState({ filterKey, page: 1 });
+  const page = pageState.filterKey === filterKey ? pageState.page : 1;
+  const key = `${filterKey}|${page}|${limit}`;
+
+  const [result, setResult] = useState<UsersResult | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  const search = filters.search.trim();
+  const role = filters.role;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    adminApi
+      .listUsers({ search: search || undefined, role: role || undefined, page, limit })
+      .then((response) => {
+        if (!cancelled) setResult({ key, data: response.data, error: null });
+      })
+      .catch((err: any) => {
+        console.error('❌ Failed to load users:', err);
+        if (cancelled) return;
+        setResult((prev) => ({
+          key,
+          data: prev?.key === key ? prev.data : null,
+          error: err.response?.data?.message || 'Failed to load users',
+        }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, key, search, role, page, limit, refreshCount]);
+
+  const setPage = useCallback((next: number) => setPageState({ filterKey, page: next }), [filterKey]);
+  const refresh = useCallback(() => setRefreshCount((count) => count + 1), []);
+
+  /**
+   * Apply a change to one user. Rejects with the API error so the
+   * confirmation dialog can stay open and show it.
+   */
+  const applyAction = useCallback(
+    async (user: AdminUser, change: UserAction, reason: string) => {
+      const updated = await sendAction(user._id, change, reason);
+
+      setResult((prev) => {
+        if (!prev?.data) return prev;
+        const items = updated
+          ? prev.data.items.map((item) => (item._id === updated._id ? updated : item))
+          : prev.data.items.filter((item) => item._id !== user._id);
+        return {
+          ...prev,
+          data: { ...prev.data, items, total: updated ? prev.data.total : Math.max(prev.data.total - 1, 0) },
+        };
+      });
+      // A deletion leaves a gap on the page; refetch so the next user moves up
+      if (!updated) refresh();
+    },
+    [refresh]
+  );
+
+  const current = result?.key === key ? result : null;
+
+  return {
+    users: current?.data?.items ?? [],
+    page,
+    setPage,
+    total: current?.data?.total ?? 0,
+    totalPages: current?.data?.totalPages ?? 1,
+    loading: !current,
+    error: current?.error ?? null,
+    applyAction,
+    refresh,
+  };
+}
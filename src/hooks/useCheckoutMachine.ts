@@ -0,0 +1,62 @@
+import { useCallback, useRef, useState } from 'react';
+import {
+  checkoutErrorMessage,
+  checkoutReducer,
+  initialCheckoutState,
+  type CheckoutEvent,
+  type CheckoutState,
+} from '../lib/checkout-machine';
+
+export interface UseCheckoutMachineResult {
+  state: CheckoutState;
+  // Latest state, including sends made earlier in the same handler
+  getState: () => CheckoutState;
+  // Returns false when the event is not valid in the current state
+  send: (event: CheckoutEvent) => boolean;
+  /**
+   * Enter a step with `start`, run `task`, then move on with `onSuccess(result)`.
+   * Failures transition to `error`; resolves undefined if the step was rejected or failed.
+   */
+  run: <T>(
+    start: CheckoutEvent,
+    task: () => Promise<T>,
+    onSuccess: (result: T) => CheckoutEvent
+  ) => Promise<T | undefined>;
+}
+
+/**
+ * React binding for the checkout state machine.
+ * State is mirrored in a ref so consecutive sends within one handler see each other.
+ */
+export function useCheckoutMachine(): UseCheckoutMachineResult {
+  const stateRef = useRef<CheckoutState>(initialCheckoutState);
+  const [state, setState] = useState<CheckoutState>(initialCheckoutState);
+
+  const getState = useCallback(() => stateRef.current, []);
+
+  const send = useCallback((event: CheckoutEvent) => {
+    const next = checkoutReducer(stateRef.current, event);
+    if (next === stateRef.current) return false;
+    stateRef.current = next;
+    setState(next);
+    return true;
+  }, []);
+
+  const run = useCallback(
+    async <T>(start: CheckoutEvent, task: () => Promise<T>, onSuccess: (result: T) => CheckoutEvent) => {
+      if (!send(start)) return undefined;
+      try {
+        const result = await task();
+        send(onSuccess(result));
+        return result;
+      } catch (error) {
+        console.error('❌ Checkout step failed:', error);
+        send({ type: 'FAILED', message: checkoutErrorMessage(error) });
+        return undefined;
+      }
+    },
+    [send]
+  );
+
+  return { state, getState, send, run };
+}
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { organizerApi, type EventDraft } from '../services/api';
+import { draftToForm, emptyEventForm, formToDraftInput, isDraftEditable, type EventForm } from '../lib/event-wizard';
+
+const AUTOSAVE_DELAY_MS = 2000;
+
+export type DraftSaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+/**
+ * Wizard form state backed by a server-side event draft.
+ * Edits are autosaved after a short pause; saves run one at a time so a slow
+ * request can never overwrite newer input. The first save creates the draft
+ * and reports its id through `onCreated` so the page can put it in the URL.
+ */
+export function useEventDraft(draftId: string | null, onCreated: (draftId: string) => void) {
+  const [form, setForm] = useState<EventForm>(emptyEventForm);
+  const [draft, setDraft] = useState<EventDraft | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<DraftSaveStatus>('idle');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [editCount, setEditCount] = useState(0);
+
+  const formRef = useRef(form);
+  const draftRef = useRef<EventDraft | null>(null);
+  // Edits are versioned so a save only counts as current if nothing changed while it ran
+  const versionRef = useRef(0);
+  const savedVersionRef = useRef(0);
+  const saveChainRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  useEffect(() => {
+    if (!draftId || draftRef.current?._id === draftId) return;
+    let cancelled = false;
+
+    organizerApi
+      .getEventDraft(draftId)
+      .then((response) => {
+        if (cancelled) return;
+        draftRef.current = response.data;
+        formRef.current = draftToForm(response.data);
+        setDraft(response.data);
+        setForm(formRef.current);
+      })
+      .catch((err: any) => {
+        console.error('❌ Failed to load event draft:', err);
+        if (!cancelled) setLoadError(err.response?.data?.message || 'Failed to load this event');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draftId]);
+
+  const updateForm = useCallback((patch: Partial<EventForm>) => {
+    formRef.current = { ...formRef.current, ...patch };
+    versionRef.current += 1;
+    setForm(formRef.current);
+    setEditCount((count) => count + 1);
+  }, []);
+
+  const persist = useCallback(async (): Promise<EventDraft | null> => {
+    const version = versionRef.current;
+    if (draftRef.current && version === savedVersionRef.current) return draftRef.current;
+
+    const input = formToDraftInput(formRef.current);
+    // A draft needs at least a title before the server will accept it
+    if (!input.title) return draftRef.current;
+
+    setSaveStatus('saving');
+    setSaveError(null);
+    try {
+      const existing = draftRef.current;
+      const response = existing
+        ? await organizerApi.updateEventDraft(existing._id, input)
+        : await organizerApi.createEventDraft(input);
+
+      draftRef.current = response.data;
+      savedVersionRef.current = version;
+      setDraft(response.data);
+      setLastSavedAt(new Date());
+      setSaveStatus(version === versionRef.current ? 'saved' : 'idle');
+      if (!existing) onCreated(response.data._id);
+      return response.data;
+    } catch (err: any) {
+      console.error('❌ Failed to save event draft:', err);
+      setSaveStatus('error');
+      setSaveError(err.response?.data?.message || 'Your changes could not be saved');
+      throw err;
+    }
+  }, [onCreated]);
+
+  /**
+   * Save now, after any save already in flight. Rejects if this save fails.
+   */
+  const save = useCallback(() => {
+    const result = saveChainRef.current.then(persist);
+    saveChainRef.current = result.catch(() => undefined);
+    return result;
+  }, [persist]);
+
+  const editable = !draft || isDraftEditable(draft.status);
+
+  useEffect(() => {
+    if (editCount === 0 || !editable) return;
+    const timer = setTimeout(() => {
+      // Failures are reported through saveStatus; the next edit retries
+      save().catch(() => undefined);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [editCount, editable, save]);
+
+  /**
+   * Save outstanding edits, then submit the draft for approval (draft → pending)
+   */
+  const submit = useCallback(async () => {
+    const saved = await save();
+    if (!saved) throw new Error('Give your event a title before submitting.');
+    const response = await organizerApi.submitEventForApproval(saved._id);
+    draftRef.current = response.data;
+    setDraft(response.data);
+    return response.data;
+  }, [save]);
+
+  return {
+    form,
+    updateForm,
+    draft,
+    editable,
+    loading: !!draftId && !draft && !loadError,
+    loadError,
+    saveStatus,
+    saveError,
+    lastSavedAt,
+    save,
+    submit,
+  };
+}
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useState } from 'react';
+import { adminApi, type EventStatus, type Paginated, type ReviewEvent } from '../services/api';
+
+export type ReviewDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; reason: string }
+  | { action: 'request_changes'; message: string };
+
+const REVIEW_PAGE_SIZE = 10;
+
+interface QueueResult {
+  key: string;
+  data: Paginated<ReviewEvent> | null;
+  error: string | null;
+}
+
+const sendDecision = (eventId: string, decision: ReviewDecision) => {
+  switch (decision.action) {
+    case 'approve':
+      return adminApi.approveEvent(eventId);
+    case 'reject':
+      return adminApi.rejectEvent(eventId, decision.reason);
+    case 'request_changes':
+      return adminApi.requestEventChanges(eventId, decision.message);
+  }
+};
+
+/**
+ * One page of the admin event review queue for a status.
+ * Decisions are applied optimistically: the event leaves the list at once and
+ * comes back in place if the request fails. The page is refetched after each
+ * successful decision so later events move up to fill the gap.
+ * Nothing is loaded until `enabled`.
+ */
+export function useEventReviewQueue(status: EventStatus, enabled: boolean, limit = REVIEW_PAGE_SIZE) {
+  // Page is stored with its status so switching status starts again from page 1
+  const [pageState, setPageState] = useState({ status, page: 1 });
+  const page = pageState.status === status ? pageState.page : 1;
+  const key = `${status}:${page}:${limit}`;
+
+  const [result, setResult] = useState<QueueResult | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+  // Events with a decision in flight, hidden until it settles
+  const [deciding, setDeciding] = useState<string[]>([]);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    adminApi
+      .listEvents({ status, page, limit })
+      .then((response) => {
+        if (!cancelled) setResult({ key, data: response.data, error: null });
+      })
+      .catch((err: any) => {
+        console.error('❌ Failed to load review queue:', err);
+        if (cancelled) return;
+        // Keep showing the last good page if a background refresh fails
+        setResult((prev) => ({
+          key,
+          data: prev?.key === key ? prev.data : null,
+          error: err.response?.data?.message || 'Failed to load events for review',
+        }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, key, status, page, limit, refreshCount]);
+
+  const setPage = useCallback((next: number) => setPageState({ status, page: next }), [status]);
+  const refresh = useCallback(() => setRefreshCount((count) => count + 1), []);
+
+  const current = result?.key === key ? result : null;
+  const events = current?.data?.items.filter((event) => !deciding.includes(event._id)) ?? [];
+  const hiddenCount = (current?.data?.items.length ?? 0) - events.length;
+
+  const decide = useCallback(
+    async (event: ReviewEvent, decision: ReviewDecision): Promise<boolean> => {
+      setActionError(null);
+      setDeciding((ids) => [...ids, event._id]);
+
+      try {
+        await sendDecision(event._id, decision);
+      } catch (err: any) {
+        console.error('❌ Review decision failed:', err);
+        setDeciding((ids) => ids.filter((id) => id !== event._id));
+        setActionError(
+          `Could not update "${event.title}": ${err.response?.data?.message || err.message || 'request failed'}`
+        );
+        return false;
+      }
+
+      setResult((prev) =>
+        prev?.data
+          ? {
+              ...prev,
+              data: {
+                ...prev.data,
+                items: prev.data.items.filter((item) => item._id !== event._id),
+                total: Math.max(prev.data.total - 1, 0),
+              },
+            }
+          : prev
+      );
+      setDeciding((ids) => ids.filter((id) => id !== event._id));
+
+      // Step back when the last event on a later page was decided
+      const remaining = current?.data?.items.filter((item) => item._id !== event._id && !deciding.includes(item._id));
+      if (page > 1 && remaining?.length === 0) {
+        setPage(page - 1);
+      } else {
+        refresh();
+      }
+      return true;
+    },
+    [current, deciding, page, setPage, refresh]
+  );
+
+  return {
+    events,
+    page,
+    setPage,
+    total: current?.data ? current.data.total - hiddenCount : 0,
+    totalPages: current?.data?.totalPages ?? 1,
+    loading: !current,
+    error: current?.error ?? null,
+    actionError,
+    dismissActionError: () => setActionError(null),
+    decide,
+    refresh,
+  };
+}
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  getSocket,
+  joinEventRoom,
+  leaveEventRoom,
+  rejoinEventRoom,
+  requestSeatStatus,
+  type HoldExpired,
+  type HoldExpiringSoon,
+  type SeatAvailabilityUpdate,
+  type SeatStatus,
+  type ViewersUpdate,
+} from '../services/websocket';
+
+interface UseEventWebSocketOptions {
+  eventId: string | null;
+  autoJoin?: boolean;
+  onSeatUpdate?: (update: SeatAvailabilityUpdate) => void;
+  onHoldExpired?: (data: HoldExpired) => void;
+  onHoldExpiringSoon?: (data: HoldExpiringSoon) => void;
+  onViewersUpdate?: (data: ViewersUpdate) => void;
+}
+
+interface UseEventWebSocketResult {
+  connected: boolean;
+  viewerCount: number;
+  lastUpdate: Date | null;
+  refreshSeatStatus: (seatIds?: string[]) => Promise<SeatStatus[]>;
+}
+
+type Handlers = Pick<
+  UseEventWebSocketOptions,
+  'onSeatUpdate' | 'onHoldExpired' | 'onHoldExpiringSoon' | 'onViewersUpdate'
+>;
+
+/**
+ * Subscribe to real-time seat updates for a single event room.
+ * Joins the room for the current eventId, leaves it when the id changes
+ * and removes every listener it registered on unmount.
+ */
+export function useEventWebSocket({
+  eventId,
+  autoJoin = true,
+  onSeatUpdate,
+  onHoldExpired,
+  onHoldExpiringSoon,
+  onViewersUpdate,
+}: UseEventWebSocketOptions): UseEventWebSocketResult {
+  const [connected, setConnected] = useState(false);
+  const [viewerCount, setViewerCount] = useState(0);
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+
+  // Keep the latest callbacks without re-binding socket listeners on every render
+  const handlersRef = useRef<Handlers>({});
+  useEffect(() => {
+    handlersRef.current = { onSeatUpdate, onHoldExpired, onHoldExpiringSoon, onViewersUpdate };
+  }, [onSeatUpdate, onHoldExpired, onHoldExpiringSoon, onViewersUpdate]);
+
+  useEffect(() => {
+    if (!eventId || !autoJoin) return;
+
+    const sock = getSocket();
+    let active = true;
+
+    const join = async (joining: Promise<void>) => {
+      try {
+        await joining;
+        if (active) setConnected(true);
+      } catch (error) {
+        console.error(`❌ Could not subscribe to event ${eventId}:`, error);
+        if (active) setConnected(false);
+      }
+    };
+
+    // Rooms are dropped server-side on disconnect, so re-join after every reconnect
+    const onConnect = () => {
+      join(rejoinEventRoom(eventId));
+    };
+
+    const onDisconnect = () => {
+      setConnected(false);
+    };
+
+    const onSeatAvailability = (update: SeatAvailabilityUpdate) => {
+      if (update.eventId !== eventId) return;
+      setLastUpdate(new Date(update.timestamp || Date.now()));
+      handlersRef.current.onSeatUpdate?.(update);
+    };
+
+    const onExpired = (data: HoldExpired) => {
+      if (data.eventId !== eventId) return;
+      handlersRef.current.onHoldExpired?.(data);
+    };
+
+    const onExpiringSoon = (data: HoldExpiringSoon) => {
+      if (data.eventId !== eventId) return;
+      handlersRef.current.onHoldExpiringSoon?.(data);
+    };
+
+    const onViewers = (data: ViewersUpdate) => {
+      if (data.eventId !== eventId) return;
+      setViewerCount(data.count);
+      handlersRef.current.onViewersUpdate?.(data);
+    };
+
+    sock.on('connect', onConnect);
+    sock.on('disconnect', onDisconnect);
+    sock.on('seat_availability_update', onSeatAvailability);
+    sock.on('hold_expired', onExpired);
+    sock.on('hold_expiring_soon', onExpiringSoon);
+    sock.on('viewers_update', onViewers);
+
+    join(joinEventRoom(eventId));
+
+    return () => {
+      active = false;
+      sock.off('connect', onConnect);
+      sock.off('disconnect', onDisconnect);
+      sock.off('seat_availability_update', onSeatAvailability);
+      sock.off('hold_expired', onExpired);
+      sock.off('hold_expiring_soon', onExpiringSoon);
+      sock.off('viewers_update', onViewers);
+      leaveEventRoom(eventId);
+      setConnected(false);
+      setViewerCount(0);
+      setLastUpdate(null);
+    };
+  }, [eventId, autoJoin]);
+
+  const refreshSeatStatus = useCallback(
+    async (seatIds?: string[]) => {
+      if (!eventId) return [];
+      const seats = await requestSeatStatus(eventId, seatIds);
+      setLastUpdate(new Date());
+      return seats;
+    },
+    [eventId]
+  );
+
+  return { connected, viewerCount, lastUpdate, refreshSeatStatus };
+}
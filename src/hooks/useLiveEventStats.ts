@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from 'react';
+import { organizerApi, type EventSalesStats } from '../services/api';
+import {
+  getSocket,
+  joinEventRoom,
+  leaveEventRoom,
+  rejoinEventRoom,
+  type HoldExpired,
+  type SeatAvailabilityUpdate,
+} from '../services/websocket';
+
+// Coalesces bursts of seat updates (e.g. a large hold) into one stats request per event
+const STATS_REFRESH_MS = 1000;
+
+/**
+ * Sales stats for several events, kept current over their event-room sockets.
+ * Seat updates only say which seats changed, not what that did to revenue, so
+ * any activity in a room triggers a debounced refetch of that event's stats.
+ */
+export function useLiveEventStats(eventIds: string[]) {
+  const [stats, setStats] = useState<Record<string, EventSalesStats>>({});
+  const [connected, setConnected] = useState(false);
+
+  // Compared by content so callers can pass a fresh array every render
+  const roomsKey = [...eventIds].sort().join(',');
+
+  const refresh = useCallback(async (eventId: string) => {
+    try {
+      const response = await organizerApi.getEventStats(eventId);
+      setStats((prev) => ({ ...prev, [eventId]: response.data }));
+    } catch (err) {
+      console.error(`❌ Failed to load stats for event ${eventId}:`, err);
+    }
+  }, []);
+
+  useEffect(() => {
+    const ids = roomsKey ? roomsKey.split(',') : [];
+    if (ids.length === 0) return;
+
+    ids.forEach((id) => refresh(id));
+
+    const sock = getSocket();
+    const rooms = new Set(ids);
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+    let active = true;
+
+    const scheduleRefresh = (eventId: string) => {
+      if (!rooms.has(eventId)) return;
+      clearTimeout(timers.get(eventId));
+      timers.set(
+        eventId,
+        setTimeout(() => {
+          timers.delete(eventId);
+          refresh(eventId);
+        }, STATS_REFRESH_MS)
+      );
+    };
+
+    const joinAll = async (join: (eventId: string) => Promise<void>) => {
+      const results = await Promise.allSettled(ids.map(join));
+      results.forEach((result, index) => {
+        if (result.status === 'rejected')
+          console.error(`❌ Could not subscribe to event ${ids[index]}:`, result.reason);
+      });
+      if (active) setConnected(results.some((result) => result.status === 'fulfilled'));
+    };
+
+    // Rooms are dropped server-side on disconnect, so re-join after every reconnect
+    const onConnect = () => {
+      joinAll(rejoinEventRoom);
+    };
+    const onDisconnect = () => setConnected(false);
+    const onSeatAvailability = (update: SeatAvailabilityUpdate) => scheduleRefresh(update.eventId);
+    const onExpired = (data: HoldExpired) => scheduleRefresh(data.eventId);
+
+    sock.on('connect', onConnect);
+    sock.on('disconnect', onDisconnect);
+    sock.on('seat_availability_update', onSeatAvailability);
+    sock.on('hold_expired', onExpired);
+
+    joinAll(joinEventRoom);
+
+    return () => {
+      active = false;
+      timers.forEach((timer) => clearTimeout(timer));
+      sock.off('connect', onConnect);
+      sock.off('disconnect', onDisconnect);
+      sock.off('seat_availability_update', onSeatAvailability);
+      sock.off('hold_expired', onExpired);
+      ids.forEach((id) => leaveEventRoom(id));
+      setConnected(false);
+    };
+  }, [roomsKey, refresh]);
+
+  return { stats, connected, refresh };
+}
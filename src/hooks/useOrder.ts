@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { orderApi, type Order } from '../services/api';
+
+/**
+ * One of the signed-in buyer's orders, for the order detail and receipt pages.
+ * `reload` refetches it in place, e.g. after a ticket was reissued.
+ */
+export function useOrder(orderId: string) {
+  const [order, setOrder] = useState<Order | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    orderApi
+      .getOrder(orderId)
+      .then((response) => {
+        if (!cancelled) setOrder(response.data);
+      })
+      .catch((err: any) => {
+        console.error('❌ Failed to load order:', err);
+        if (cancelled) return;
+        const status = err.response?.status;
+        setError(
+          status === 403 || status === 404
+            ? "We couldn't find this order in your account."
+            : err.response?.data?.message || 'Failed to load this order'
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, reloadCount]);
+
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  return { order, error, reload };
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { orderApi, type OrderQuote } from '../services/api';
+import { checkoutErrorMessage } from '../lib/checkout-machine';
+
+export type QuoteRequest = Parameters<typeof orderApi.quote>[0];
+
+const QUOTE_DEBOUNCE_MS = 300;
+
+interface QuoteResult {
+  key: string;
+  quote: OrderQuote | null;
+  error: string | null;
+}
+
+/**
+ * Server quote for the current selection, refreshed whenever the request changes.
+ * Rapid changes are debounced and superseded requests are aborted, so a slow
+ * stale response can never overwrite a newer one. Pass null when there is nothing to price.
+ */
+export function useOrderQuote(request: QuoteRequest | null, delay = QUOTE_DEBOUNCE_MS) {
+  // Compared by content so callers can build a fresh request object every render
+  const key = request ? JSON.stringify(request) : null;
+  const [result, setResult] = useState<QuoteResult | null>(null);
+
+  useEffect(() => {
+    if (!key) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await orderApi.quote(JSON.parse(key) as QuoteRequest, controller.signal);
+        setResult({ key, quote: response.data, error: null });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setResult({ key, quote: null, error: checkoutErrorMessage(err, 'We could not price your order.') });
+      }
+    }, delay);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [key, delay]);
+
+  const current = key !== null && result?.key === key;
+  return {
+    // The previous quote stays visible while a newer one loads
+    quote: key ? result?.quote ?? null : null,
+    loading: key !== null && !current,
+    error: current ? (result?.error ?? null) : null,
+  };
+}
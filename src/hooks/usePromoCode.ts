@@ -0,0 +1,39 @@
+import { useCallback, useState } from 'react';
+import { orderApi, type PromoCode } from '../services/api';
+import { checkoutErrorMessage } from '../lib/checkout-machine';
+
+/**
+ * Promo code input state validated against the backend for one event
+ */
+export function usePromoCode(eventId: string | undefined) {
+  const [code, setCode] = useState('');
+  const [promo, setPromo] = useState<PromoCode | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [validating, setValidating] = useState(false);
+
+  const apply = useCallback(async () => {
+    const trimmed = code.trim();
+    if (!eventId || !trimmed) return;
+
+    setValidating(true);
+    setError(null);
+    try {
+      const response = await orderApi.validatePromo(eventId, trimmed);
+      setPromo(response.data);
+      setCode(response.data.code);
+    } catch (err) {
+      setPromo(null);
+      setError(checkoutErrorMessage(err, 'This promo code is not valid.'));
+    } finally {
+      setValidating(false);
+    }
+  }, [eventId, code]);
+
+  const clear = useCallback(() => {
+    setPromo(null);
+    setCode('');
+    setError(null);
+  }, []);
+
+  return { code, setCode, promo, error, validating, apply, clear };
+}
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { adminApi, type Paginated, type RefundRequest, type RefundRequestStatus } from '../services/api';
+import {
+  getSocket,
+  joinEventRoom,
+  leaveEventRoom,
+  rejoinEventRoom,
+  requestSeatStatus,
+  type SeatAvailabilityUpdate,
+} from '../services/websocket';
+
+export type RefundDecision = { action: 'approve'; note?: string } | { action: 'deny'; note: string };
+
+export type SeatReleaseState = 'waiting' | 'released' | 'unconfirmed';
+
+export interface ApprovedRefund {
+  request: RefundRequest;
+  seats: SeatReleaseState;
+}
+
+const REFUND_PAGE_SIZE = 10;
+// How long to wait for the seat broadcast before telling the admin to check the seat map
+const SEAT_RELEASE_TIMEOUT_MS = 30 * 1000;
+
+interface QueueResult {
+  key: string;
+  data: Paginated<RefundRequest> | null;
+  error: string | null;
+}
+
+/**
+ * Waits until every seat of an approved refund is back to `available`, using
+ * the same event room broadcasts the seat map listens to. The current status
+ * is also asked for after every join, in case the broadcast went out while we
+ * were not in the room. Returns a function that stops watching.
+ */
+function watchSeatRelease(
+  request: RefundRequest,
+  onDone: (state: Exclude<SeatReleaseState, 'waiting'>) => void
+): () => void {
+  const eventId = request.event._id;
+  const waitingFor = new Set(request.seatIds);
+  const sock = getSocket();
+  let active = true;
+
+  const stop = () => {
+    if (!active) return;
+    active = false;
+    clearTimeout(timer);
+    sock.off('connect', onConnect);
+    sock.off('seat_availability_update', onSeatAvailability);
+    leaveEventRoom(eventId);
+  };
+
+  const markAvailable = (seatIds: string[]) => {
+    seatIds.forEach((seatId) => waitingFor.delete(seatId));
+    if (active && waitingFor.size === 0) {
+      stop();
+      onDone('released');
+    }
+  };
+
+  const onSeatAvailability = (data: SeatAvailabilityUpdate) => {
+    if (data.eventId !== eventId) return;
+    markAvailable(data.updates.filter((update) => update.status === 'available').map((update) => update.seatId));
+  };
+
+  const timer = setTimeout(() => {
+    if (!active) return;
+    stop();
+    onDone('unconfirmed');
+  }, SEAT_RELEASE_TIMEOUT_MS);
+
+  const checkReleased = (joining: Promise<void>) =>
+    joining
+      .then(() => requestSeatStatus(eventId, request.seatIds))
+      .then((seats) => markAvailable(seats.filter((seat) => seat.status === 'available').map((seat) => seat.seatId)))
+      .catch((err) => console.error(`❌ Could not check released seats for event ${eventId}:`, err));
+
+  // Rooms are dropped server-side on disconnect, so re-join (and check again) after every reconnect
+  const onConnect = () => {
+    checkReleased(rejoinEventRoom(eventId));
+  };
+
+  sock.on('connect', onConnect);
+  sock.on('seat_availability_update', onSeatAvailability);
+  checkReleased(joinEventRoom(eventId));
+
+  return stop;
+}
+
+/**
+ * One page of refund requests for a status, with approve/deny actions.
+ * Decided requests leave the list once the API confirms the decision. Approved
+ * ones are tracked until their seats are released back to sale.
+ */
+export function useRefundQueue(status: RefundRequestStatus, limit = REFUND_PAGE_SIZE) {
+  // Page is stored with its status so switching status starts again from page 1
+  const [pageState, setPageState] = useState({ status, page: 1 });
+  const page = pageState.status === status ? pageState.page : 1;
+  const key = `${status}:${page}:${limit}`;
+
+  const [result, setResult] = useState<QueueResult | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [deciding, setDeciding] = useState<string[]>([]);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [approved, setApproved] = useState<ApprovedRefund[]>([]);
+  const releaseWatchers = useRef(new Map<string, () => void>());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    adminApi
+      .listRefundRequests({ status, page, limit })
+      .then((response) => {
+        if (!cancelled) setResult({ key, data: response.data, error: null });
+      })
+      .catch((err: any) => {
+        console.error('❌ Failed to load refund requests:', err);
+        if (cancelled) return;
+        // Keep showing the last good page if a background refresh fails
+        setResult((prev) => ({
+          key,
+          data: prev?.key === key ? prev.data : null,
+          error: err.response?.data?.message || 'Failed to load refund requests',
+        }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, status, page, limit, refreshCount]);
+
+  useEffect(() => {
+    const watchers = releaseWatchers.current;
+    return () => {
+      watchers.forEach((stop) => stop());
+      watchers.clear();
+    };
+  }, []);
+
+  const setPage = useCallback((next: number) => setPageState({ status, page: next }), [status]);
+  const refresh = useCallback(() => setRefreshCount((count) => count + 1), []);
+
+  const current = result?.key === key ? result : null;
+
+  const trackSeatRelease = useCallback((request: RefundRequest) => {
+    const seats: SeatReleaseState = request.seatIds.length === 0 ? 'released' : 'waiting';
+    setApproved((prev) => [{ request, seats }, ...prev.filter((item) => item.request._id !== request._id)]);
+    if (seats === 'released') return;
+
+    const stop = watchSeatRelease(request, (result) => {
+      releaseWatchers.current.delete(request._id);
+      setApproved((prev) =>
+        prev.map((item) => (item.request._id === request._id ? { ...item, seats: result } : item))
+      );
+    });
+    releaseWatchers.current.set(request._id, stop);
+  }, []);
+
+  const decide = useCallback(
+    async (request: RefundRequest, decision: RefundDecision): Promise<boolean> => {
+      setActionError(null);
+      setDeciding((ids) => [...ids, request._id]);
+
+      let decided: RefundRequest;
+      try {
+        const response =
+          decision.action === 'approve'
+            ? await adminApi.approveRefund(request._id, decision.note)
+            : await adminApi.denyRefund(request._id, decision.note);
+        decided = response.data;
+      } catch (err: any) {
+        console.error('❌ Refund decision failed:', err);
+        setDeciding((ids) => ids.filter((id) => id !== request._id));
+        setActionError(
+          `Could not update the refund for order ${request.orderNumber}: ${
+            err.response?.data?.message || err.message || 'request failed'
+          }`
+        );
+        return false;
+      }
+
+      if (decision.action === 'approve') trackSeatRelease(decided);
+
+      setResult((prev) =>
+        prev?.data
+          ? {
+              ...prev,
+              data: {
+                ...prev.data,
+                items: prev.data.items.filter((item) => item._id !== request._id),
+                total: Math.max(prev.data.total - 1, 0),
+              },
+            }
+          : prev
+      );
+      setDeciding((ids) => ids.filter((id) => id !== request._id));
+
+      // Step back when the last request on a later page was decided
+      const remaining = current?.data?.items.filter((item) => item._id !== request._id);
+      if (page > 1 && remaining?.length === 0) {
+        setPage(page - 1);
+      } else {
+        refresh();
+      }
+      return true;
+    },
+    [current, page, setPage, refresh, trackSeatRelease]
+  );
+
+  return {
+    requests: current?.data?.items ?? [],
+    page,
+    setPage,
+    total: current?.data?.total ?? 0,
+    totalPages: current?.data?.totalPages ?? 1,
+    loading: !current,
+    error: current?.error ?? null,
+    deciding,
+    actionError,
+    dismissActionError: () => setActionError(null),
+    approved,
+    decide,
+    refresh,
+  };
+}
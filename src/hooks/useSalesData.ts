@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { eventApi, orderApi, type EventType, type Order } from '../services/api';
+
+interface SalesData {
+  orders: Order[];
+  // Event id → category, used to group sales by event type
+  eventTypes: Record<string, EventType>;
+}
+
+/**
+ * All orders plus the event categories needed to aggregate them.
+ * Categories are best-effort: if events fail to load, sales are still shown
+ * and simply grouped under "other". Nothing is fetched until `enabled`,
+ * since the full order history is large.
+ */
+export function useSalesData(enabled: boolean) {
+  const [data, setData] = useState<SalesData>({ orders: [], eventTypes: {} });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [orders, events] = await Promise.all([
+          orderApi.listAllOrders(),
+          eventApi.getEvents().catch((err) => {
+            console.error('❌ Failed to load event categories:', err);
+            return { data: [] };
+          }),
+        ]);
+        if (cancelled) return;
+        setData({
+          orders: orders.data,
+          eventTypes: Object.fromEntries(events.data.map((event) => [event._id, event.eventType])),
+        });
+      } catch (err: any) {
+        console.error('❌ Failed to load sales data:', err);
+        if (!cancelled) setError(err.response?.data?.message || 'Failed to load sales data');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return { ...data, loading, error };
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { adminApi, type SalesSummary } from '../services/api';
+
+/**
+ * Revenue totals for the admin overview. Unlike useSalesData this is a single
+ * aggregate from the server, cheap enough to load as soon as `enabled`.
+ */
+export function useSalesSummary(enabled: boolean) {
+  const [summary, setSummary] = useState<SalesSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    adminApi
+      .getSalesSummary()
+      .then((response) => {
+        if (!cancelled) setSummary(response.data);
+      })
+      .catch((err: any) => {
+        console.error('❌ Failed to load sales summary:', err);
+        if (!cancelled) setError(err.response?.data?.message || 'Failed to load sales summary');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return { summary, loading: enabled && !summary && !error, error };
+}
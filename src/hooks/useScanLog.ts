@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { staffApi, type ScanLogEntry } from '../services/api';
+import { getSocket, joinEventRoom, leaveEventRoom, rejoinEventRoom, type TicketScanned } from '../services/websocket';
+import { SCAN_LOG_LIMIT, mergeScanLog } from '../lib/scan-log';
+
+/**
+ * Scan log of one event: the latest entries from the API, then every new scan
+ * as the event room broadcasts it. History is reloaded after a reconnect so
+ * scans made while the socket was down still show up.
+ */
+export function useScanLog(eventId: string | null) {
+  const [entries, setEntries] = useState<ScanLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    setEntries([]);
+    setConnected(false);
+    if (!eventId) return;
+
+    const sock = getSocket();
+    let active = true;
+
+    const backfill = async () => {
+      try {
+        const response = await staffApi.listScanLog(eventId, { limit: SCAN_LOG_LIMIT });
+        if (!active) return;
+        setEntries((prev) => mergeScanLog(prev, response.data));
+        setError(null);
+      } catch (err: any) {
+        console.error('❌ Failed to load scan log:', err);
+        if (active) setError(err.response?.data?.message || 'Failed to load the scan log');
+      }
+    };
+
+    const join = async (joining: Promise<void>) => {
+      try {
+        await joining;
+        if (active) setConnected(true);
+      } catch (err) {
+        console.error(`❌ Could not subscribe to scans for event ${eventId}:`, err);
+      }
+    };
+
+    // Rooms are dropped server-side on disconnect, so re-join (and catch up) after every reconnect
+    const onConnect = () => {
+      join(rejoinEventRoom(eventId));
+      backfill();
+    };
+    const onDisconnect = () => setConnected(false);
+    const onTicketScanned = (data: TicketScanned) => {
+      if (data.eventId === eventId) setEntries((prev) => mergeScanLog(prev, [data.scan]));
+    };
+
+    sock.on('connect', onConnect);
+    sock.on('disconnect', onDisconnect);
+    sock.on('ticket_scanned', onTicketScanned);
+
+    setLoading(true);
+    backfill().finally(() => {
+      if (active) setLoading(false);
+    });
+    join(joinEventRoom(eventId));
+
+    return () => {
+      active = false;
+      sock.off('connect', onConnect);
+      sock.off('disconnect', onDisconnect);
+      sock.off('ticket_scanned', onTicketScanned);
+      leaveEventRoom(eventId);
+    };
+  }, [eventId]);
+
+  return { entries, loading, error, connected };
+}
@@ -0,0 +1,229 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  STAFF_SCAN_KEY_PREFIX,
+  staffApi,
+  type QueuedScan,
+  type StaffTicket,
+  type SyncedScan,
+  type TicketScanResponse,
+} from '../services/api';
+import { checkInTicket, indexTickets, mergeTicketList, validateOffline, type TicketIndex } from '../lib/ticket-scan';
+
+// Cleared with the rest of the scanner's data when the staff session ends
+const TICKETS_KEY_PREFIX = `${STAFF_SCAN_KEY_PREFIX}Tickets:`;
+const QUEUE_KEY = `${STAFF_SCAN_KEY_PREFIX}Queue`;
+
+interface CachedTickets {
+  tickets: StaffTicket[];
+  cachedAt: string;
+}
+
+export interface ScanOutcome extends TicketScanResponse {
+  ticketCode: string;
+  scannedAt: string;
+  // Decided from the cached ticket list; a valid offline scan is queued for sync
+  offline: boolean;
+}
+
+export interface SyncReport {
+  syncedAt: string;
+  sent: number;
+  // Offline admissions the server overruled, e.g. the ticket was scanned first at another door
+  rejected: SyncedScan[];
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    // Storage full or unavailable: scanning keeps working, it just won't survive a reload
+    console.error(`❌ Failed to store ${key}:`, err);
+  }
+}
+
+function cachedOtherEvents(eventId: string): TicketIndex[] {
+  return Object.keys(localStorage)
+    .filter((key) => key.startsWith(TICKETS_KEY_PREFIX) && key !== TICKETS_KEY_PREFIX + eventId)
+    .map((key) => indexTickets(readJson<CachedTickets | null>(key, null)?.tickets ?? []));
+}
+
+// A request that never got a response means the network is down, not that the ticket was refused
+const isNetworkError = (err: any) => !err?.response;
+
+/**
+ * Door scanning for one event at one gate. Scans go to the server while
+ * online; the event's ticket list is cached so scans are decided locally when
+ * the network drops, and admissions made offline are queued and replayed once
+ * it returns.
+ */
+export function useTicketScanner(eventId: string | null, gate: string) {
+  const [tickets, setTickets] = useState<TicketIndex>({});
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [queue, setQueue] = useState<QueuedScan[]>([]);
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [lastSync, setLastSync] = useState<SyncReport | null>(null);
+
+  const ticketsRef = useRef<TicketIndex>({});
+  const queueRef = useRef<QueuedScan[]>([]);
+  const syncingRef = useRef(false);
+
+  const saveTickets = useCallback((id: string, next: TicketIndex, at: string) => {
+    ticketsRef.current = next;
+    setTickets(next);
+    setCachedAt(at);
+    const cached: CachedTickets = { tickets: Object.values(next), cachedAt: at };
+    writeJson(TICKETS_KEY_PREFIX + id, cached);
+  }, []);
+
+  const saveQueue = useCallback((next: QueuedScan[]) => {
+    queueRef.current = next;
+    setQueue(next);
+    writeJson(QUEUE_KEY, next);
+  }, []);
+
+  const sync = useCallback(async () => {
+    const sent = queueRef.current;
+    if (sent.length === 0 || syncingRef.current || !navigator.onLine) return;
+
+    syncingRef.current = true;
+    setSyncing(true);
+    setSyncError(null);
+    try {
+      const response = await staffApi.syncScans(sent);
+      // Scans queued while the request was in flight stay for the next sync
+      saveQueue(queueRef.current.filter((scan) => !sent.includes(scan)));
+
+      const updates = response.data.flatMap((synced) => (synced.ticket ? [synced.ticket] : []));
+      if (eventId && updates.some((ticket) => ticket.eventId === eventId)) {
+        saveTickets(
+          eventId,
+          { ...ticketsRef.current, ...indexTickets(updates.filter((ticket) => ticket.eventId === eventId)) },
+          new Date().toISOString()
+        );
+      }
+      setLastSync({
+        syncedAt: new Date().toISOString(),
+        sent: sent.length,
+        rejected: response.data.filter((synced) => synced.result !== 'valid'),
+      });
+    } catch (err: any) {
+      console.error('❌ Failed to sync offline scans:', err);
+      setSyncError(err.response?.data?.message || 'Failed to sync offline scans');
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [eventId, saveQueue, saveTickets]);
+
+  useEffect(() => {
+    queueRef.current = readJson<QueuedScan[]>(QUEUE_KEY, []);
+    setQueue(queueRef.current);
+    setOnline(navigator.onLine);
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+
+  const refreshTickets = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const response = await staffApi.getEventTickets(eventId);
+      const pending = new Set(
+        queueRef.current.filter((scan) => scan.eventId === eventId).map((scan) => scan.ticketCode)
+      );
+      saveTickets(eventId, mergeTicketList(response.data, ticketsRef.current, pending), new Date().toISOString());
+      setLoadError(null);
+    } catch (err: any) {
+      console.error('❌ Failed to download ticket list:', err);
+      setLoadError(err.response?.data?.message || 'Failed to download the ticket list');
+    }
+  }, [eventId, saveTickets]);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    const cached = readJson<CachedTickets | null>(TICKETS_KEY_PREFIX + eventId, null);
+    ticketsRef.current = indexTickets(cached?.tickets ?? []);
+    setTickets(ticketsRef.current);
+    setCachedAt(cached?.cachedAt ?? null);
+    setLoadError(null);
+
+    if (navigator.onLine) {
+      sync();
+      refreshTickets();
+    }
+  }, [eventId, refreshTickets, sync]);
+
+  const scanOffline = useCallback(
+    (ticketCode: string, scannedAt: string): ScanOutcome => {
+      const decision = validateOffline(ticketsRef.current, eventId ? cachedOtherEvents(eventId) : [], ticketCode);
+      if (decision.result === 'valid' && eventId) {
+        saveTickets(eventId, checkInTicket(ticketsRef.current, ticketCode, scannedAt), cachedAt ?? scannedAt);
+        saveQueue([...queueRef.current, { ticketCode, eventId, gate: gate || undefined, scannedAt }]);
+      }
+      return { ...decision, ticketCode, scannedAt, offline: true };
+    },
+    [cachedAt, eventId, gate, saveQueue, saveTickets]
+  );
+
+  const scan = useCallback(
+    async (ticketCode: string): Promise<ScanOutcome> => {
+      const scannedAt = new Date().toISOString();
+      if (!eventId) throw new Error('Pick an event before scanning');
+      if (!navigator.onLine) return scanOffline(ticketCode, scannedAt);
+
+      try {
+        const response = await staffApi.scanTicket(eventId, ticketCode, gate || undefined);
+        const { ticket } = response.data;
+        if (ticket?.eventId === eventId) {
+          saveTickets(eventId, { ...ticketsRef.current, [ticket.ticketCode]: ticket }, cachedAt ?? scannedAt);
+        }
+        return { ...response.data, ticketCode, scannedAt, offline: false };
+      } catch (err: any) {
+        if (!isNetworkError(err)) throw err;
+        console.error('❌ Scan request failed, validating offline:', err);
+        return scanOffline(ticketCode, scannedAt);
+      }
+    },
+    [cachedAt, eventId, gate, saveTickets, scanOffline]
+  );
+
+  return {
+    scan,
+    sync,
+    refreshTickets,
+    ticketCount: Object.keys(tickets).length,
+    checkedInCount: Object.values(tickets).filter((ticket) => ticket.checkedInAt).length,
+    cachedAt,
+    loadError,
+    pendingCount: queue.length,
+    online,
+    syncing,
+    syncError,
+    lastSync,
+  };
+}
@@ -0,0 +1,74 @@
+import { useCallback, useState } from 'react';
+
+const HISTORY_LIMIT = 100;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Value an in-progress run of `replace` calls started from
+  replaceBase: T | null;
+}
+
+const fresh = <T>(value: T): History<T> => ({ past: [], present: value, future: [], replaceBase: null });
+
+/**
+ * useState with undo/redo. `set` records a step; `replace` updates the current
+ * value without one, for continuous edits (dragging) that should undo as a
+ * single step once finished with `set`.
+ */
+export function useUndoableState<T>(initial: T) {
+  const [history, setHistory] = useState<History<T>>(() => fresh(initial));
+
+  const set = useCallback((next: T) => {
+    setHistory((prev) => ({
+      past: [...prev.past, prev.replaceBase ?? prev.present].slice(-HISTORY_LIMIT),
+      present: next,
+      future: [],
+      replaceBase: null,
+    }));
+  }, []);
+
+  const replace = useCallback((next: T) => {
+    setHistory((prev) => ({ ...prev, present: next, replaceBase: prev.replaceBase ?? prev.present }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      const base = prev.replaceBase ?? prev.past[prev.past.length - 1];
+      if (base === undefined) return prev;
+      return {
+        past: prev.replaceBase !== null ? prev.past : prev.past.slice(0, -1),
+        present: base,
+        future: [prev.present, ...prev.future],
+        replaceBase: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) =>
+      prev.future.length === 0
+        ? prev
+        : {
+            past: [...prev.past, prev.replaceBase ?? prev.present],
+            present: prev.future[0],
+            future: prev.future.slice(1),
+            replaceBase: null,
+          }
+    );
+  }, []);
+
+  const reset = useCallback((value: T) => setHistory(fresh(value)), []);
+
+  return {
+    value: history.present,
+    set,
+    replace,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0 || history.replaceBase !== null,
+    canRedo: history.future.length > 0,
+  };
+}
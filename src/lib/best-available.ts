@@ -0,0 +1,154 @@
+import type { EventPricingConfig, SeatPlanSeat } from '../services/api';
+import { seatPrice } from './pricing-zones';
+
+export interface BestAvailableWeights {
+  centrality: number;
+  stageProximity: number;
+  price: number;
+}
+
+export interface BestAvailableOptions {
+  quantity: number;
+  section?: string;
+  pricing?: EventPricingConfig;
+  maxPricePerSeat?: number;
+  weights?: Partial<BestAvailableWeights>;
+  limit?: number;
+}
+
+export interface SeatBlock {
+  section: string;
+  row: string;
+  seats: SeatPlanSeat[];
+  // Average over the block; seats of one row can sit in different zones
+  pricePerSeat: number;
+  totalPrice: number;
+  score: number;
+}
+
+// Normalized 0..1 components, 0 being best
+type Candidate = Omit<SeatBlock, 'score'> & { centrality: number; stage: number };
+
+const DEFAULT_WEIGHTS: BestAvailableWeights = {
+  centrality: 0.45,
+  stageProximity: 0.4,
+  price: 0.15,
+};
+
+export const naturalCompare = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const seatNumber = (seat: SeatPlanSeat) => Number.parseInt(seat.seat, 10);
+
+/**
+ * Seats grouped by section, then row, each row ordered by seat number
+ */
+export function groupSeatsByRow(seats: SeatPlanSeat[]): Map<string, Map<string, SeatPlanSeat[]>> {
+  const sections = new Map<string, Map<string, SeatPlanSeat[]>>();
+  seats.forEach((seat) => {
+    const rows = sections.get(seat.section) ?? new Map<string, SeatPlanSeat[]>();
+    const row = rows.get(seat.row) ?? [];
+    row.push(seat);
+    rows.set(seat.row, row);
+    sections.set(seat.section, rows);
+  });
+  sections.forEach((rows) => rows.forEach((row) => row.sort((a, b) => naturalCompare(a.seat, b.seat))));
+  return sections;
+}
+
+// Neighbours in the sorted row are adjacent only when their seat numbers are consecutive
+export const areSeatsAdjacent = (left: SeatPlanSeat, right: SeatPlanSeat) => {
+  const a = seatNumber(left);
+  const b = seatNumber(right);
+  return Number.isNaN(a) || Number.isNaN(b) ? true : b - a === 1;
+};
+
+/**
+ * Every run of `quantity` adjacent available seats in a row
+ */
+export function findContiguousRuns(row: SeatPlanSeat[], quantity: number): SeatPlanSeat[][] {
+  const runs: SeatPlanSeat[][] = [];
+  let current: SeatPlanSeat[] = [];
+
+  row.forEach((seat) => {
+    const extendsRun = current.length > 0 && areSeatsAdjacent(current[current.length - 1], seat);
+    if (seat.status !== 'available') {
+      current = [];
+      return;
+    }
+    current = extendsRun ? [...current, seat] : [seat];
+    if (current.length >= quantity) {
+      runs.push(current.slice(-quantity));
+    }
+  });
+
+  return runs;
+}
+
+/**
+ * Rank contiguous blocks of `quantity` available seats.
+ * Lower scores are better: each block is scored on distance from the row
+ * center, distance from the stage (front rows first) and relative price.
+ * Only the best block per row is kept so alternatives are meaningfully different.
+ */
+export function findBestAvailable(seats: SeatPlanSeat[], options: BestAvailableOptions): SeatBlock[] {
+  const { quantity, section, pricing, maxPricePerSeat, limit = 3 } = options;
+  if (quantity < 1) return [];
+
+  const weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+  const grouped = groupSeatsByRow(section ? seats.filter((seat) => seat.section === section) : seats);
+  const candidates: Candidate[] = [];
+
+  grouped.forEach((rows, sectionCode) => {
+    const rowLabels = Array.from(rows.keys()).sort(naturalCompare);
+    rowLabels.forEach((rowLabel, rowIndex) => {
+      const row = rows.get(rowLabel)!;
+      const center = (row.length - 1) / 2;
+      const stage = rowLabels.length > 1 ? rowIndex / (rowLabels.length - 1) : 0;
+
+      findContiguousRuns(row, quantity).forEach((run) => {
+        const prices = run.map((seat) => (pricing ? seatPrice(pricing, seat) : 0));
+        if (maxPricePerSeat !== undefined && prices.some((price) => price > maxPricePerSeat)) return;
+
+        const totalPrice = prices.reduce((sum, price) => sum + price, 0);
+        const runStart = row.indexOf(run[0]);
+        const runCenter = runStart + (run.length - 1) / 2;
+        candidates.push({
+          section: sectionCode,
+          row: rowLabel,
+          seats: run,
+          pricePerSeat: totalPrice / quantity,
+          totalPrice,
+          centrality: center > 0 ? Math.abs(runCenter - center) / center : 0,
+          stage,
+        });
+      });
+    });
+  });
+
+  if (candidates.length === 0) return [];
+
+  // Reduced rather than spread: stadium plans can have more candidates than the engine allows as arguments
+  const minPrice = candidates.reduce((min, c) => Math.min(min, c.pricePerSeat), Infinity);
+  const maxPrice = candidates.reduce((max, c) => Math.max(max, c.pricePerSeat), -Infinity);
+  const priceRange = maxPrice - minPrice;
+
+  const scored = candidates.map(({ centrality, stage, ...block }): SeatBlock => {
+    const price = priceRange > 0 ? (block.pricePerSeat - minPrice) / priceRange : 0;
+    return {
+      ...block,
+      score: weights.centrality * centrality + weights.stageProximity * stage + weights.price * price,
+    };
+  });
+
+  const bestPerRow = new Map<string, SeatBlock>();
+  scored.forEach((block) => {
+    const key = `${block.section}\u0000${block.row}`;
+    const existing = bestPerRow.get(key);
+    if (!existing || block.score < existing.score) bestPerRow.set(key, block);
+  });
+
+  return Array.from(bestPerRow.values())
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit);
+}
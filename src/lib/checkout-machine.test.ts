@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_CHECKOUT_RETRIES,
+  canSend,
+  checkoutReducer,
+  initialCheckoutState,
+  type CheckoutEvent,
+  type CheckoutState,
+} from './checkout-machine';
+
+const play = (events: CheckoutEvent[], from: CheckoutState = initialCheckoutState) =>
+  events.reduce(checkoutReducer, from);
+
+const held = play([
+  { type: 'HOLD_REQUESTED' },
+  { type: 'HOLD_SUCCEEDED', holdId: 'hold-1', expiresAt: '2030-01-01T00:00:00.000Z' },
+]);
+
+const paying = play(
+  [
+    { type: 'DETAILS_SUBMITTED' },
+    { type: 'INTENT_CREATED', orderId: 'order-1', orderNumber: 'TT-1', clientSecret: 'pi_secret' },
+  ],
+  held
+);
+
+describe('checkoutReducer', () => {
+  it('walks a seated checkout from selection to done', () => {
+    const done = play(
+      [{ type: 'PAYMENT_CONFIRMED' }, { type: 'ORDER_FINALIZED', orderId: 'order-1', orderNumber: 'TT-1' }],
+      paying
+    );
+
+    expect(held.status).toBe('collecting_details');
+    expect(paying.status).toBe('confirming_payment');
+    expect(done).toMatchObject({ status: 'done', orderId: 'order-1', orderNumber: 'TT-1', holdId: null });
+  });
+
+  it('returns the same state object for events that are not valid', () => {
+    expect(checkoutReducer(initialCheckoutState, { type: 'PAYMENT_CONFIRMED' })).toBe(initialCheckoutState);
+    expect(checkoutReducer(held, { type: 'ORDER_FINALIZED' })).toBe(held);
+  });
+
+  it('clears the hold and any pending order when the hold expires before payment', () => {
+    const creating = checkoutReducer(held, { type: 'DETAILS_SUBMITTED' });
+    const expired = checkoutReducer(creating, { type: 'HOLD_EXPIRED' });
+
+    expect(expired).toMatchObject({ status: 'expired', holdId: null, holdExpiresAt: null, orderId: null });
+  });
+
+  it('keeps the order when the hold expires while payment is being confirmed', () => {
+    const next = checkoutReducer(paying, { type: 'HOLD_EXPIRED' });
+
+    expect(next).toBe(paying);
+    expect(canSend(paying, 'HOLD_EXPIRED')).toBe(false);
+    expect(next).toMatchObject({ status: 'confirming_payment', orderId: 'order-1', clientSecret: 'pi_secret' });
+  });
+
+  it('lets the hold expire once the buyer backs out of an unsubmitted payment', () => {
+    const expired = play([{ type: 'PAYMENT_CANCELLED' }, { type: 'HOLD_EXPIRED' }], paying);
+
+    expect(expired).toMatchObject({ status: 'expired', orderId: null, clientSecret: null, holdId: null });
+  });
+
+  it('ignores an expiring hold after payment went through', () => {
+    const finalizing = checkoutReducer(paying, { type: 'PAYMENT_CONFIRMED' });
+
+    expect(checkoutReducer(finalizing, { type: 'HOLD_EXPIRED' })).toBe(finalizing);
+  });
+
+  it('retries a failed step a bounded number of times', () => {
+    let state = play([{ type: 'DETAILS_SUBMITTED' }, { type: 'FAILED', message: 'Network error' }], held);
+    expect(state.error).toEqual({ step: 'creating_intent', message: 'Network error' });
+
+    for (let attempt = 0; attempt < MAX_CHECKOUT_RETRIES; attempt += 1) {
+      state = play([{ type: 'RETRY' }, { type: 'FAILED', message: 'Network error' }], state);
+    }
+
+    expect(state.retries).toBe(MAX_CHECKOUT_RETRIES);
+    expect(canSend(state, 'RETRY')).toBe(false);
+    expect(checkoutReducer(state, { type: 'RETRY' })).toBe(state);
+  });
+
+  it('does not let a paid order that failed to finalize be abandoned', () => {
+    const failed = play([{ type: 'PAYMENT_CONFIRMED' }, { type: 'FAILED', message: 'Server error' }], paying);
+
+    expect(failed.error?.step).toBe('finalizing');
+    expect(canSend(failed, 'PAYMENT_CANCELLED')).toBe(false);
+    expect(canSend(failed, 'HOLD_EXPIRED')).toBe(false);
+    expect(checkoutReducer(failed, { type: 'RETRY' })).toMatchObject({ status: 'finalizing', orderId: 'order-1' });
+  });
+
+  it('resets from any state', () => {
+    expect(checkoutReducer(paying, { type: 'RESET' })).toBe(initialCheckoutState);
+  });
+});
@@ -0,0 +1,230 @@
+import type { OrderBreakdown } from '../services/api';
+
+/**
+ * Checkout state machine shared by every checkout UI.
+ *
+ * selecting → holding → collecting_details → creating_intent → confirming_payment → finalizing → done
+ *
+ * Flows without seat holds go straight from selecting to collecting_details.
+ * Any async step can fail into `error` and be retried a bounded number of
+ * times; losing the seat hold before payment lands in `expired`. Once the
+ * payment form is open the hold can only expire after backing out of it
+ * with PAYMENT_CANCELLED, so an order being paid for is never dropped.
+ * Everything here is pure so it can be exercised without a browser.
+ */
+
+export type CheckoutStatus =
+  | 'selecting'
+  | 'holding'
+  | 'collecting_details'
+  | 'creating_intent'
+  | 'confirming_payment'
+  | 'finalizing'
+  | 'done'
+  | 'error'
+  | 'expired';
+
+export type RetryableStep = 'holding' | 'creating_intent' | 'confirming_payment' | 'finalizing';
+
+export interface CheckoutError {
+  step: RetryableStep;
+  message: string;
+}
+
+export interface CheckoutState {
+  status: CheckoutStatus;
+  holdId: string | null;
+  holdExpiresAt: string | null;
+  orderId: string | null;
+  orderNumber: string | null;
+  // Stripe PaymentIntent secret for in-page payment
+  clientSecret: string | null;
+  // Hosted checkout page for redirect-based payment
+  redirectUrl: string | null;
+  // Server-priced totals for the pending order
+  breakdown: OrderBreakdown | null;
+  error: CheckoutError | null;
+  retries: number;
+}
+
+export type CheckoutEvent =
+  | { type: 'PROCEED' }
+  | { type: 'HOLD_REQUESTED' }
+  | { type: 'HOLD_SUCCEEDED'; holdId: string; expiresAt: string }
+  | { type: 'HOLD_EXTENDED'; holdId: string; expiresAt: string }
+  | { type: 'HOLD_EXPIRED' }
+  | { type: 'SELECTION_CLEARED' }
+  | { type: 'DETAILS_SUBMITTED' }
+  | {
+      type: 'INTENT_CREATED';
+      orderId?: string;
+      orderNumber?: string;
+      clientSecret?: string;
+      redirectUrl?: string;
+      breakdown?: OrderBreakdown;
+    }
+  | { type: 'PAYMENT_CANCELLED' }
+  | { type: 'PAYMENT_CONFIRMED' }
+  | { type: 'ORDER_FINALIZED'; orderId?: string; orderNumber?: string }
+  | { type: 'FAILED'; message: string }
+  | { type: 'RETRY' }
+  | { type: 'RESET' };
+
+export type CheckoutEventType = CheckoutEvent['type'];
+
+export const MAX_CHECKOUT_RETRIES = 3;
+
+export const initialCheckoutState: CheckoutState = {
+  status: 'selecting',
+  holdId: null,
+  holdExpiresAt: null,
+  orderId: null,
+  orderNumber: null,
+  clientSecret: null,
+  redirectUrl: null,
+  breakdown: null,
+  error: null,
+  retries: 0,
+};
+
+// RETRY and RESET are resolved separately: their target depends on the state, not the status
+const TRANSITIONS: Record<CheckoutStatus, Partial<Record<CheckoutEventType, CheckoutStatus>>> = {
+  selecting: {
+    PROCEED: 'collecting_details',
+    HOLD_REQUESTED: 'holding',
+  },
+  holding: {
+    HOLD_SUCCEEDED: 'collecting_details',
+    HOLD_EXPIRED: 'expired',
+    SELECTION_CLEARED: 'selecting',
+    FAILED: 'error',
+  },
+  collecting_details: {
+    HOLD_REQUESTED: 'holding',
+    HOLD_EXTENDED: 'collecting_details',
+    HOLD_EXPIRED: 'expired',
+    SELECTION_CLEARED: 'selecting',
+    DETAILS_SUBMITTED: 'creating_intent',
+  },
+  creating_intent: {
+    INTENT_CREATED: 'confirming_payment',
+    HOLD_EXTENDED: 'creating_intent',
+    HOLD_EXPIRED: 'expired',
+    FAILED: 'error',
+  },
+  // Stripe may be charging the card, so a lapsing hold must not drop the order here
+  confirming_payment: {
+    PAYMENT_CONFIRMED: 'finalizing',
+    PAYMENT_CANCELLED: 'collecting_details',
+    HOLD_EXTENDED: 'confirming_payment',
+    FAILED: 'error',
+  },
+  // Payment has gone through by now, so a lapsing hold no longer matters
+  finalizing: {
+    ORDER_FINALIZED: 'done',
+    FAILED: 'error',
+  },
+  done: {},
+  // Back out of a failed attempt while keeping the hold, or change seats
+  error: {
+    PAYMENT_CANCELLED: 'collecting_details',
+    HOLD_REQUESTED: 'holding',
+    SELECTION_CLEARED: 'selecting',
+    HOLD_EXPIRED: 'expired',
+  },
+  expired: {
+    HOLD_REQUESTED: 'holding',
+    SELECTION_CLEARED: 'selecting',
+  },
+};
+
+const isRetryableStep = (status: CheckoutStatus): status is RetryableStep =>
+  status === 'holding' ||
+  status === 'creating_intent' ||
+  status === 'confirming_payment' ||
+  status === 'finalizing';
+
+// Once payment went through, a failed finalize can only be retried or reset, never abandoned
+const transitionsFor = (state: CheckoutState) =>
+  state.status === 'error' && state.error?.step === 'finalizing' ? {} : TRANSITIONS[state.status];
+
+export const canRetry = (state: CheckoutState) =>
+  state.status === 'error' && state.error !== null && state.retries < MAX_CHECKOUT_RETRIES;
+
+/**
+ * Whether `type` would move the machine from its current state
+ */
+export function canSend(state: CheckoutState, type: CheckoutEventType): boolean {
+  if (type === 'RESET') return true;
+  if (type === 'RETRY') return canRetry(state);
+  return transitionsFor(state)[type] !== undefined;
+}
+
+const clearHold = { holdId: null, holdExpiresAt: null };
+const clearOrder = { orderId: null, orderNumber: null, clientSecret: null, redirectUrl: null, breakdown: null };
+
+/**
+ * Pure transition function. Events that are not valid in the current state
+ * return the same state object, so callers can detect rejected events by identity.
+ */
+export function checkoutReducer(state: CheckoutState, event: CheckoutEvent): CheckoutState {
+  if (event.type === 'RESET') return initialCheckoutState;
+
+  if (event.type === 'RETRY') {
+    if (!canRetry(state)) return state;
+    return { ...state, status: state.error!.step, error: null, retries: state.retries + 1 };
+  }
+
+  const status = transitionsFor(state)[event.type];
+  if (!status) return state;
+
+  switch (event.type) {
+    case 'HOLD_SUCCEEDED':
+    case 'HOLD_EXTENDED':
+      return { ...state, status, holdId: event.holdId, holdExpiresAt: event.expiresAt, retries: 0 };
+    case 'HOLD_EXPIRED':
+      return { ...state, status, ...clearHold, ...clearOrder, error: null };
+    case 'SELECTION_CLEARED':
+      return { ...initialCheckoutState, status };
+    case 'INTENT_CREATED':
+      return {
+        ...state,
+        status,
+        orderId: event.orderId ?? null,
+        orderNumber: event.orderNumber ?? null,
+        clientSecret: event.clientSecret ?? null,
+        redirectUrl: event.redirectUrl ?? null,
+        breakdown: event.breakdown ?? null,
+        retries: 0,
+      };
+    case 'PAYMENT_CANCELLED':
+      return { ...state, status, ...clearOrder, error: null, retries: 0 };
+    case 'ORDER_FINALIZED':
+      return {
+        ...state,
+        status,
+        ...clearHold,
+        orderId: event.orderId ?? state.orderId,
+        orderNumber: event.orderNumber ?? state.orderNumber,
+        retries: 0,
+      };
+    case 'FAILED':
+      return isRetryableStep(state.status)
+        ? { ...state, status, error: { step: state.status, message: event.message } }
+        : state;
+    case 'PAYMENT_CONFIRMED':
+      return { ...state, status, retries: 0 };
+    default:
+      return { ...state, status };
+  }
+}
+
+/**
+ * Best human-readable message from an API or Stripe failure
+ */
+export function checkoutErrorMessage(error: unknown, fallback = 'Checkout failed. Please try again.'): string {
+  const apiMessage = (error as { response?: { data?: { message?: unknown } } })?.response?.data?.message;
+  if (typeof apiMessage === 'string' && apiMessage) return apiMessage;
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+}
@@ -1,17 +1,9 @@
 import { eventApi } from '../services/api';
 
-interface Event {
-  _id: string;
-  title: string;
-  description: string;
-  imageUrl?: string;
-  slug: string;
-}
-
 async function getEvent(slug: string) {
   try {
     const response = await eventApi.getEvent(slug);
-    return response.data as Event;
+    return response.data;
   } catch (error) {
     console.error('Error fetching event:', error);
     return null;
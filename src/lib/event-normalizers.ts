@@ -0,0 +1,40 @@
+import type { Event, EventVenue } from '../services/api';
+
+export const DEFAULT_EVENT_IMAGE =
+  'https://images.unsplash.com/photo-1514525253161-7a46d19cd819?auto=format&fit=crop&w=1600&q=80';
+
+export interface EventSummary {
+  id: string;
+  slug: string;
+  title: string;
+  date: string;
+  venue: string;
+  city: string;
+  image: string;
+}
+
+/**
+ * "City, State" label for a venue
+ */
+export const formatVenueCity = (venue: EventVenue) => `${venue.address.city}, ${venue.address.state}`;
+
+/**
+ * Flatten a validated Event into the fields listing and seat pages display
+ */
+export function toEventSummary(event: Event): EventSummary {
+  return {
+    id: event._id,
+    slug: event.slug,
+    title: event.title,
+    date: new Date(event.eventDate).toISOString().split('T')[0],
+    venue: event.venueId.name,
+    city: formatVenueCity(event.venueId),
+    image: event.imageUrl || DEFAULT_EVENT_IMAGE,
+  };
+}
+
+export const getAvailableTickets = (event: Pick<Event, 'totalCapacity' | 'soldCount'>) =>
+  Math.max(0, event.totalCapacity - event.soldCount);
+
+export const getSoldPercentage = (event: Pick<Event, 'totalCapacity' | 'soldCount'>) =>
+  event.totalCapacity > 0 ? Math.round((event.soldCount / event.totalCapacity) * 100) : 0;
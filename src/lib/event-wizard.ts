@@ -0,0 +1,255 @@
+import type { EventDraft, EventDraftInput, EventStatus, EventType, PricingZone, Venue } from '../services/api';
+
+/**
+ * Form model and validation for the organizer event wizard.
+ *
+ * The form keeps raw input strings (datetime-local values, numbers being
+ * typed) and only converts them into API shapes when saving, so a half-typed
+ * price never turns into NaN in a draft.
+ */
+
+export type WizardStep = 'details' | 'schedule' | 'venue' | 'pricing' | 'sales';
+
+export const WIZARD_STEPS: { id: WizardStep; label: string }[] = [
+  { id: 'details', label: 'Details' },
+  { id: 'schedule', label: 'Schedule' },
+  { id: 'venue', label: 'Venue' },
+  { id: 'pricing', label: 'Pricing' },
+  { id: 'sales', label: 'Sales Windows' },
+];
+
+export const EVENT_TYPES: EventType[] = ['concert', 'sports', 'theater', 'conference', 'other'];
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export interface PricingZoneForm {
+  name: string;
+  price: string;
+  available: string;
+}
+
+export interface SalesWindowForm {
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  // Empty means every zone
+  zones: string[];
+}
+
+export interface EventForm {
+  title: string;
+  description: string;
+  eventType: EventType | '';
+  imageUrl: string;
+  eventDate: string;
+  eventEndDate: string;
+  doorOpenTime: string;
+  venueId: string;
+  // Keyed by venue section code
+  pricingZones: Record<string, PricingZoneForm>;
+  salesWindows: SalesWindowForm[];
+}
+
+// Field path → message, e.g. "pricingZones.A.price"
+export type FormErrors = Record<string, string>;
+
+export const emptyEventForm: EventForm = {
+  title: '',
+  description: '',
+  eventType: '',
+  imageUrl: '',
+  eventDate: '',
+  eventEndDate: '',
+  doorOpenTime: '',
+  venueId: '',
+  pricingZones: {},
+  salesWindows: [{ name: 'General Sale', startsAt: '', endsAt: '', zones: [] }],
+};
+
+/**
+ * Organizers can edit until the event is submitted, and again if an admin sends it back
+ */
+export const isDraftEditable = (status: EventStatus) => status === 'draft' || status === 'changes_requested';
+
+const TITLE_MAX_LENGTH = 120;
+const DESCRIPTION_MIN_LENGTH = 20;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * ISO timestamp → value for <input type="datetime-local"> in local time
+ */
+export function toLocalInput(iso: string | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(
+    date.getMinutes()
+  )}`;
+}
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+const isNonNegativeNumber = (value: string) => value.trim() !== '' && Number(value) >= 0;
+
+const isPositiveInteger = (value: string) => Number.isInteger(Number(value)) && Number(value) > 0;
+
+export function draftToForm(draft: EventDraft): EventForm {
+  return {
+    title: draft.title,
+    description: draft.description ?? '',
+    eventType: draft.eventType ?? '',
+    imageUrl: draft.imageUrl ?? '',
+    eventDate: toLocalInput(draft.eventDate),
+    eventEndDate: toLocalInput(draft.eventEndDate),
+    doorOpenTime: toLocalInput(draft.doorOpenTime),
+    venueId: draft.venueId ?? '',
+    pricingZones: Object.fromEntries(
+      Object.entries(draft.pricingZones).map(([section, zone]) => [
+        section,
+        { name: zone.name, price: String(zone.price), available: String(zone.available) },
+      ])
+    ),
+    salesWindows:
+      draft.salesWindows.length > 0
+        ? draft.salesWindows.map((window) => ({
+            name: window.name,
+            startsAt: toLocalInput(window.startsAt),
+            endsAt: toLocalInput(window.endsAt),
+            zones: window.zones ?? [],
+          }))
+        : emptyEventForm.salesWindows,
+  };
+}
+
+/**
+ * Payload for saving the form as a draft. Incomplete values are sent as-is
+ * or left out; validation only gates submission, never saving.
+ */
+export function formToDraftInput(form: EventForm): EventDraftInput {
+  const pricingZones: Record<string, PricingZone> = Object.fromEntries(
+    Object.entries(form.pricingZones).map(([section, zone]) => [
+      section,
+      {
+        name: zone.name,
+        price: Number(zone.price) || 0,
+        currency: DEFAULT_CURRENCY,
+        available: Math.floor(Number(zone.available)) || 0,
+      },
+    ])
+  );
+
+  return {
+    title: form.title.trim(),
+    description: form.description,
+    eventType: form.eventType || undefined,
+    imageUrl: form.imageUrl.trim() || undefined,
+    eventDate: fromLocalInput(form.eventDate),
+    eventEndDate: fromLocalInput(form.eventEndDate),
+    doorOpenTime: fromLocalInput(form.doorOpenTime),
+    venueId: form.venueId || undefined,
+    pricingZones,
+    salesWindows: form.salesWindows
+      .filter((window) => window.startsAt && window.endsAt)
+      .map((window) => ({
+        name: window.name.trim(),
+        startsAt: fromLocalInput(window.startsAt)!,
+        endsAt: fromLocalInput(window.endsAt)!,
+        zones: window.zones.length > 0 ? window.zones : undefined,
+      })),
+    totalCapacity: Object.values(pricingZones).reduce((sum, zone) => sum + zone.available, 0),
+  };
+}
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Errors for one step. `venue` is the selected venue, needed to check pricing
+ * zones against its sections; `now` is injectable to keep this pure.
+ */
+export function validateStep(step: WizardStep, form: EventForm, venue: Venue | undefined, now = new Date()): FormErrors {
+  const errors: FormErrors = {};
+
+  switch (step) {
+    case 'details':
+      if (!form.title.trim()) errors.title = 'Give your event a title.';
+      else if (form.title.trim().length > TITLE_MAX_LENGTH)
+        errors.title = `Keep the title under ${TITLE_MAX_LENGTH} characters.`;
+      if (form.description.trim().length < DESCRIPTION_MIN_LENGTH)
+        errors.description = `Describe the event in at least ${DESCRIPTION_MIN_LENGTH} characters.`;
+      if (!form.eventType) errors.eventType = 'Choose an event type.';
+      if (form.imageUrl.trim() && !isHttpUrl(form.imageUrl.trim())) errors.imageUrl = 'Enter a valid image URL.';
+      break;
+
+    case 'schedule': {
+      const start = form.eventDate ? new Date(form.eventDate) : null;
+      if (!start) errors.eventDate = 'Choose when the event starts.';
+      else if (start <= now) errors.eventDate = 'The event must start in the future.';
+      if (start && form.eventEndDate && new Date(form.eventEndDate) <= start)
+        errors.eventEndDate = 'The end must be after the start.';
+      if (start && form.doorOpenTime && new Date(form.doorOpenTime) > start)
+        errors.doorOpenTime = 'Doors must open before the event starts.';
+      break;
+    }
+
+    case 'venue':
+      if (!form.venueId) errors.venueId = 'Choose a venue.';
+      break;
+
+    case 'pricing': {
+      const zones = Object.entries(form.pricingZones);
+      if (zones.length === 0) {
+        errors.pricingZones = 'Price at least one section.';
+        break;
+      }
+      for (const [section, zone] of zones) {
+        const venueSection = venue?.sections.find((candidate) => candidate.sectionCode === section);
+        if (venue && !venueSection) {
+          errors[`pricingZones.${section}`] = `Section ${section} is not part of ${venue.name}.`;
+        }
+        if (!zone.name.trim()) errors[`pricingZones.${section}.name`] = 'Name this price zone.';
+        if (!isNonNegativeNumber(zone.price)) errors[`pricingZones.${section}.price`] = 'Enter a price of 0 or more.';
+        if (!isPositiveInteger(zone.available)) {
+          errors[`pricingZones.${section}.available`] = 'Enter a whole number of tickets.';
+        } else if (venueSection?.capacity !== undefined && Number(zone.available) > venueSection.capacity) {
+          errors[`pricingZones.${section}.available`] = `This section only has ${venueSection.capacity} seats.`;
+        }
+      }
+      break;
+    }
+
+    case 'sales': {
+      if (form.salesWindows.length === 0) errors.salesWindows = 'Add at least one sales window.';
+      const eventStart = form.eventDate ? new Date(form.eventDate) : null;
+      form.salesWindows.forEach((window, index) => {
+        const prefix = `salesWindows.${index}`;
+        if (!window.name.trim()) errors[`${prefix}.name`] = 'Name this sales window.';
+        if (!window.startsAt) errors[`${prefix}.startsAt`] = 'Choose when sales open.';
+        if (!window.endsAt) errors[`${prefix}.endsAt`] = 'Choose when sales close.';
+        if (window.startsAt && window.endsAt && new Date(window.endsAt) <= new Date(window.startsAt))
+          errors[`${prefix}.endsAt`] = 'Sales must close after they open.';
+        else if (eventStart && window.endsAt && new Date(window.endsAt) > eventStart)
+          errors[`${prefix}.endsAt`] = 'Sales must close by the time the event starts.';
+        const unknownZone = window.zones.find((zone) => !form.pricingZones[zone]);
+        if (unknownZone) errors[`${prefix}.zones`] = `Section ${unknownZone} has no price zone.`;
+      });
+      break;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * First step with errors, or null when the whole form can be submitted
+ */
+export function firstInvalidStep(form: EventForm, venue: Venue | undefined, now = new Date()): WizardStep | null {
+  return WIZARD_STEPS.find(({ id }) => Object.keys(validateStep(id, form, venue, now)).length > 0)?.id ?? null;
+}
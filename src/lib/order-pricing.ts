@@ -0,0 +1,17 @@
+import type { OrderBreakdown, OrderQuote } from '../services/api';
+
+/**
+ * Whether two server price breakdowns disagree, e.g. a quote and the order it turned into
+ */
+export const breakdownDiffers = (quoted: OrderBreakdown, charged: OrderBreakdown) =>
+  Math.abs(quoted.total - charged.total) >= 0.01 ||
+  Math.abs((quoted.discount ?? 0) - (charged.discount ?? 0)) >= 0.01;
+
+/**
+ * "Tax (CA 8.25%)" style label, falling back to plain "Tax" when the quote has no jurisdiction
+ */
+export function taxLabel(quote: Pick<OrderQuote, 'taxJurisdiction' | 'taxRate'> | null | undefined): string {
+  if (!quote?.taxJurisdiction) return 'Tax';
+  const rate = quote.taxRate !== undefined ? ` ${(quote.taxRate * 100).toFixed(2)}%` : '';
+  return `Tax (${quote.taxJurisdiction}${rate})`;
+}
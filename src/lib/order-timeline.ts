@@ -0,0 +1,66 @@
+import type { Order } from '../services/api';
+
+/**
+ * What a buyer sees of an order's lifecycle: when it was placed, paid for and
+ * turned into tickets, and whether it was refunded or cancelled since.
+ */
+
+export type OrderTimelineStepKey = 'created' | 'paid' | 'finalized' | 'refunded' | 'cancelled';
+
+export interface OrderTimelineStep {
+  key: OrderTimelineStepKey;
+  label: string;
+  done: boolean;
+  // Missing for steps not reached yet, and for older orders that predate the timestamps
+  at?: string;
+}
+
+export const orderEventInfo = (order: Order) =>
+  typeof order.eventId === 'string'
+    ? { id: order.eventId, title: 'Event', eventDate: undefined, venueName: undefined }
+    : {
+        id: order.eventId._id,
+        title: order.eventId.title,
+        eventDate: order.eventId.eventDate,
+        venueName: order.eventId.venueName,
+      };
+
+export const isOrderRefunded = (order: Order) => order.status === 'refunded' || !!order.refundedAt;
+
+export const isOrderCancelled = (order: Order) => order.status === 'cancelled' || !!order.cancelledAt;
+
+// A refunded order was paid first; orders without a status only have Stripe's payment status
+const wasPaid = (order: Order) =>
+  !!order.paidAt ||
+  order.status === 'paid' ||
+  isOrderRefunded(order) ||
+  (!order.status && order.paymentStatus === 'succeeded');
+
+export function orderStatusLabel(order: Order): string {
+  if (isOrderRefunded(order)) return 'Refunded';
+  if (isOrderCancelled(order)) return 'Cancelled';
+  if (order.ticketIds.length > 0) return 'Tickets issued';
+  return wasPaid(order) ? 'Paid' : 'Awaiting payment';
+}
+
+export function orderTimeline(order: Order): OrderTimelineStep[] {
+  const steps: OrderTimelineStep[] = [
+    { key: 'created', label: 'Order placed', done: true, at: order.createdAt },
+    { key: 'paid', label: 'Payment received', done: wasPaid(order), at: order.paidAt },
+    {
+      key: 'finalized',
+      label: 'Tickets issued',
+      done: !!order.finalizedAt || order.ticketIds.length > 0,
+      at: order.finalizedAt,
+    },
+  ];
+
+  const closing: OrderTimelineStep | null = isOrderRefunded(order)
+    ? { key: 'refunded', label: 'Refunded', done: true, at: order.refundedAt }
+    : isOrderCancelled(order)
+      ? { key: 'cancelled', label: 'Cancelled', done: true, at: order.cancelledAt }
+      : null;
+
+  // Steps a refunded or cancelled order never reached are dropped rather than shown as pending
+  return closing ? [...steps.filter((step) => step.done), closing] : steps;
+}
@@ -0,0 +1,165 @@
+import type { Event, EventPricingConfig, PricingZone, SeatPlanSeat } from '../services/api';
+
+/**
+ * Pure helpers for pricing zones: resolving a seat's zone and price for
+ * buyers, and for the admin editor assigning sections or individual seats
+ * and keeping zone inventory in line with the seats assigned to them.
+ */
+
+export const ZONE_COLORS = ['#2563eb', '#16a34a', '#d97706', '#db2777', '#7c3aed', '#0891b2', '#dc2626', '#65a30d'];
+
+export const UNASSIGNED_COLOR = '#d1d5db';
+
+export const ZONE_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD'];
+
+export function pricingConfigFromEvent(event: Event): EventPricingConfig {
+  return {
+    pricingZones: event.pricingZones,
+    sectionZones: event.sectionZones ?? {},
+    seatZones: event.seatZones ?? {},
+  };
+}
+
+/**
+ * Zone key for a seat, or null when it resolves to a zone that doesn't exist
+ */
+export function zoneKeyForSeat(config: EventPricingConfig, seat: SeatPlanSeat): string | null {
+  const key = config.seatZones[seat.id] ?? config.sectionZones[seat.section] ?? seat.section;
+  return config.pricingZones[key] ? key : null;
+}
+
+/**
+ * Zone a section as a whole is priced in; single seats inside it may be overridden
+ */
+export function zoneKeyForSection(config: EventPricingConfig, sectionCode: string): string | null {
+  const key = config.sectionZones[sectionCode] ?? sectionCode;
+  return config.pricingZones[key] ? key : null;
+}
+
+/**
+ * Price of a seat in its zone, 0 when it is in no zone
+ */
+export function seatPrice(config: EventPricingConfig, seat: SeatPlanSeat): number {
+  const key = zoneKeyForSeat(config, seat);
+  return key ? config.pricingZones[key].price : 0;
+}
+
+export const zoneColor = (config: EventPricingConfig, zoneKey: string | null) => {
+  if (!zoneKey) return UNASSIGNED_COLOR;
+  const index = Object.keys(config.pricingZones).indexOf(zoneKey);
+  return index < 0 ? UNASSIGNED_COLOR : ZONE_COLORS[index % ZONE_COLORS.length];
+};
+
+/**
+ * First unused key of the form Z1, Z2, …
+ */
+export function nextZoneKey(config: EventPricingConfig): string {
+  let n = Object.keys(config.pricingZones).length + 1;
+  while (config.pricingZones[`Z${n}`]) n += 1;
+  return `Z${n}`;
+}
+
+export function addZone(config: EventPricingConfig, zone: PricingZone): EventPricingConfig {
+  return { ...config, pricingZones: { ...config.pricingZones, [nextZoneKey(config)]: zone } };
+}
+
+export function updateZone(config: EventPricingConfig, key: string, patch: Partial<PricingZone>): EventPricingConfig {
+  return { ...config, pricingZones: { ...config.pricingZones, [key]: { ...config.pricingZones[key], ...patch } } };
+}
+
+const withoutValue = (record: Record<string, string>, value: string) =>
+  Object.fromEntries(Object.entries(record).filter(([, zone]) => zone !== value));
+
+/**
+ * Delete a zone along with every assignment pointing at it
+ */
+export function removeZone(config: EventPricingConfig, key: string): EventPricingConfig {
+  return {
+    pricingZones: Object.fromEntries(Object.entries(config.pricingZones).filter(([zoneKey]) => zoneKey !== key)),
+    sectionZones: withoutValue(config.sectionZones, key),
+    seatZones: withoutValue(config.seatZones, key),
+  };
+}
+
+/**
+ * Put a whole section in a zone. Seat-level overrides inside the section are
+ * cleared so the section ends up uniformly priced.
+ */
+export function assignSection(
+  config: EventPricingConfig,
+  seats: SeatPlanSeat[],
+  sectionCode: string,
+  zoneKey: string
+): EventPricingConfig {
+  const sectionSeatIds = new Set(seats.filter((seat) => seat.section === sectionCode).map((seat) => seat.id));
+  return {
+    ...config,
+    sectionZones: { ...config.sectionZones, [sectionCode]: zoneKey },
+    seatZones: Object.fromEntries(Object.entries(config.seatZones).filter(([seatId]) => !sectionSeatIds.has(seatId))),
+  };
+}
+
+/**
+ * Override the zone of individual seats. Overrides that match the seat's
+ * section zone are dropped so the config stays minimal.
+ */
+export function assignSeats(
+  config: EventPricingConfig,
+  seats: SeatPlanSeat[],
+  seatIds: Set<string>,
+  zoneKey: string
+): EventPricingConfig {
+  const seatZones = { ...config.seatZones };
+  seats.forEach((seat) => {
+    if (!seatIds.has(seat.id)) return;
+    const sectionZone = config.sectionZones[seat.section] ?? seat.section;
+    if (sectionZone === zoneKey) delete seatZones[seat.id];
+    else seatZones[seat.id] = zoneKey;
+  });
+  return { ...config, seatZones };
+}
+
+/**
+ * Seats per zone, plus the seats that resolve to no zone at all
+ */
+export function countSeatsByZone(config: EventPricingConfig, seats: SeatPlanSeat[]) {
+  const counts: Record<string, number> = Object.fromEntries(Object.keys(config.pricingZones).map((key) => [key, 0]));
+  let unassigned = 0;
+  seats.forEach((seat) => {
+    const key = zoneKeyForSeat(config, seat);
+    if (key) counts[key] += 1;
+    else unassigned += 1;
+  });
+  return { counts, unassigned };
+}
+
+/**
+ * Config ready to save: every zone's `available` is the number of its seats
+ * still on sale. Buyers see `available` as remaining inventory, so sold and
+ * held seats are left out of it.
+ */
+export function withSeatCounts(config: EventPricingConfig, seats: SeatPlanSeat[]): EventPricingConfig {
+  const { counts } = countSeatsByZone(config, seats.filter((seat) => seat.status === 'available'));
+  return {
+    ...config,
+    pricingZones: Object.fromEntries(
+      Object.entries(config.pricingZones).map(([key, zone]) => [key, { ...zone, available: counts[key] }])
+    ),
+  };
+}
+
+export function validatePricingConfig(config: EventPricingConfig, seats: SeatPlanSeat[]): string[] {
+  const errors: string[] = [];
+  const zones = Object.entries(config.pricingZones);
+  if (zones.length === 0) errors.push('Add at least one pricing zone.');
+  zones.forEach(([key, zone]) => {
+    if (!zone.name.trim()) errors.push(`Zone ${key} needs a name.`);
+    if (!Number.isFinite(zone.price) || zone.price < 0) errors.push(`${zone.name || key} needs a price of 0 or more.`);
+  });
+  const { counts, unassigned } = countSeatsByZone(config, seats);
+  if (unassigned > 0) errors.push(`${unassigned} seats are not in any zone.`);
+  zones.forEach(([key, zone]) => {
+    if (counts[key] === 0) errors.push(`${zone.name || key} has no seats assigned.`);
+  });
+  return errors;
+}
@@ -0,0 +1,107 @@
+import type { Order, RefundPolicy, RefundReason, RefundRequest, Ticket, TicketTransfer } from '../services/api';
+import { isOrderCancelled, isOrderRefunded } from './order-timeline';
+import { orderTicketCount } from './sales-analytics';
+
+/**
+ * Refund estimates shown to buyers before they request one. The backend
+ * computes the amount actually refunded with the same policy, so these only
+ * need to agree with it, not replace it.
+ */
+
+// Applied to events that were published before refund policies existed
+export const DEFAULT_REFUND_POLICY: RefundPolicy = {
+  tiers: [
+    { hoursBefore: 7 * 24, percent: 100 },
+    { hoursBefore: 48, percent: 50 },
+  ],
+  refundFees: false,
+};
+
+export const REFUND_REASONS: { value: RefundReason; label: string }[] = [
+  { value: 'cant_attend', label: "I can't attend" },
+  { value: 'event_changed', label: 'The event changed (date, venue or lineup)' },
+  { value: 'duplicate_purchase', label: 'I bought these tickets twice' },
+  { value: 'other', label: 'Something else' },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Percent of the ticket price refunded for a request made at `now`
+ */
+export function refundPercent(policy: RefundPolicy, eventDate: string, now = new Date()): number {
+  const hoursUntilEvent = (Date.parse(eventDate) - now.getTime()) / HOUR_MS;
+  const tier = [...policy.tiers]
+    .sort((a, b) => b.hoursBefore - a.hoursBefore)
+    .find((candidate) => hoursUntilEvent >= candidate.hoursBefore);
+  return tier?.percent ?? 0;
+}
+
+export function describeRefundPolicy(policy: RefundPolicy): string[] {
+  const tiers = [...policy.tiers].sort((a, b) => b.hoursBefore - a.hoursBefore);
+  const lines = tiers.map((tier) => {
+    const notice = tier.hoursBefore % 24 === 0 ? `${tier.hoursBefore / 24} days` : `${tier.hoursBefore} hours`;
+    return `${tier.percent}% back until ${notice} before the event`;
+  });
+  lines.push(tiers.length > 0 ? 'No refunds after that' : 'Tickets for this event are not refundable');
+  if (!policy.refundFees) lines.push('Booking fees are not refunded');
+  return lines;
+}
+
+/**
+ * Amount refunded for some of an order's tickets, or all of it when
+ * `ticketCount` is omitted. Each ticket counts as an even share of the order,
+ * whatever its seat cost, so a partial estimate is an average and should be
+ * shown as one.
+ */
+export function estimateRefund(
+  order: Order,
+  policy: RefundPolicy,
+  eventDate: string,
+  ticketCount?: number,
+  now = new Date()
+): { percent: number; amount: number } {
+  const { subtotal, discount = 0, tax, fees } = order.breakdown;
+  const share = ticketCount === undefined ? 1 : ticketCount / Math.max(orderTicketCount(order), 1);
+  const percent = refundPercent(policy, eventDate, now);
+  const refundable = subtotal - discount + tax + (policy.refundFees ? fees : 0);
+  return { percent, amount: roundCents(refundable * share * (percent / 100)) };
+}
+
+/**
+ * Whether a ticket is part of a request waiting for a decision; a request
+ * without tickets covers the whole order.
+ */
+export const isRefundPending = (ticket: Ticket, requests: RefundRequest[]) =>
+  requests.some(
+    (request) =>
+      request.status === 'pending' && (request.ticketIds.length === 0 || request.ticketIds.includes(ticket._id))
+  );
+
+// A claimed transfer already sets the ticket's transferredAt; a pending one can still be claimed
+const isTransferPending = (ticket: Ticket, transfers: TicketTransfer[]) =>
+  transfers.some((transfer) => transfer.ticketId === ticket._id && transfer.status === 'pending');
+
+/**
+ * Tickets that can still be put in a refund request: not refunded or
+ * transferred away yet, not on their way to someone else, and not part of a
+ * request waiting for a decision.
+ */
+export function refundableTickets(order: Order, requests: RefundRequest[], transfers: TicketTransfer[]): Ticket[] {
+  return order.ticketIds.filter(
+    (ticket) =>
+      !ticket.refundedAt &&
+      !ticket.transferredAt &&
+      !isTransferPending(ticket, transfers) &&
+      !isRefundPending(ticket, requests)
+  );
+}
+
+export function canRequestRefund(order: Order, requests: RefundRequest[], transfers: TicketTransfer[]): boolean {
+  if (isOrderRefunded(order) || isOrderCancelled(order)) return false;
+  if (order.ticketIds.length > 0) return refundableTickets(order, requests, transfers).length > 0;
+  // Paid but tickets not issued yet: only the whole order can be refunded
+  return order.status === 'paid' && !requests.some((request) => request.status === 'pending');
+}
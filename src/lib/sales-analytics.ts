@@ -0,0 +1,185 @@
+import type { EventType, Order } from '../services/api';
+
+/**
+ * Sales aggregation for the admin analytics tab.
+ *
+ * Works on the raw order list so every number on screen can be traced back
+ * to orders. Dates are bucketed in the browser's local time zone; ranges are
+ * inclusive calendar days written as YYYY-MM-DD, the format of <input type="date">.
+ */
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface SalesBucket {
+  key: string;
+  label: string;
+  revenue: number;
+  tickets: number;
+  orders: number;
+}
+
+export interface RankedSales {
+  id: string;
+  name: string;
+  revenue: number;
+  tickets: number;
+}
+
+export interface SalesSummary {
+  revenue: number;
+  orders: number;
+  ticketsSold: number;
+  averageTicketPrice: number;
+  series: SalesBucket[];
+  topEvents: RankedSales[];
+  topCategories: RankedSales[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday
+const startOfBucket = (date: Date, granularity: Granularity) => {
+  if (granularity === 'month') return new Date(date.getFullYear(), date.getMonth(), 1);
+  if (granularity === 'week') return addDays(date, -((date.getDay() + 6) % 7));
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+const nextBucket = (start: Date, granularity: Granularity) =>
+  granularity === 'month'
+    ? new Date(start.getFullYear(), start.getMonth() + 1, 1)
+    : addDays(start, granularity === 'week' ? 7 : 1);
+
+const bucketLabel = (start: Date, granularity: Granularity) =>
+  granularity === 'month'
+    ? start.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+    : start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+/**
+ * Range covering the last `days` days, ending today
+ */
+export function lastDays(days: number, today = new Date()): DateRange {
+  return { from: toDateKey(addDays(today, -(days - 1))), to: toDateKey(today) };
+}
+
+/**
+ * Range of the same length ending the day before `range` starts
+ */
+export function previousPeriod(range: DateRange): DateRange {
+  const from = parseDateKey(range.from);
+  const days = Math.round((parseDateKey(range.to).getTime() - from.getTime()) / DAY_MS) + 1;
+  return { from: toDateKey(addDays(from, -days)), to: toDateKey(addDays(from, -1)) };
+}
+
+/**
+ * Relative change in percent, or null when there is nothing to compare against
+ */
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / previous) * 100;
+}
+
+// Refunded and cancelled orders carry an explicit status; older orders only have the payment status
+export const isPaidOrder = (order: Order) =>
+  order.status ? order.status === 'paid' : order.paymentStatus === 'succeeded';
+
+// Issued tickets once finalized, otherwise the seats that were bought
+export const orderTicketCount = (order: Order) => order.ticketIds.length || order.seatIds.length;
+
+const orderEvent = (order: Order) =>
+  typeof order.eventId === 'string'
+    ? { id: order.eventId, title: order.eventId }
+    : { id: order.eventId._id, title: order.eventId.title };
+
+/**
+ * Revenue of every paid order, regardless of date
+ */
+export const totalRevenue = (orders: Order[]) =>
+  orders.filter(isPaidOrder).reduce((sum, order) => sum + order.breakdown.total, 0);
+
+const rank = (totals: Map<string, RankedSales>, limit: number) =>
+  [...totals.values()].sort((a, b) => b.revenue - a.revenue).slice(0, limit);
+
+const addTo = (totals: Map<string, RankedSales>, id: string, name: string, revenue: number, tickets: number) => {
+  const entry = totals.get(id) ?? { id, name, revenue: 0, tickets: 0 };
+  entry.revenue += revenue;
+  entry.tickets += tickets;
+  totals.set(id, entry);
+};
+
+/**
+ * Aggregate paid orders placed within `range`. Every bucket in the range is
+ * present in `series`, including empty ones, so charts keep a steady x axis.
+ * `eventTypes` maps event ids to their category; unknown events count as "other".
+ */
+export function summarizeSales(
+  orders: Order[],
+  range: DateRange,
+  granularity: Granularity,
+  eventTypes: Record<string, EventType> = {},
+  topLimit = 5
+): SalesSummary {
+  const from = parseDateKey(range.from);
+  const end = addDays(parseDateKey(range.to), 1);
+
+  const buckets = new Map<string, SalesBucket>();
+  for (let start = startOfBucket(from, granularity); start < end; start = nextBucket(start, granularity)) {
+    const key = toDateKey(start);
+    buckets.set(key, { key, label: bucketLabel(start, granularity), revenue: 0, tickets: 0, orders: 0 });
+  }
+
+  const events = new Map<string, RankedSales>();
+  const categories = new Map<string, RankedSales>();
+  let revenue = 0;
+  let ticketsSold = 0;
+  let orderCount = 0;
+
+  for (const order of orders) {
+    if (!isPaidOrder(order)) continue;
+    const placedAt = new Date(order.createdAt);
+    if (placedAt < from || placedAt >= end) continue;
+
+    const amount = order.breakdown.total;
+    const tickets = orderTicketCount(order);
+    revenue += amount;
+    ticketsSold += tickets;
+    orderCount += 1;
+
+    const bucket = buckets.get(toDateKey(startOfBucket(placedAt, granularity)));
+    if (bucket) {
+      bucket.revenue += amount;
+      bucket.tickets += tickets;
+      bucket.orders += 1;
+    }
+
+    const event = orderEvent(order);
+    const category = eventTypes[event.id] ?? 'other';
+    addTo(events, event.id, event.title, amount, tickets);
+    addTo(categories, category, category, amount, tickets);
+  }
+
+  return {
+    revenue,
+    orders: orderCount,
+    ticketsSold,
+    averageTicketPrice: ticketsSold > 0 ? revenue / ticketsSold : 0,
+    series: [...buckets.values()],
+    topEvents: rank(events, topLimit),
+    topCategories: rank(categories, topLimit),
+  };
+}
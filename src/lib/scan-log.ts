@@ -0,0 +1,101 @@
+import type { ScanLogEntry, TicketScanResult } from '../services/api';
+
+/**
+ * Entry-gate numbers computed from the scan log, so the backfilled history and
+ * scans streamed over the socket go through the same counting.
+ */
+
+// Newest scans kept in memory; the dashboard says when older ones were dropped
+export const SCAN_LOG_LIMIT = 2000;
+export const ENTRY_RATE_MINUTES = 30;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface ScanCounts {
+  total: number;
+  admitted: number;
+  // Tickets presented again after they were already admitted
+  duplicates: number;
+  wrongEvent: number;
+  notFound: number;
+}
+
+export interface ScanBreakdown extends ScanCounts {
+  key: string;
+  label: string;
+}
+
+export interface ScanLogSummary {
+  totals: ScanCounts;
+  byGate: ScanBreakdown[];
+  byScanner: ScanBreakdown[];
+  // Admissions per minute, oldest first, ending with the current minute
+  entriesPerMinute: { minute: Date; count: number }[];
+}
+
+const COUNT_FIELD: Record<TicketScanResult, Exclude<keyof ScanCounts, 'total'>> = {
+  valid: 'admitted',
+  already_used: 'duplicates',
+  wrong_event: 'wrongEvent',
+  not_found: 'notFound',
+};
+
+const emptyCounts = (): ScanCounts => ({ total: 0, admitted: 0, duplicates: 0, wrongEvent: 0, notFound: 0 });
+
+const addScan = (counts: ScanCounts, entry: ScanLogEntry) => {
+  counts.total += 1;
+  counts[COUNT_FIELD[entry.result]] += 1;
+};
+
+/**
+ * Add scans to the log without duplicates (a socket update can repeat a
+ * backfilled entry), newest first and capped at SCAN_LOG_LIMIT.
+ */
+export function mergeScanLog(existing: ScanLogEntry[], incoming: ScanLogEntry[]): ScanLogEntry[] {
+  const byId = new Map(existing.map((entry) => [entry._id, entry]));
+  incoming.forEach((entry) => byId.set(entry._id, entry));
+  return Array.from(byId.values())
+    .sort((a, b) => Date.parse(b.scannedAt) - Date.parse(a.scannedAt))
+    .slice(0, SCAN_LOG_LIMIT);
+}
+
+function breakdown(
+  entries: ScanLogEntry[],
+  keyOf: (entry: ScanLogEntry) => string,
+  labelOf: (entry: ScanLogEntry) => string
+): ScanBreakdown[] {
+  const groups = new Map<string, ScanBreakdown>();
+  entries.forEach((entry) => {
+    const key = keyOf(entry);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label: labelOf(entry), ...emptyCounts() };
+      groups.set(key, group);
+    }
+    addScan(group, entry);
+  });
+  return Array.from(groups.values()).sort((a, b) => b.total - a.total);
+}
+
+export function summarizeScanLog(entries: ScanLogEntry[], now = new Date()): ScanLogSummary {
+  const totals = emptyCounts();
+  entries.forEach((entry) => addScan(totals, entry));
+
+  const currentMinute = Math.floor(now.getTime() / MINUTE_MS);
+  const perMinute = new Array<number>(ENTRY_RATE_MINUTES).fill(0);
+  entries.forEach((entry) => {
+    if (entry.result !== 'valid') return;
+    const offset = currentMinute - Math.floor(Date.parse(entry.scannedAt) / MINUTE_MS);
+    if (offset >= 0 && offset < ENTRY_RATE_MINUTES) perMinute[ENTRY_RATE_MINUTES - 1 - offset] += 1;
+  });
+
+  return {
+    totals,
+    byGate: breakdown(entries, (entry) => entry.gate ?? '', (entry) => entry.gate || 'No gate set'),
+    byScanner: breakdown(entries, (entry) => entry.scannedBy._id, (entry) => entry.scannedBy.name),
+    entriesPerMinute: perMinute.map((count, index) => ({
+      minute: new Date((currentMinute - (ENTRY_RATE_MINUTES - 1 - index)) * MINUTE_MS),
+      count,
+    })),
+  };
+}
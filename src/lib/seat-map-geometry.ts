@@ -0,0 +1,125 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Pan/zoom state applied as `translate(x, y) scale(scale)` in SVG user units
+ */
+export interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 8;
+
+export const IDENTITY_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+export const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Bounding box of a set of points, or null when there are none
+ */
+export function getBounds(points: Point[]): Bounds | null {
+  if (points.length === 0) return null;
+  return points.reduce<Bounds>(
+    (acc, p) => ({
+      minX: Math.min(acc.minX, p.x),
+      minY: Math.min(acc.minY, p.y),
+      maxX: Math.max(acc.maxX, p.x),
+      maxY: Math.max(acc.maxY, p.y),
+    }),
+    { minX: points[0].x, minY: points[0].y, maxX: points[0].x, maxY: points[0].y }
+  );
+}
+
+export const padBounds = (bounds: Bounds, padding: number): Bounds => ({
+  minX: bounds.minX - padding,
+  minY: bounds.minY - padding,
+  maxX: bounds.maxX + padding,
+  maxY: bounds.maxY + padding,
+});
+
+/**
+ * Parse an SVG viewBox attribute ("minX minY width height") into bounds
+ */
+export function parseViewBox(viewBox: string | null | undefined): Bounds | null {
+  if (!viewBox) return null;
+  const parts = viewBox.trim().split(/[\s,]+/).map(Number);
+  if (parts.length !== 4 || parts.some((n) => Number.isNaN(n))) return null;
+  const [minX, minY, width, height] = parts;
+  return { minX, minY, maxX: minX + width, maxY: minY + height };
+}
+
+/**
+ * Zoom by `factor` while keeping `anchor` (in untransformed SVG units) fixed on screen
+ */
+export function zoomAt(view: ViewTransform, factor: number, anchor: Point): ViewTransform {
+  const scale = clamp(view.scale * factor, MIN_ZOOM, MAX_ZOOM);
+  const applied = scale / view.scale;
+  return {
+    scale,
+    x: anchor.x - (anchor.x - view.x) * applied,
+    y: anchor.y - (anchor.y - view.y) * applied,
+  };
+}
+
+/**
+ * View transform that makes `target` fill the `viewport`, centered
+ */
+export function fitBounds(target: Bounds, viewport: Bounds): ViewTransform {
+  const targetWidth = Math.max(target.maxX - target.minX, 1);
+  const targetHeight = Math.max(target.maxY - target.minY, 1);
+  const viewportWidth = viewport.maxX - viewport.minX;
+  const viewportHeight = viewport.maxY - viewport.minY;
+
+  const scale = clamp(Math.min(viewportWidth / targetWidth, viewportHeight / targetHeight), MIN_ZOOM, MAX_ZOOM);
+  const targetCenterX = (target.minX + target.maxX) / 2;
+  const targetCenterY = (target.minY + target.maxY) / 2;
+  const viewportCenterX = (viewport.minX + viewport.maxX) / 2;
+  const viewportCenterY = (viewport.minY + viewport.maxY) / 2;
+
+  return {
+    scale,
+    x: viewportCenterX - targetCenterX * scale,
+    y: viewportCenterY - targetCenterY * scale,
+  };
+}
+
+/**
+ * Seat marker radius derived from the tightest spacing between neighbouring seats
+ */
+export function estimateSeatRadius(points: Point[], fallback = 4): number {
+  if (points.length < 2) return fallback;
+  const sorted = [...points].sort((a, b) => a.y - b.y || a.x - b.x);
+  let minDistance = Infinity;
+  for (let i = 1; i < sorted.length; i++) {
+    const distance = Math.hypot(sorted[i].x - sorted[i - 1].x, sorted[i].y - sorted[i - 1].y);
+    if (distance > 0) minDistance = Math.min(minDistance, distance);
+  }
+  return Number.isFinite(minDistance) ? minDistance * 0.4 : fallback;
+}
+
+/**
+ * Ray-casting test for a point inside a (possibly concave) polygon
+ */
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
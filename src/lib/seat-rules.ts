@@ -0,0 +1,198 @@
+import type { EventSeatingRules, SeatPlanSeat, SeatRuleMode } from '../services/api';
+import { areSeatsAdjacent, groupSeatsByRow } from './best-available';
+
+/**
+ * Per-event seating rules. Kept free of UI concerns so the same checks can
+ * run in the buyer seat picker and in staff tools.
+ */
+export interface SeatRuleConfig {
+  orphanSeats: SeatRuleMode;
+  // Largest gap of free seats that counts as unsellable
+  maxOrphanSize: number;
+}
+
+// Events without their own rules only get a warning; blocking is opt-in per event
+export const DEFAULT_SEAT_RULES: SeatRuleConfig = {
+  orphanSeats: 'warn',
+  maxOrphanSize: 1,
+};
+
+export interface OrphanSeatViolation {
+  section: string;
+  row: string;
+  orphanSeatIds: string[];
+}
+
+export interface SeatRuleResult {
+  severity: 'none' | 'warn' | 'block';
+  violations: OrphanSeatViolation[];
+  // Closest selection of the same size that satisfies the rules, if one exists
+  suggestion: string[] | null;
+  message: string | null;
+}
+
+export const resolveSeatRules = (config?: EventSeatingRules): SeatRuleConfig => ({
+  orphanSeats: config?.orphanSeats ?? DEFAULT_SEAT_RULES.orphanSeats,
+  maxOrphanSize: config?.maxOrphanSize ?? DEFAULT_SEAT_RULES.maxOrphanSize,
+});
+
+// Maximal runs of free seats, broken by occupied seats and by gaps in seat numbering
+function freeRuns(row: SeatPlanSeat[], isOccupied: (seat: SeatPlanSeat) => boolean): number[][] {
+  const runs: number[][] = [];
+  let current: number[] = [];
+  row.forEach((seat, index) => {
+    const continues = current.length > 0 && areSeatsAdjacent(row[index - 1], seat);
+    if (isOccupied(seat)) {
+      if (current.length) runs.push(current);
+      current = [];
+      return;
+    }
+    if (!continues && current.length) {
+      runs.push(current);
+      current = [];
+    }
+    current.push(index);
+  });
+  if (current.length) runs.push(current);
+  return runs;
+}
+
+function rowOrphans(row: SeatPlanSeat[], selected: Set<string>, maxOrphanSize: number): SeatPlanSeat[][] {
+  const isOccupied = (seat: SeatPlanSeat) => selected.has(seat.id) || seat.status !== 'available';
+  const touchesSelection = (index: number) =>
+    index >= 0 && index < row.length && selected.has(row[index].id);
+
+  return freeRuns(row, isOccupied)
+    .filter((run) => run.length <= maxOrphanSize)
+    .filter((run) => {
+      const first = run[0];
+      const last = run[run.length - 1];
+      const beforeTouches = first > 0 && areSeatsAdjacent(row[first - 1], row[first]) && touchesSelection(first - 1);
+      const afterTouches =
+        last < row.length - 1 && areSeatsAdjacent(row[last], row[last + 1]) && touchesSelection(last + 1);
+      // A short gap next to one of our seats only exists because of this selection
+      return beforeTouches || afterTouches;
+    })
+    .map((run) => run.map((index) => row[index]));
+}
+
+/**
+ * Free seats the selection would strand, grouped by row
+ */
+export function findOrphanSeats(
+  seats: SeatPlanSeat[],
+  selectedIds: Iterable<string>,
+  maxOrphanSize = DEFAULT_SEAT_RULES.maxOrphanSize
+): OrphanSeatViolation[] {
+  const selected = new Set(selectedIds);
+  const violations: OrphanSeatViolation[] = [];
+
+  groupSeatsByRow(seats).forEach((rows, section) => {
+    rows.forEach((row, rowLabel) => {
+      if (!row.some((seat) => selected.has(seat.id))) return;
+      rowOrphans(row, selected, maxOrphanSize).forEach((orphans) => {
+        violations.push({ section, row: rowLabel, orphanSeatIds: orphans.map((seat) => seat.id) });
+      });
+    });
+  });
+
+  return violations;
+}
+
+// Slide the row's selected seats to the nearest window that leaves no orphan
+function suggestRowSelection(
+  row: SeatPlanSeat[],
+  selected: Set<string>,
+  maxOrphanSize: number
+): string[] | null {
+  const rowSelected = row.filter((seat) => selected.has(seat.id));
+  const size = rowSelected.length;
+  const start = row.indexOf(rowSelected[0]);
+  const usable = (seat: SeatPlanSeat) => seat.status === 'available' || selected.has(seat.id);
+
+  let best: { ids: string[]; distance: number } | null = null;
+  for (let i = 0; i + size <= row.length; i++) {
+    const window = row.slice(i, i + size);
+    if (!window.every(usable)) continue;
+    if (!window.every((seat, j) => j === 0 || areSeatsAdjacent(window[j - 1], seat))) continue;
+
+    const candidate = new Set(window.map((seat) => seat.id));
+    const candidateRow = row.map((seat) =>
+      selected.has(seat.id) && !candidate.has(seat.id) ? { ...seat, status: 'available' as const } : seat
+    );
+    if (rowOrphans(candidateRow, candidate, maxOrphanSize).length > 0) continue;
+
+    const distance = Math.abs(i - start);
+    if (!best || distance < best.distance) best = { ids: [...candidate], distance };
+  }
+
+  return best?.ids ?? null;
+}
+
+// Whether going from `previous` to `selected` only removed seats and stranded no seat that wasn't stranded already
+function isHarmlessDeselect(
+  seats: SeatPlanSeat[],
+  previous: Set<string>,
+  selected: Set<string>,
+  violations: OrphanSeatViolation[],
+  maxOrphanSize: number
+): boolean {
+  if (selected.size >= previous.size || [...selected].some((id) => !previous.has(id))) return false;
+  const strandedBefore = new Set(findOrphanSeats(seats, previous, maxOrphanSize).flatMap((v) => v.orphanSeatIds));
+  return violations.every((v) => v.orphanSeatIds.every((id) => strandedBefore.has(id)));
+}
+
+/**
+ * Check a proposed selection against the event's seating rules. Pass the
+ * current selection as `previousIds` so that deselecting seats is never
+ * blocked unless it strands a seat that wasn't stranded before; buyers must
+ * be able to back out of a selection that already breaks the rules.
+ */
+export function evaluateSeatSelection(
+  seats: SeatPlanSeat[],
+  selectedIds: Iterable<string>,
+  config: SeatRuleConfig = DEFAULT_SEAT_RULES,
+  previousIds?: Iterable<string>
+): SeatRuleResult {
+  const selected = new Set(selectedIds);
+  if (config.orphanSeats === 'off' || selected.size === 0) {
+    return { severity: 'none', violations: [], suggestion: null, message: null };
+  }
+
+  const violations = findOrphanSeats(seats, selected, config.maxOrphanSize);
+  if (violations.length === 0) {
+    return { severity: 'none', violations, suggestion: null, message: null };
+  }
+
+  // Rebuild the selection row by row, keeping rows without violations untouched
+  const grouped = groupSeatsByRow(seats);
+  const suggestion = new Set(selected);
+  let solvable = true;
+  const seen = new Set<string>();
+  violations.forEach(({ section, row }) => {
+    const key = `${section}\u0000${row}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const rowSeats = grouped.get(section)!.get(row)!;
+    const replacement = suggestRowSelection(rowSeats, selected, config.maxOrphanSize);
+    if (!replacement) {
+      solvable = false;
+      return;
+    }
+    rowSeats.forEach((seat) => suggestion.delete(seat.id));
+    replacement.forEach((id) => suggestion.add(id));
+  });
+
+  const stranded = violations.reduce((sum, v) => sum + v.orphanSeatIds.length, 0);
+  const downgrade =
+    config.orphanSeats === 'block' &&
+    !!previousIds &&
+    isHarmlessDeselect(seats, new Set(previousIds), selected, violations, config.maxOrphanSize);
+  return {
+    severity: downgrade ? 'warn' : config.orphanSeats,
+    violations,
+    suggestion: solvable ? [...suggestion] : null,
+    message: `This selection would leave ${stranded} isolated seat${stranded === 1 ? '' : 's'} that cannot be sold.`,
+  };
+}
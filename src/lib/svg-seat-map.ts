@@ -0,0 +1,305 @@
+import type { SvgSeatRecord, VenueSection } from '../services/api';
+
+/**
+ * Browser-side parsing of uploaded venue SVGs into seat records.
+ *
+ * A seat is recognised from, in order of preference:
+ * - data attributes: `data-section`, `data-row`, `data-seat`
+ * - its id: `SEC_A-R3-S12`, `A-R3-S12`, `A_ROW3_SEAT12`
+ * - an id without a section (`R3-S12`) inside a group whose id names the
+ *   section (`SEC_A`, `section-A`, or just `A`)
+ *
+ * Coordinates are read from the element's own attributes; transforms on
+ * parent groups are not applied.
+ */
+
+export const MAX_SVG_BYTES = 5 * 1024 * 1024;
+
+export interface ParsedSvgSeat {
+  elementId: string | null;
+  // Id of the nearest enclosing <g>, used to map whole groups to sections
+  groupId: string | null;
+  section: string | null;
+  row: string;
+  seat: string;
+  x?: number;
+  y?: number;
+}
+
+export interface SvgParseIssue {
+  elementId: string | null;
+  tag: string;
+  reason: string;
+}
+
+export interface SvgSeatGroup {
+  groupId: string | null;
+  seatCount: number;
+  // Distinct sections detected on the group's seats
+  sections: string[];
+}
+
+export interface SvgSeatMapParse {
+  viewBox: string | null;
+  seats: ParsedSvgSeat[];
+  issues: SvgParseIssue[];
+  duplicateIds: string[];
+  groups: SvgSeatGroup[];
+}
+
+/**
+ * Section code and display name an admin assigns to a group. An empty code
+ * keeps the sections detected on the seats themselves.
+ */
+export interface SectionMapping {
+  sectionCode: string;
+  name: string;
+}
+
+const FULL_SEAT_ID = /^(?:SEC(?:TION)?[-_])?([A-Za-z0-9]+)[-_]R(?:OW)?[-_]?([A-Za-z0-9]+)[-_]S(?:EAT)?[-_]?(\d+)$/i;
+const ROW_SEAT_ID = /^R(?:OW)?[-_]?([A-Za-z0-9]+)[-_]S(?:EAT)?[-_]?(\d+)$/i;
+const SECTION_GROUP_ID = /^(?:SEC(?:TION)?[-_])?([A-Za-z0-9]+)$/i;
+
+// Shapes that are almost always seats when they carry an id
+const SEAT_SHAPES = new Set(['circle', 'ellipse', 'use']);
+
+const isExplicitSeat = (element: Element) =>
+  element.hasAttribute('data-seat') || element.hasAttribute('data-seat-id') || element.classList.contains('seat');
+
+const numberAttr = (element: Element, name: string) => {
+  const value = element.getAttribute(name);
+  if (value === null) return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+function seatCenter(element: Element): { x?: number; y?: number } {
+  switch (element.tagName.toLowerCase()) {
+    case 'circle':
+    case 'ellipse':
+      return { x: numberAttr(element, 'cx'), y: numberAttr(element, 'cy') };
+    case 'rect': {
+      const x = numberAttr(element, 'x') ?? 0;
+      const y = numberAttr(element, 'y') ?? 0;
+      return { x: x + (numberAttr(element, 'width') ?? 0) / 2, y: y + (numberAttr(element, 'height') ?? 0) / 2 };
+    }
+    default:
+      return { x: numberAttr(element, 'x'), y: numberAttr(element, 'y') };
+  }
+}
+
+const enclosingGroup = (element: Element) => {
+  for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+    if (parent.tagName.toLowerCase() === 'g' && parent.id) return parent;
+  }
+  return null;
+};
+
+const sectionFromGroup = (group: Element | null) => group?.id.match(SECTION_GROUP_ID)?.[1] ?? null;
+
+/**
+ * Seat position parsed from an element, or the reason it could not be
+ */
+function readSeat(element: Element): Omit<ParsedSvgSeat, 'elementId' | 'groupId' | 'x' | 'y'> | string {
+  const id = element.getAttribute('data-seat-id') || element.id;
+  const full = id.match(FULL_SEAT_ID);
+  const partial = full ? null : id.match(ROW_SEAT_ID);
+
+  const section = element.getAttribute('data-section') || full?.[1] || sectionFromGroup(enclosingGroup(element));
+  const row = element.getAttribute('data-row') || full?.[2] || partial?.[1];
+  const seat = element.getAttribute('data-seat') || full?.[3] || partial?.[2];
+
+  if (!row || !seat) return id ? `"${id}" does not follow the SEC_A-R3-S12 convention` : 'Seat has no id or data-row/data-seat';
+  return { section, row, seat };
+}
+
+/**
+ * Walk a parsed SVG document and collect seats, problems and groups
+ */
+export function extractSeats(svg: Element): SvgSeatMapParse {
+  const seats: ParsedSvgSeat[] = [];
+  const issues: SvgParseIssue[] = [];
+  const seenIds = new Set<string>();
+  const duplicateIds = new Set<string>();
+
+  svg.querySelectorAll('*').forEach((element) => {
+    const tag = element.tagName.toLowerCase();
+    if (tag === 'g' || tag === 'svg') return;
+    const looksLikeSeat =
+      isExplicitSeat(element) ||
+      (!!element.id && (SEAT_SHAPES.has(tag) || FULL_SEAT_ID.test(element.id) || ROW_SEAT_ID.test(element.id)));
+    if (!looksLikeSeat) return;
+
+    const elementId = element.getAttribute('data-seat-id') || element.id || null;
+    if (elementId) {
+      if (seenIds.has(elementId)) duplicateIds.add(elementId);
+      seenIds.add(elementId);
+    }
+
+    const parsed = readSeat(element);
+    if (typeof parsed === 'string') {
+      issues.push({ elementId, tag, reason: parsed });
+      return;
+    }
+    seats.push({ ...parsed, elementId, groupId: enclosingGroup(element)?.id ?? null, ...seatCenter(element) });
+  });
+
+  const groups = new Map<string | null, SvgSeatGroup>();
+  seats.forEach((seat) => {
+    const group = groups.get(seat.groupId) ?? { groupId: seat.groupId, seatCount: 0, sections: [] };
+    group.seatCount += 1;
+    if (seat.section && !group.sections.includes(seat.section)) group.sections.push(seat.section);
+    groups.set(seat.groupId, group);
+  });
+
+  return {
+    viewBox: svg.getAttribute('viewBox'),
+    seats,
+    issues,
+    duplicateIds: Array.from(duplicateIds),
+    groups: Array.from(groups.values()),
+  };
+}
+
+/**
+ * Parse SVG markup. Throws when the file is not a well-formed SVG document.
+ */
+export function parseSeatMapSvg(markup: string): SvgSeatMapParse {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.querySelector('parsererror') || root.tagName.toLowerCase() !== 'svg') {
+    throw new Error('This file is not a valid SVG document.');
+  }
+  return extractSeats(root);
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Anything else is dropped with its children: scripts, embedded HTML, <style>, links, images and SMIL animation
+const ALLOWED_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+  'text', 'tspan',
+  'linearGradient', 'radialGradient', 'stop', 'pattern', 'clipPath', 'mask', 'marker',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'id', 'class', 'style', 'transform', 'viewBox', 'preserveAspectRatio', 'version', 'role', 'xml:space',
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'width', 'height', 'd', 'points',
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap',
+  'stroke-linejoin', 'stroke-dasharray', 'stroke-dashoffset', 'stroke-miterlimit', 'opacity', 'color',
+  'visibility', 'display', 'clip-path', 'clip-rule', 'mask', 'marker-start', 'marker-mid', 'marker-end',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'dominant-baseline',
+  'alignment-baseline', 'letter-spacing', 'dx', 'dy', 'rotate', 'textLength', 'lengthAdjust',
+  'offset', 'stop-color', 'stop-opacity', 'gradientUnits', 'gradientTransform', 'spreadMethod',
+  'patternUnits', 'patternContentUnits', 'patternTransform', 'clipPathUnits', 'maskUnits', 'maskContentUnits',
+  'markerWidth', 'markerHeight', 'markerUnits', 'refX', 'refY', 'orient',
+  'href', 'xlink:href',
+]);
+
+// Elements whose href points at another element, e.g. <use href="#seat">
+const REFERENCE_ELEMENTS = new Set(['use', 'linearGradient', 'radialGradient', 'pattern']);
+
+const CSS_URL = /url\s*\(\s*['"]?([^'")]*)/gi;
+
+// Browsers ignore whitespace and control characters inside URLs, so `java&#9;script:` still runs
+const normalizeUrl = (value: string) => value.replace(/[\u0000-\u0020\u007f-\u009f]/g, '').toLowerCase();
+
+// Only references into the same document are kept; they can neither run script nor load anything
+const isLocalReference = (value: string) => normalizeUrl(value).startsWith('#');
+
+function isSafeAttribute(element: Element, attribute: Attr): boolean {
+  const { name, value } = attribute;
+  if (name === 'xmlns' || name.startsWith('xmlns:')) return true;
+  if (name.startsWith('data-') || name.startsWith('aria-')) return true;
+  if (!ALLOWED_ATTRIBUTES.has(name)) return false;
+  if (name === 'href' || name === 'xlink:href') {
+    return REFERENCE_ELEMENTS.has(element.localName) && isLocalReference(value);
+  }
+  // CSS escapes could spell out a url() the check below does not see
+  if (name === 'style' && value.includes('\\')) return false;
+  return Array.from(value.matchAll(CSS_URL)).every((match) => isLocalReference(match[1]));
+}
+
+function sanitizeElement(element: Element) {
+  Array.from(element.attributes).forEach((attribute) => {
+    if (!isSafeAttribute(element, attribute)) element.removeAttribute(attribute.name);
+  });
+  Array.from(element.children).forEach((child) => {
+    if (child.namespaceURI === SVG_NS && ALLOWED_ELEMENTS.has(child.localName)) sanitizeElement(child);
+    else child.remove();
+  });
+}
+
+/**
+ * SVG markup reduced to an allowlist of drawing elements and attributes.
+ * The result is stored and later rendered as raw markup, so anything not
+ * known to be inert is removed rather than trying to spot what is dangerous.
+ * Throws when the file is not a well-formed SVG document.
+ */
+export function sanitizeSvg(markup: string): string {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.querySelector('parsererror') || root.namespaceURI !== SVG_NS || root.localName !== 'svg') {
+    throw new Error('This file is not a valid SVG document.');
+  }
+  sanitizeElement(root);
+  // The root alone: no doctype entities or stylesheet processing instructions
+  return new XMLSerializer().serializeToString(root);
+}
+
+/**
+ * Default mapping: a group whose seats all name the same section maps to it
+ */
+export const defaultSectionMapping = (group: SvgSeatGroup): SectionMapping => {
+  const sectionCode = group.sections.length === 1 ? group.sections[0] : '';
+  return { sectionCode, name: sectionCode ? `Section ${sectionCode}` : '' };
+};
+
+// Key of a group in the mappings record; ungrouped seats share the empty key
+export const mappingKey = (groupId: string | null) => groupId ?? '';
+
+export interface ResolvedSvgSeats {
+  seats: SvgSeatRecord[];
+  sections: VenueSection[];
+  // Seats that still have no section after mapping
+  unassigned: number;
+  // Seat ids produced by more than one element
+  conflicts: string[];
+}
+
+/**
+ * Apply group → section mappings and build the records sent to the API
+ */
+export function resolveSeats(parse: SvgSeatMapParse, mappings: Record<string, SectionMapping>): ResolvedSvgSeats {
+  const seats: SvgSeatRecord[] = [];
+  const sections = new Map<string, VenueSection>();
+  const seen = new Set<string>();
+  const conflicts = new Set<string>();
+  let unassigned = 0;
+
+  parse.seats.forEach((seat) => {
+    const mapping = mappings[mappingKey(seat.groupId)];
+    const sectionCode = mapping?.sectionCode.trim() || seat.section;
+    if (!sectionCode) {
+      unassigned += 1;
+      return;
+    }
+
+    const seatId = `${sectionCode}-${seat.row}-${seat.seat}`;
+    if (seen.has(seatId)) conflicts.add(seatId);
+    seen.add(seatId);
+
+    const section = sections.get(sectionCode) ?? {
+      sectionCode,
+      name: (mapping?.sectionCode.trim() && mapping.name.trim()) || `Section ${sectionCode}`,
+      capacity: 0,
+    };
+    section.capacity = (section.capacity ?? 0) + 1;
+    sections.set(sectionCode, section);
+
+    seats.push({ seatId, section: sectionCode, row: seat.row, seat: seat.seat, x: seat.x, y: seat.y });
+  });
+
+  return { seats, sections: Array.from(sections.values()), unassigned, conflicts: Array.from(conflicts) };
+}
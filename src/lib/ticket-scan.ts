@@ -0,0 +1,90 @@
+import type { StaffTicket, TicketScanResponse, TicketScanResult } from '../services/api';
+
+/**
+ * Door validation for staff scanning. The server decides scans while the
+ * scanner is online; these helpers decide them against cached ticket lists
+ * when it isn't, and turn raw QR payloads into ticket codes.
+ */
+
+export const SCAN_RESULT_LABELS: Record<TicketScanResult, string> = {
+  valid: 'VALID',
+  already_used: 'ALREADY USED',
+  wrong_event: 'WRONG EVENT',
+  not_found: 'NOT FOUND',
+};
+
+// Cached tickets of one event, keyed by ticket code
+export type TicketIndex = Record<string, StaffTicket>;
+
+export function indexTickets(tickets: StaffTicket[]): TicketIndex {
+  return Object.fromEntries(tickets.map((ticket) => [ticket.ticketCode, ticket]));
+}
+
+/**
+ * Ticket code carried by a scanned QR payload: a bare code, a URL with the code
+ * in its query or last path segment, or JSON with a `ticketCode` field.
+ */
+export function parseTicketCode(payload: string): string | null {
+  const trimmed = payload.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      return typeof parsed?.ticketCode === 'string' && parsed.ticketCode.trim() ? parsed.ticketCode.trim() : null;
+    } catch {
+      return null;
+    }
+  }
+
+  if (/^https?:\/\//i.test(trimmed)) {
+    try {
+      const url = new URL(trimmed);
+      const code =
+        url.searchParams.get('ticketCode') ??
+        url.searchParams.get('code') ??
+        decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() ?? '');
+      return code.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  return trimmed;
+}
+
+/**
+ * Decide a scan from cached tickets. Codes missing from this event's list but
+ * present in another cached event are reported as the wrong event; anything
+ * else unknown is not found, which may just mean it was sold after caching.
+ */
+export function validateOffline(
+  tickets: TicketIndex,
+  otherEvents: TicketIndex[],
+  ticketCode: string
+): TicketScanResponse {
+  const ticket = tickets[ticketCode];
+  if (ticket) return { result: ticket.checkedInAt ? 'already_used' : 'valid', ticket };
+
+  const elsewhere = otherEvents.map((index) => index[ticketCode]).find(Boolean);
+  return elsewhere ? { result: 'wrong_event', ticket: elsewhere } : { result: 'not_found' };
+}
+
+export function checkInTicket(tickets: TicketIndex, ticketCode: string, checkedInAt: string): TicketIndex {
+  const ticket = tickets[ticketCode];
+  return ticket ? { ...tickets, [ticketCode]: { ...ticket, checkedInAt } } : tickets;
+}
+
+/**
+ * Refreshed ticket list that keeps check-ins recorded locally but not yet
+ * synced, so a re-download can't make an admitted ticket look unused.
+ */
+export function mergeTicketList(fresh: StaffTicket[], local: TicketIndex, pendingCodes: Set<string>): TicketIndex {
+  return indexTickets(
+    fresh.map((ticket) =>
+      !ticket.checkedInAt && pendingCodes.has(ticket.ticketCode) && local[ticket.ticketCode]?.checkedInAt
+        ? { ...ticket, checkedInAt: local[ticket.ticketCode].checkedInAt }
+        : ticket
+    )
+  );
+}
@@ -0,0 +1,40 @@
+import type { Order, RefundRequest, Ticket, TicketTransfer, TicketTransferStatus } from '../services/api';
+import { isOrderCancelled, isOrderRefunded, orderEventInfo } from './order-timeline';
+import { isRefundPending } from './refund-policy';
+
+/**
+ * Where the tickets of an order stand with respect to transfers. A ticket has
+ * at most one transfer that isn't cancelled: the pending one, or the claimed
+ * one that moved it to someone else.
+ */
+
+export const TRANSFER_STATUS_LABELS: Record<TicketTransferStatus, string> = {
+  pending: 'Waiting to be claimed',
+  claimed: 'Claimed',
+  cancelled: 'Cancelled',
+};
+
+export const activeTransfer = (ticket: Ticket, transfers: TicketTransfer[]) =>
+  transfers.find((transfer) => transfer.ticketId === ticket._id && transfer.status !== 'cancelled');
+
+/**
+ * Whether the owner can still send a ticket on. Tickets waiting on a refund
+ * decision stay put, or an approved refund would pay back a ticket someone
+ * else now holds.
+ */
+export function canTransferTicket(
+  order: Order,
+  ticket: Ticket,
+  transfers: TicketTransfer[],
+  refundRequests: RefundRequest[],
+  now = new Date()
+) {
+  if (isOrderRefunded(order) || isOrderCancelled(order)) return false;
+  if (ticket.refundedAt || ticket.transferredAt || activeTransfer(ticket, transfers)) return false;
+  if (isRefundPending(ticket, refundRequests)) return false;
+  const { eventDate } = orderEventInfo(order);
+  return !eventDate || Date.parse(eventDate) > now.getTime();
+}
+
+export const transferRecipient = (transfer: TicketTransfer) =>
+  transfer.recipientName ? `${transfer.recipientName} (${transfer.recipientEmail})` : transfer.recipientEmail;
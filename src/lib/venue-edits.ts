@@ -0,0 +1,106 @@
+import type { VenueAddress, VenueDetail, VenueEventUsage, VenueUpdateInput } from '../services/api';
+
+/**
+ * Form model for editing an existing venue, and the checks that protect seats
+ * already sold against its current layout.
+ */
+
+export interface VenueSectionForm {
+  sectionCode: string;
+  name: string;
+  capacity: string;
+  // Codes of saved sections are fixed because sold seat ids are built from them
+  isNew: boolean;
+}
+
+export interface VenueForm {
+  name: string;
+  address: VenueAddress;
+  sections: VenueSectionForm[];
+  note: string;
+}
+
+export interface SoldSeatConflict {
+  event: VenueEventUsage;
+  sectionCode: string;
+  sold: number;
+  // null when the section is being removed
+  capacity: number | null;
+}
+
+// Events in these states no longer sell or admit anyone, so their seats can't be invalidated
+const SETTLED_STATUSES = new Set(['cancelled', 'completed', 'rejected']);
+
+export function venueToForm(venue: VenueDetail): VenueForm {
+  return {
+    name: venue.name,
+    address: { ...venue.address },
+    sections: venue.sections.map((section) => ({
+      sectionCode: section.sectionCode,
+      name: section.name,
+      capacity: section.capacity === undefined ? '' : String(section.capacity),
+      isNew: false,
+    })),
+    note: '',
+  };
+}
+
+export function formToVenueInput(form: VenueForm): VenueUpdateInput {
+  return {
+    name: form.name.trim(),
+    address: form.address,
+    sections: form.sections.map((section) => ({
+      sectionCode: section.sectionCode.trim(),
+      name: section.name.trim(),
+      capacity: section.capacity.trim() === '' ? undefined : Number(section.capacity),
+    })),
+    note: form.note.trim() || undefined,
+  };
+}
+
+export function validateVenueForm(form: VenueForm): string[] {
+  const errors: string[] = [];
+  if (!form.name.trim()) errors.push('Give the venue a name.');
+  if (form.sections.length === 0) errors.push('A venue needs at least one section.');
+
+  const codes = form.sections.map((section) => section.sectionCode.trim());
+  if (codes.some((code) => !code)) errors.push('Every section needs a code.');
+  new Set(codes.filter((code, index) => code && codes.indexOf(code) !== index)).forEach((code) =>
+    errors.push(`Section code ${code} is used more than once.`)
+  );
+
+  form.sections.forEach((section) => {
+    const capacity = section.capacity.trim();
+    if (!section.name.trim()) errors.push(`Section ${section.sectionCode || '(new)'} needs a name.`);
+    if (capacity !== '' && !(Number.isInteger(Number(capacity)) && Number(capacity) >= 0))
+      errors.push(`Section ${section.sectionCode || '(new)'} capacity must be a whole number.`);
+  });
+
+  return errors;
+}
+
+/**
+ * Sections an active event has sold seats in that the edit would remove or
+ * shrink below what was sold. Those events keep their current layout version.
+ */
+export function findSoldSeatConflicts(venue: VenueDetail, form: VenueForm): SoldSeatConflict[] {
+  const capacities = new Map(
+    form.sections.map((section) => [
+      section.sectionCode.trim(),
+      section.capacity.trim() === '' ? Infinity : Number(section.capacity),
+    ])
+  );
+
+  return venue.events
+    .filter((event) => event.layoutVersion === venue.layoutVersion && !SETTLED_STATUSES.has(event.status))
+    .flatMap((event) =>
+      Object.entries(event.soldBySection)
+        .filter(([sectionCode, sold]) => sold > 0 && (capacities.get(sectionCode) ?? -1) < sold)
+        .map(([sectionCode, sold]) => ({
+          event,
+          sectionCode,
+          sold,
+          capacity: capacities.has(sectionCode) ? capacities.get(sectionCode)! : null,
+        }))
+    );
+}
@@ -0,0 +1,143 @@
+import type { TheaterSection } from '../services/api';
+import type { Point } from './seat-map-geometry';
+
+/**
+ * Geometry for laying out theater sections on the admin venue canvas.
+ *
+ * A section's frame is the unrotated box from (startX, startY) that holds its
+ * seats; rotation turns the frame around its center. Seat spacing and row
+ * spacing are the gaps between neighbouring seats, so a seat's pitch is
+ * SEAT_SIZE plus that gap.
+ */
+
+export const SEAT_SIZE = 10;
+export const GRID_SIZE = 10;
+export const ROTATION_STEP = 15;
+
+export interface SectionFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+export const snapToGrid = (value: number, grid = GRID_SIZE) => Math.round(value / grid) * grid;
+
+const seatPitch = (section: TheaterSection) => SEAT_SIZE + section.seatSpacing;
+const rowPitch = (section: TheaterSection) => SEAT_SIZE + section.rowSpacing;
+
+// A center aisle takes the place of one seat
+const aisleWidth = (section: TheaterSection) => (section.hasAisle ? seatPitch(section) : 0);
+
+export function sectionFrame(section: TheaterSection): SectionFrame {
+  return {
+    x: section.startX,
+    y: section.startY,
+    width: section.seatsPerRow * seatPitch(section) - section.seatSpacing + aisleWidth(section),
+    height: section.rows * rowPitch(section) - section.rowSpacing,
+    rotation: section.rotation ?? 0,
+  };
+}
+
+const frameCenter = (frame: SectionFrame): Point => ({ x: frame.x + frame.width / 2, y: frame.y + frame.height / 2 });
+
+export function rotatePoint(point: Point, center: Point, degrees: number): Point {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+}
+
+/**
+ * Seat centers in canvas coordinates, row by row
+ */
+export function sectionSeatPositions(section: TheaterSection): Point[] {
+  const frame = sectionFrame(section);
+  const center = frameCenter(frame);
+  const aisleAfter = section.hasAisle ? Math.ceil(section.seatsPerRow / 2) : Infinity;
+  const seats: Point[] = [];
+  for (let row = 0; row < section.rows; row++) {
+    for (let seat = 0; seat < section.seatsPerRow; seat++) {
+      const local = {
+        x: frame.x + SEAT_SIZE / 2 + seat * seatPitch(section) + (seat >= aisleAfter ? aisleWidth(section) : 0),
+        y: frame.y + SEAT_SIZE / 2 + row * rowPitch(section),
+      };
+      seats.push(rotatePoint(local, center, frame.rotation));
+    }
+  }
+  return seats;
+}
+
+/**
+ * Corners of the rotated frame, clockwise from the top left
+ */
+export function sectionCorners(section: TheaterSection): Point[] {
+  const frame = sectionFrame(section);
+  const center = frameCenter(frame);
+  return [
+    { x: frame.x, y: frame.y },
+    { x: frame.x + frame.width, y: frame.y },
+    { x: frame.x + frame.width, y: frame.y + frame.height },
+    { x: frame.x, y: frame.y + frame.height },
+  ].map((corner) => rotatePoint(corner, center, frame.rotation));
+}
+
+/**
+ * Rows and seats per row that best fill a frame of the given size
+ */
+export function resizeSection(section: TheaterSection, width: number, height: number): TheaterSection {
+  const seatsWidth = width - aisleWidth(section);
+  return {
+    ...section,
+    seatsPerRow: Math.max(1, Math.round((seatsWidth + section.seatSpacing) / seatPitch(section))),
+    rows: Math.max(1, Math.round((height + section.rowSpacing) / rowPitch(section))),
+  };
+}
+
+/**
+ * Angle in degrees of `point` around `center`, measured from straight up
+ */
+export const angleFrom = (center: Point, point: Point) =>
+  (Math.atan2(point.y - center.y, point.x - center.x) * 180) / Math.PI + 90;
+
+export const normalizeAngle = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+const project = (polygon: Point[], axis: Point) => {
+  const values = polygon.map((p) => p.x * axis.x + p.y * axis.y);
+  return { min: Math.min(...values), max: Math.max(...values) };
+};
+
+/**
+ * Separating axis test for two convex polygons. Touching edges do not count.
+ */
+export function polygonsOverlap(a: Point[], b: Point[]): boolean {
+  for (const polygon of [a, b]) {
+    for (let i = 0; i < polygon.length; i++) {
+      const next = polygon[(i + 1) % polygon.length];
+      const axis = { x: -(next.y - polygon[i].y), y: next.x - polygon[i].x };
+      const pa = project(a, axis);
+      const pb = project(b, axis);
+      // Small tolerance so sections snapped edge to edge aren't flagged by float error
+      const tolerance = 1e-6 * Math.hypot(axis.x, axis.y);
+      if (pa.max <= pb.min + tolerance || pb.max <= pa.min + tolerance) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Index pairs of sections whose frames overlap
+ */
+export function findOverlappingSections(sections: TheaterSection[]): [number, number][] {
+  const corners = sections.map(sectionCorners);
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < corners.length; i++) {
+    for (let j = i + 1; j < corners.length; j++) {
+      if (polygonsOverlap(corners[i], corners[j])) pairs.push([i, j]);
+    }
+  }
+  return pairs;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { StadiumSection } from '../services/api';
+import { defaultTemplateConfigs, validateTemplateConfig } from './venue-templates';
+
+const stadiumWith = (arcs: [number, number][]) => ({
+  ...defaultTemplateConfigs.stadium,
+  sections: arcs.map(
+    ([startAngle, endAngle], index): StadiumSection => ({
+      sectionCode: `${101 + index}`,
+      name: `Section ${101 + index}`,
+      tierCode: 'T1',
+      startAngle,
+      endAngle,
+    })
+  ),
+});
+
+const overlaps = (arcs: [number, number][]) =>
+  validateTemplateConfig(stadiumWith(arcs)).filter((error) => error.includes('overlap'));
+
+describe('validateTemplateConfig stadium arcs', () => {
+  it('accepts the default layout', () => {
+    expect(validateTemplateConfig(defaultTemplateConfigs.stadium)).toEqual([]);
+  });
+
+  it('compares angles on one turn of the circle', () => {
+    expect(overlaps([[50, 60], [500, 510]])).toEqual([]);
+    expect(overlaps([[-40, 40], [320, 330]])).toHaveLength(1);
+  });
+
+  it('catches an arc that wraps past 360 into the first section', () => {
+    expect(overlaps([[0, 30], [340, 370]])).toHaveLength(1);
+    expect(overlaps([[0, 30], [330, 360]])).toEqual([]);
+  });
+
+  it('catches sections that overlap after normalizing', () => {
+    expect(overlaps([[10, 40], [390, 400]])).toHaveLength(1);
+  });
+});
@@ -0,0 +1,232 @@
+import type {
+  GeneralAdmissionArea,
+  StadiumSection,
+  StadiumTier,
+  TheaterSection,
+  VenueTemplateConfig,
+  VenueTemplateType,
+} from '../services/api';
+import { findOverlappingSections } from './venue-layout';
+
+/**
+ * Starting configs and client-side checks for the admin venue template editors.
+ * The server generates the actual seat map; the estimates here only let the
+ * admin see roughly what a layout holds before asking for a preview.
+ */
+
+export type TemplateConfigOf<T extends VenueTemplateType> = Extract<VenueTemplateConfig, { templateType: T }>;
+
+export type TemplateConfigs = { [T in VenueTemplateType]: TemplateConfigOf<T> };
+
+export const newTheaterSection = (index: number): TheaterSection => ({
+  sectionCode: `S${index + 1}`,
+  name: `Section ${index + 1}`,
+  rows: 4,
+  seatsPerRow: 10,
+  startX: 80,
+  startY: 150 + index * 160,
+  seatSpacing: 6,
+  rowSpacing: 10,
+});
+
+export const newStadiumTier = (index: number, previous?: StadiumTier): StadiumTier => ({
+  tierCode: `T${index + 1}`,
+  name: `Tier ${index + 1}`,
+  // Start just outside the previous ring so tiers never overlap by default
+  innerRadius: previous ? previous.innerRadius + previous.rows * previous.rowSpacing + 40 : 220,
+  rows: 10,
+  rowSpacing: 12,
+  seatSpacing: 10,
+});
+
+export const newStadiumSection = (index: number, tierCode: string): StadiumSection => ({
+  sectionCode: `${100 + index + 1}`,
+  name: `Section ${100 + index + 1}`,
+  tierCode,
+  startAngle: (index * 30) % 360,
+  endAngle: ((index * 30) % 360) + 30,
+});
+
+export const newGeneralAdmissionArea = (index: number): GeneralAdmissionArea => ({
+  sectionCode: `GA${index + 1}`,
+  name: index === 0 ? 'Floor' : `Area ${index + 1}`,
+  capacity: 500,
+  x: 80,
+  y: 120 + index * 220,
+  width: 400,
+  height: 180,
+});
+
+export const defaultTemplateConfigs: TemplateConfigs = {
+  theater: {
+    templateType: 'theater',
+    sections: [
+      {
+        sectionCode: 'A',
+        name: 'Orchestra',
+        rows: 6,
+        seatsPerRow: 12,
+        startX: 80,
+        startY: 120,
+        seatSpacing: 6,
+        rowSpacing: 10,
+        hasAisle: true,
+        aislePosition: 'center',
+      },
+      {
+        sectionCode: 'B',
+        name: 'Mezzanine',
+        rows: 4,
+        seatsPerRow: 10,
+        startX: 80,
+        startY: 320,
+        seatSpacing: 6,
+        rowSpacing: 10,
+      },
+    ],
+  },
+  stadium: {
+    templateType: 'stadium',
+    field: { width: 300, height: 200 },
+    tiers: [newStadiumTier(0)],
+    sections: [0, 1, 2, 3].map((index) => ({
+      sectionCode: `${101 + index}`,
+      name: ['North Stand', 'East Stand', 'South Stand', 'West Stand'][index],
+      tierCode: 'T1',
+      startAngle: index * 90 - 40,
+      endAngle: index * 90 + 40,
+    })),
+  },
+  general_admission: {
+    templateType: 'general_admission',
+    areas: [newGeneralAdmissionArea(0)],
+  },
+};
+
+const normalizeAngle = (angle: number) => ((angle % 360) + 360) % 360;
+
+const arcLength = (radius: number, startAngle: number, endAngle: number) =>
+  (radius * Math.PI * (endAngle - startAngle)) / 180;
+
+/**
+ * Seats that fit along each row of the section's arc, summed over the tier's rows
+ */
+export function estimateStadiumSectionSeats(section: StadiumSection, tier: StadiumTier | undefined): number {
+  if (!tier || tier.seatSpacing <= 0 || section.endAngle <= section.startAngle) return 0;
+  let seats = 0;
+  for (let row = 0; row < tier.rows; row++) {
+    const radius = tier.innerRadius + row * tier.rowSpacing;
+    seats += Math.floor(arcLength(radius, section.startAngle, section.endAngle) / tier.seatSpacing);
+  }
+  return seats;
+}
+
+/**
+ * Approximate capacity of a template; exact for theater and general admission
+ */
+export function estimateCapacity(config: VenueTemplateConfig): number {
+  switch (config.templateType) {
+    case 'theater':
+      return config.sections.reduce((sum, section) => sum + section.rows * section.seatsPerRow, 0);
+    case 'stadium':
+      return config.sections.reduce(
+        (sum, section) =>
+          sum + estimateStadiumSectionSeats(section, config.tiers.find((tier) => tier.tierCode === section.tierCode)),
+        0
+      );
+    case 'general_admission':
+      return config.areas.reduce((sum, area) => sum + area.capacity, 0);
+  }
+}
+
+const isPositiveInteger = (value: number) => Number.isInteger(value) && value > 0;
+
+const duplicates = (codes: string[]) => codes.filter((code, index) => codes.indexOf(code) !== index);
+
+/**
+ * Problems that would make the server reject the template, as readable messages
+ */
+export function validateTemplateConfig(config: VenueTemplateConfig): string[] {
+  const errors: string[] = [];
+  const sectionCodes =
+    config.templateType === 'general_admission'
+      ? config.areas.map((area) => area.sectionCode.trim())
+      : config.sections.map((section) => section.sectionCode.trim());
+
+  if (sectionCodes.length === 0) errors.push('Add at least one section.');
+  if (sectionCodes.some((code) => !code)) errors.push('Every section needs a code.');
+  new Set(duplicates(sectionCodes)).forEach((code) => errors.push(`Section code ${code} is used more than once.`));
+
+  switch (config.templateType) {
+    case 'theater':
+      config.sections.forEach((section) => {
+        if (!isPositiveInteger(section.rows) || !isPositiveInteger(section.seatsPerRow))
+          errors.push(`Section ${section.sectionCode} needs at least one row and one seat per row.`);
+      });
+      findOverlappingSections(config.sections).forEach(([a, b]) =>
+        errors.push(`Sections ${config.sections[a].sectionCode} and ${config.sections[b].sectionCode} overlap.`)
+      );
+      break;
+
+    case 'stadium': {
+      if (config.field.width <= 0 || config.field.height <= 0) errors.push('The field needs a width and height.');
+      const fieldRadius = Math.max(config.field.width, config.field.height) / 2;
+      new Set(duplicates(config.tiers.map((tier) => tier.tierCode))).forEach((code) =>
+        errors.push(`Tier code ${code} is used more than once.`)
+      );
+
+      const rings = [...config.tiers].sort((a, b) => a.innerRadius - b.innerRadius);
+      rings.forEach((tier, index) => {
+        if (!isPositiveInteger(tier.rows)) errors.push(`Tier ${tier.tierCode} needs at least one row.`);
+        if (tier.rowSpacing <= 0 || tier.seatSpacing <= 0)
+          errors.push(`Tier ${tier.tierCode} needs positive row and seat spacing.`);
+        if (index === 0 && tier.innerRadius <= fieldRadius)
+          errors.push(`Tier ${tier.tierCode} starts inside the field; increase its radius past ${fieldRadius}.`);
+        const inner = rings[index - 1];
+        if (inner && tier.innerRadius < inner.innerRadius + inner.rows * inner.rowSpacing)
+          errors.push(`Tier ${tier.tierCode} overlaps tier ${inner.tierCode}.`);
+      });
+
+      config.sections.forEach((section) => {
+        if (!config.tiers.some((tier) => tier.tierCode === section.tierCode))
+          errors.push(`Section ${section.sectionCode} is not on an existing tier.`);
+        if (section.endAngle <= section.startAngle)
+          errors.push(`Section ${section.sectionCode} must end at a larger angle than it starts.`);
+        else if (section.endAngle - section.startAngle > 360)
+          errors.push(`Section ${section.sectionCode} spans more than a full circle.`);
+      });
+
+      // Sections on the same tier may touch but not overlap. Angles are compared
+      // on one turn of the circle, so -40 and 320 are the same place.
+      config.tiers.forEach((tier) => {
+        const arcs = config.sections
+          .filter(
+            (section) =>
+              section.tierCode === tier.tierCode &&
+              section.endAngle > section.startAngle &&
+              section.endAngle - section.startAngle <= 360
+          )
+          .map((section) => {
+            const startAngle = normalizeAngle(section.startAngle);
+            return { ...section, startAngle, endAngle: startAngle + section.endAngle - section.startAngle };
+          })
+          .sort((a, b) => a.startAngle - b.startAngle);
+        arcs.forEach((section, index) => {
+          const next = arcs[index + 1] ?? (arcs.length > 1 ? { ...arcs[0], startAngle: arcs[0].startAngle + 360 } : null);
+          if (next && section.endAngle > next.startAngle)
+            errors.push(`Sections ${section.sectionCode} and ${next.sectionCode} overlap on tier ${tier.tierCode}.`);
+        });
+      });
+      break;
+    }
+
+    case 'general_admission':
+      config.areas.forEach((area) => {
+        if (!isPositiveInteger(area.capacity)) errors.push(`Area ${area.sectionCode} needs a capacity of at least 1.`);
+        if (area.width <= 0 || area.height <= 0) errors.push(`Area ${area.sectionCode} needs a width and height.`);
+      });
+      break;
+  }
+
+  return errors;
+}
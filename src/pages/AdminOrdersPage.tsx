@@ -1,9 +1,9 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { orderApi } from '../services/api';
+import { orderApi, type Order } from '../services/api';
 
 export function AdminOrdersPage() {
-  const [orders, setOrders] = useState<any[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const navigate = useNavigate();
@@ -94,11 +94,11 @@ export function AdminOrdersPage() {
                 <span>Status</span>
                 <span>{order.paymentStatus}</span>
               </div>
-              {order.ticketIds?.length > 0 && (
+              {order.ticketIds.length > 0 && (
                 <div className="summary-row input">
                   <span>Tickets</span>
                   <div style={{ display: 'grid', gap: '6px' }}>
-                    {order.ticketIds.map((t: any) => (
+                    {order.ticketIds.map((t) => (
                       <span key={t._id || t.ticketCode} className="muted small">
                         {t.seatId} · {t.ticketCode}
                       </span>
@@ -1,5 +1,7 @@
 import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { clearStaffScanData } from '../services/api';
+import { AdminSvgVenueUpload } from './AdminSvgVenueUpload';
 import { AdminVenueCreator } from './AdminVenueCreator';
 
 export function AdminPage() {
@@ -35,7 +37,7 @@ export function AdminPage() {
           <p className="eyebrow">Admin Tools</p>
           <h1>Venue & Event Management</h1>
           <p className="lede">
-            Create venues from templates, manage seat maps, and configure pricing zones
+            Create venues from templates or uploaded SVG seat maps, and configure pricing zones
           </p>
           <button
             className="ghost"
@@ -43,6 +45,7 @@ export function AdminPage() {
               localStorage.removeItem('accessToken');
               localStorage.removeItem('refreshToken');
               localStorage.removeItem('staffProfile');
+              clearStaffScanData();
               navigate('/admin/login');
             }}
             style={{ marginTop: '1rem', padding: '0.5rem 1rem' }}
@@ -55,6 +58,10 @@ export function AdminPage() {
       <section className="section">
         <AdminVenueCreator />
       </section>
+
+      <section className="section">
+        <AdminSvgVenueUpload />
+      </section>
     </div>
   );
 }
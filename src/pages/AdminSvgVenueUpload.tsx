@@ -0,0 +1,258 @@
+import { useState, type ChangeEvent } from 'react';
+import { venueApi, type VenueAddress } from '../services/api';
+import { getBounds, padBounds } from '../lib/seat-map-geometry';
+import {
+  MAX_SVG_BYTES,
+  defaultSectionMapping,
+  mappingKey,
+  parseSeatMapSvg,
+  resolveSeats,
+  sanitizeSvg,
+  type SectionMapping,
+  type SvgSeatMapParse,
+} from '../lib/svg-seat-map';
+
+const emptyAddress: VenueAddress = { street: '', city: '', state: '', zipCode: '', country: 'USA' };
+
+const SECTION_COLORS = ['#2563eb', '#16a34a', '#d97706', '#db2777', '#7c3aed', '#0891b2', '#dc2626', '#4b5563'];
+
+// Issues listed before the rest are collapsed into a count
+const ISSUE_PREVIEW_LIMIT = 20;
+
+export const AdminSvgVenueUpload = () => {
+  const [name, setName] = useState('');
+  const [address, setAddress] = useState<VenueAddress>(emptyAddress);
+  const [fileName, setFileName] = useState('');
+  const [markup, setMarkup] = useState('');
+  const [parse, setParse] = useState<SvgSeatMapParse | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mappings, setMappings] = useState<Record<string, SectionMapping>>({});
+  const [loading, setLoading] = useState(false);
+
+  const resolved = parse ? resolveSeats(parse, mappings) : null;
+  const blockers = resolved
+    ? [
+        resolved.seats.length === 0 && 'No seats were found in this SVG.',
+        resolved.unassigned > 0 && `${resolved.unassigned} seats have no section. Map their groups below.`,
+        resolved.conflicts.length > 0 &&
+          `${resolved.conflicts.length} seat ids are used more than once: ${resolved.conflicts.slice(0, 5).join(', ')}`,
+      ].filter((message): message is string => !!message)
+    : [];
+
+  const reset = () => {
+    setFileName('');
+    setMarkup('');
+    setParse(null);
+    setParseError(null);
+    setMappings({});
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    reset();
+    setFileName(file.name);
+    if (file.size > MAX_SVG_BYTES) {
+      setParseError(`SVG files must be under ${MAX_SVG_BYTES / 1024 / 1024} MB.`);
+      return;
+    }
+
+    try {
+      const text = await file.text();
+      const result = parseSeatMapSvg(text);
+      setMarkup(text);
+      setParse(result);
+      setMappings(
+        Object.fromEntries(result.groups.map((group) => [mappingKey(group.groupId), defaultSectionMapping(group)]))
+      );
+    } catch (error: any) {
+      console.error('❌ Failed to parse SVG seat map:', error);
+      setParseError(error.message || 'Failed to read this file');
+    }
+  };
+
+  const updateMapping = (key: string, patch: Partial<SectionMapping>) =>
+    setMappings((prev) => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+
+  const handleCreate = async () => {
+    if (!resolved || blockers.length > 0) return;
+    setLoading(true);
+    try {
+      await venueApi.createVenueFromSvg({
+        name: name || 'New Venue',
+        address,
+        svg: sanitizeSvg(markup),
+        sections: resolved.sections,
+        seats: resolved.seats,
+      });
+      alert('Venue created successfully');
+      reset();
+      setName('');
+      setAddress(emptyAddress);
+    } catch (error: any) {
+      alert(error.response?.data?.message || 'Failed to create venue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sectionColor = (sectionCode: string) =>
+    SECTION_COLORS[(resolved?.sections.findIndex((section) => section.sectionCode === sectionCode) ?? 0) % SECTION_COLORS.length];
+
+  const placedSeats = resolved?.seats.filter((seat) => seat.x !== undefined && seat.y !== undefined) ?? [];
+  const seatBounds = getBounds(placedSeats.map((seat) => ({ x: seat.x!, y: seat.y! })));
+  const previewBox = seatBounds ? padBounds(seatBounds, 20) : null;
+
+  return (
+    <div className="admin-container">
+      <div className="admin-card">
+        <div className="admin-header">
+          <div>
+            <p className="eyebrow">Admin</p>
+            <h3>Create a venue from an SVG seat map</h3>
+          </div>
+        </div>
+
+        <div className="admin-grid">
+          <label className="field">
+            <span>Name</span>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Downtown Arena" />
+          </label>
+          {(['street', 'city', 'state', 'zipCode', 'country'] as const).map((field) => (
+            <label key={field} className="field">
+              <span>{field === 'zipCode' ? 'Zip' : field[0].toUpperCase() + field.slice(1)}</span>
+              <input
+                type="text"
+                value={address[field]}
+                onChange={(e) => setAddress({ ...address, [field]: e.target.value })}
+              />
+            </label>
+          ))}
+
+          <label className="field">
+            <span>Seat map (SVG)</span>
+            <input type="file" accept=".svg,image/svg+xml" onChange={handleFile} />
+          </label>
+          <p className="hint">
+            Seats are read from <code>data-section</code>/<code>data-row</code>/<code>data-seat</code> attributes or ids
+            like <code>SEC_A-R3-S12</code>. Ids like <code>R3-S12</code> take their section from the enclosing group.
+          </p>
+          {parseError && <p className="form-errors">{parseError}</p>}
+        </div>
+
+        {parse && resolved && (
+          <div className="admin-grid">
+            <p>
+              <strong>{fileName}</strong>: {parse.seats.length.toLocaleString()} seats in {parse.groups.length} groups,{' '}
+              {resolved.sections.length} sections
+            </p>
+
+            {(parse.issues.length > 0 || parse.duplicateIds.length > 0) && (
+              <div className="sections">
+                <div className="sections-head">
+                  <p>Problems found</p>
+                </div>
+                {parse.duplicateIds.length > 0 && (
+                  <p className="form-errors">
+                    Duplicate element ids: {parse.duplicateIds.slice(0, ISSUE_PREVIEW_LIMIT).join(', ')}
+                    {parse.duplicateIds.length > ISSUE_PREVIEW_LIMIT &&
+                      ` and ${parse.duplicateIds.length - ISSUE_PREVIEW_LIMIT} more`}
+                  </p>
+                )}
+                {parse.issues.length > 0 && (
+                  <>
+                    <p className="hint">These elements look like seats but could not be parsed and will be skipped:</p>
+                    <ul>
+                      {parse.issues.slice(0, ISSUE_PREVIEW_LIMIT).map((issue, index) => (
+                        <li key={index}>
+                          &lt;{issue.tag}&gt; {issue.reason}
+                        </li>
+                      ))}
+                    </ul>
+                    {parse.issues.length > ISSUE_PREVIEW_LIMIT && (
+                      <p className="hint">…and {parse.issues.length - ISSUE_PREVIEW_LIMIT} more</p>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="sections">
+              <div className="sections-head">
+                <p>Groups → sections</p>
+              </div>
+              <p className="hint">Leave the code empty to keep the sections read from each seat.</p>
+              {parse.groups.map((group) => {
+                const key = mappingKey(group.groupId);
+                const mapping = mappings[key];
+                return (
+                  <div key={key} className="section-row">
+                    <div className="field small">
+                      <span>Group</span>
+                      <p>
+                        {group.groupId ?? '(no group)'} · {group.seatCount} seats
+                        {group.sections.length > 0 && ` · found ${group.sections.join(', ')}`}
+                      </p>
+                    </div>
+                    <label className="field small">
+                      <span>Section code</span>
+                      <input
+                        type="text"
+                        value={mapping?.sectionCode ?? ''}
+                        onChange={(e) => updateMapping(key, { sectionCode: e.target.value })}
+                      />
+                    </label>
+                    <label className="field small">
+                      <span>Section name</span>
+                      <input
+                        type="text"
+                        value={mapping?.name ?? ''}
+                        disabled={!mapping?.sectionCode.trim()}
+                        onChange={(e) => updateMapping(key, { name: e.target.value })}
+                      />
+                    </label>
+                  </div>
+                );
+              })}
+            </div>
+
+            {previewBox && (
+              <svg
+                className="preview"
+                viewBox={`${previewBox.minX} ${previewBox.minY} ${previewBox.maxX - previewBox.minX} ${
+                  previewBox.maxY - previewBox.minY
+                }`}
+                width="100%"
+              >
+                {placedSeats.map((seat, index) => (
+                  <circle key={index} cx={seat.x} cy={seat.y} r={4} fill={sectionColor(seat.section)}>
+                    <title>{seat.seatId}</title>
+                  </circle>
+                ))}
+              </svg>
+            )}
+
+            {blockers.length > 0 && (
+              <ul className="form-errors">
+                {blockers.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="admin-actions">
+              <button className="ghost" onClick={reset} disabled={loading}>
+                Clear
+              </button>
+              <button className="primary" onClick={handleCreate} disabled={loading || blockers.length > 0}>
+                {loading ? 'Creating...' : `Create venue with ${resolved.seats.length.toLocaleString()} seats`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,45 +1,16 @@
 import { useState } from 'react';
-import { venueApi } from '../services/api';
-
-type TemplateType = 'theater' | 'stadium' | 'general_admission';
-
-type TheaterSection = {
-  sectionCode: string;
-  name: string;
-  rows: number;
-  seatsPerRow: number;
-  startX: number;
-  startY: number;
-  seatSpacing: number;
-  rowSpacing: number;
-  hasAisle?: boolean;
-  aislePosition?: 'center';
-};
-
-const defaultTheaterSections: TheaterSection[] = [
-  {
-    sectionCode: 'A',
-    name: 'Orchestra',
-    rows: 6,
-    seatsPerRow: 12,
-    startX: 80,
-    startY: 120,
-    seatSpacing: 6,
-    rowSpacing: 10,
-    hasAisle: true,
-    aislePosition: 'center',
-  },
-  {
-    sectionCode: 'B',
-    name: 'Mezzanine',
-    rows: 4,
-    seatsPerRow: 10,
-    startX: 80,
-    startY: 320,
-    seatSpacing: 6,
-    rowSpacing: 10,
-  },
-];
+import { venueApi, type TheaterSection, type VenueTemplateConfig, type VenueTemplateType } from '../services/api';
+import { useUndoableState } from '../hooks/useUndoableState';
+import {
+  defaultTemplateConfigs,
+  estimateCapacity,
+  validateTemplateConfig,
+  type TemplateConfigs,
+} from '../lib/venue-templates';
+import { GeneralAdmissionEditor } from '../components/venue-templates/GeneralAdmissionEditor';
+import { SectionLayoutCanvas } from '../components/venue-templates/SectionLayoutCanvas';
+import { StadiumLayoutEditor } from '../components/venue-templates/StadiumLayoutEditor';
+import { TheaterSectionsEditor } from '../components/venue-templates/TheaterSectionsEditor';
 
 export const AdminVenueCreator = () => {
   const [step, setStep] = useState<1 | 2 | 3>(1);
@@ -54,26 +25,30 @@ export const AdminVenueCreator = () => {
       zipCode: '',
       country: 'USA',
     },
-    templateType: 'theater' as TemplateType,
-    sections: defaultTheaterSections,
+    templateType: 'theater' as VenueTemplateType,
   });
+  // Each template keeps its own config so switching back and forth loses nothing
+  const templateHistory = useUndoableState<TemplateConfigs>(defaultTemplateConfigs);
+  const templateConfigs = templateHistory.value;
+  const [previewSeats, setPreviewSeats] = useState(0);
 
-  const updateSection = (index: number, field: keyof TheaterSection, value: string | number | boolean) => {
-    setFormData((prev) => {
-      const nextSections = [...(prev.sections as TheaterSection[])];
-      nextSections[index] = { ...nextSections[index], [field]: value };
-      return { ...prev, sections: nextSections };
-    });
-  };
+  const templateConfig: VenueTemplateConfig = templateConfigs[formData.templateType];
+  const templateErrors = validateTemplateConfig(templateConfig);
+
+  const updateTemplateConfig = (config: VenueTemplateConfig) =>
+    templateHistory.set({ ...templateConfigs, [config.templateType]: config });
+
+  const withTheaterSections = (sections: TheaterSection[]): TemplateConfigs => ({
+    ...templateConfigs,
+    theater: { ...templateConfigs.theater, sections },
+  });
 
   const handlePreview = async () => {
     setLoading(true);
     try {
-      const response = await venueApi.generatePreview({
-        templateType: formData.templateType,
-        sections: formData.sections,
-      });
+      const response = await venueApi.generatePreview(templateConfig);
       setPreviewSvg(response.data.seatMapSvg);
+      setPreviewSeats(response.data.totalSeats);
       setStep(3);
     } catch (error: any) {
       alert(error.response?.data?.message || 'Failed to generate preview');
@@ -88,14 +63,12 @@ export const AdminVenueCreator = () => {
       await venueApi.createVenueFromTemplate({
         name: formData.name || 'New Venue',
         address: formData.address,
-        templateConfig: {
-          templateType: formData.templateType,
-          sections: formData.sections,
-        },
+        templateConfig,
       });
       alert('Venue created successfully');
       setStep(1);
       setPreviewSvg('');
+      templateHistory.reset(defaultTemplateConfigs);
     } catch (error: any) {
       alert(error.response?.data?.message || 'Failed to create venue');
     } finally {
@@ -181,7 +154,7 @@ export const AdminVenueCreator = () => {
               <span>Template</span>
               <select
                 value={formData.templateType}
-                onChange={(e) => setFormData({ ...formData, templateType: e.target.value as TemplateType })}
+                onChange={(e) => setFormData({ ...formData, templateType: e.target.value as VenueTemplateType })}
               >
                 <option value="theater">Theater</option>
                 <option value="stadium">Stadium</option>
@@ -189,122 +162,45 @@ export const AdminVenueCreator = () => {
               </select>
             </label>
 
-            <div className="sections">
-              <div className="sections-head">
-                <p>Sections</p>
-                <button
-                  type="button"
-                  onClick={() =>
-                    setFormData((prev) => ({
-                      ...prev,
-                      sections: [
-                        ...(prev.sections as TheaterSection[]),
-                        {
-                          sectionCode: `S${prev.sections.length + 1}`,
-                          name: `Section ${prev.sections.length + 1}`,
-                          rows: 4,
-                          seatsPerRow: 10,
-                          startX: 80,
-                          startY: 150 + prev.sections.length * 160,
-                          seatSpacing: 6,
-                          rowSpacing: 10,
-                        },
-                      ],
-                    }))
-                  }
-                >
-                  + Add Section
-                </button>
-              </div>
-              {(formData.sections as TheaterSection[]).map((section, idx) => (
-                <div key={section.sectionCode} className="section-card">
-                  <div className="section-row">
-                    <label className="field small">
-                      <span>Code</span>
-                      <input
-                        type="text"
-                        value={section.sectionCode}
-                        onChange={(e) => updateSection(idx, 'sectionCode', e.target.value)}
-                      />
-                    </label>
-                    <label className="field small">
-                      <span>Name</span>
-                      <input
-                        type="text"
-                        value={section.name}
-                        onChange={(e) => updateSection(idx, 'name', e.target.value)}
-                      />
-                    </label>
-                  </div>
-                  <div className="section-row">
-                    <label className="field small">
-                      <span>Rows</span>
-                      <input
-                        type="number"
-                        value={section.rows}
-                        onChange={(e) => updateSection(idx, 'rows', Number(e.target.value))}
-                      />
-                    </label>
-                    <label className="field small">
-                      <span>Seats/row</span>
-                      <input
-                        type="number"
-                        value={section.seatsPerRow}
-                        onChange={(e) => updateSection(idx, 'seatsPerRow', Number(e.target.value))}
-                      />
-                    </label>
-                    <label className="field small">
-                      <span>Seat spacing</span>
-                      <input
-                        type="number"
-                        value={section.seatSpacing}
-                        onChange={(e) => updateSection(idx, 'seatSpacing', Number(e.target.value))}
-                      />
-                    </label>
-                    <label className="field small">
-                      <span>Row spacing</span>
-                      <input
-                        type="number"
-                        value={section.rowSpacing}
-                        onChange={(e) => updateSection(idx, 'rowSpacing', Number(e.target.value))}
-                      />
-                    </label>
-                  </div>
-                  <div className="section-row">
-                    <label className="field small">
-                      <span>Start X</span>
-                      <input
-                        type="number"
-                        value={section.startX}
-                        onChange={(e) => updateSection(idx, 'startX', Number(e.target.value))}
-                      />
-                    </label>
-                    <label className="field small">
-                      <span>Start Y</span>
-                      <input
-                        type="number"
-                        value={section.startY}
-                        onChange={(e) => updateSection(idx, 'startY', Number(e.target.value))}
-                      />
-                    </label>
-                    <label className="field small checkbox">
-                      <input
-                        type="checkbox"
-                        checked={!!section.hasAisle}
-                        onChange={(e) => updateSection(idx, 'hasAisle', e.target.checked)}
-                      />
-                      <span>Center aisle</span>
-                    </label>
-                  </div>
-                </div>
-              ))}
-            </div>
+            {templateConfig.templateType === 'theater' && (
+              <>
+                <SectionLayoutCanvas
+                  sections={templateConfig.sections}
+                  onPreview={(sections) => templateHistory.replace(withTheaterSections(sections))}
+                  onChange={(sections) => templateHistory.set(withTheaterSections(sections))}
+                  onUndo={templateHistory.undo}
+                  onRedo={templateHistory.redo}
+                  canUndo={templateHistory.canUndo}
+                  canRedo={templateHistory.canRedo}
+                />
+                <TheaterSectionsEditor config={templateConfig} onChange={updateTemplateConfig} />
+              </>
+            )}
+            {templateConfig.templateType === 'stadium' && (
+              <StadiumLayoutEditor config={templateConfig} onChange={updateTemplateConfig} />
+            )}
+            {templateConfig.templateType === 'general_admission' && (
+              <GeneralAdmissionEditor config={templateConfig} onChange={updateTemplateConfig} />
+            )}
+
+            <p className="hint">
+              {templateConfig.templateType === 'stadium' ? 'About ' : ''}
+              {estimateCapacity(templateConfig).toLocaleString()}{' '}
+              {templateConfig.templateType === 'general_admission' ? 'standing capacity' : 'seats'}
+            </p>
+            {templateErrors.length > 0 && (
+              <ul className="form-errors">
+                {templateErrors.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            )}
 
             <div className="admin-actions">
               <button className="ghost" onClick={() => setStep(1)} disabled={loading}>
                 Back
               </button>
-              <button className="primary" onClick={handlePreview} disabled={loading}>
+              <button className="primary" onClick={handlePreview} disabled={loading || templateErrors.length > 0}>
                 {loading ? 'Generating...' : 'Preview seat map'}
               </button>
             </div>
@@ -314,6 +210,7 @@ export const AdminVenueCreator = () => {
         {step === 3 && (
           <div className="admin-grid">
             <div className="preview" dangerouslySetInnerHTML={{ __html: previewSvg }} />
+            <p className="hint">{previewSeats.toLocaleString()} total capacity</p>
             <div className="admin-actions">
               <button className="ghost" onClick={() => setStep(2)} disabled={loading}>
                 Back to edit
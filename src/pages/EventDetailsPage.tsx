@@ -1,42 +1,45 @@
-import { useMemo, useState, useEffect, useCallback } from 'react';
+import { useMemo, useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
-import { eventApi, seatApi, orderApi, authApi, type Event as APIEvent, type SeatPlanSeat } from '../services/api';
+import { eventApi, seatApi, orderApi, authApi, type Event as APIEvent, type EventPricingConfig, type SeatPlanSeat } from '../services/api';
+import { toEventSummary, type EventSummary } from '../lib/event-normalizers';
+import { SeatMap } from '../components/SeatMap';
+import { BestAvailablePicker } from '../components/BestAvailablePicker';
+import { HoldExpiryModal, type HoldNotice } from '../components/HoldExpiryModal';
+import { evaluateSeatSelection, resolveSeatRules, type SeatRuleConfig, type SeatRuleResult } from '../lib/seat-rules';
 import { useEventWebSocket } from '../hooks/useEventWebSocket';
+import { useCheckoutMachine } from '../hooks/useCheckoutMachine';
+import { usePromoCode } from '../hooks/usePromoCode';
+import { useOrderQuote } from '../hooks/useOrderQuote';
+import { canRetry, canSend } from '../lib/checkout-machine';
+import { breakdownDiffers, taxLabel } from '../lib/order-pricing';
+import { pricingConfigFromEvent } from '../lib/pricing-zones';
 import { initializeWebSocket, getSessionId } from '../services/websocket';
 import type { SeatAvailabilityUpdate, HoldExpired } from '../services/websocket';
 
 type SeatState = 'available' | 'held' | 'sold';
 type Seat = SeatPlanSeat;
 
-type Event = {
-  id: string;
-  title: string;
-  date: string;
-  venue: string;
-  city: string;
-  image: string;
-  pricing: Record<string, { name: string; price: number }>;
+type Event = EventSummary & {
+  pricing: EventPricingConfig;
   seatMap: SeatPlanSeat[];
   seatMapSvg?: string;
+  seatingRules: SeatRuleConfig;
 };
 
-const transformEvent = (apiEvent: APIEvent): Event => {
-  return {
-    id: apiEvent._id,
-    title: apiEvent.title,
-    date: new Date(apiEvent.eventDate).toISOString().split('T')[0],
-    venue: apiEvent.venueId?.name || 'Unknown Venue',
-    city: apiEvent.venueId ? `${apiEvent.venueId.address.city}, ${apiEvent.venueId.address.state}` : 'Unknown',
-    image: apiEvent.imageUrl || 'https://images.unsplash.com/photo-1514525253161-7a46d19cd819?auto=format&fit=crop&w=1600&q=80',
-    pricing: apiEvent.pricingZones,
-    seatMap: [],
-  };
-};
+const toSeatPageEvent = (apiEvent: APIEvent): Event => ({
+  ...toEventSummary(apiEvent),
+  pricing: pricingConfigFromEvent(apiEvent),
+  seatMap: [],
+  seatingRules: resolveSeatRules(apiEvent.seatingRules),
+});
+
+const formatCurrency = (value: number, currency = 'USD') =>
+  value.toLocaleString('en-US', { style: 'currency', currency });
 
-const formatCurrency = (value: number) =>
-  value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+// How long before a hold runs out the buyer is offered an extension
+const HOLD_WARNING_MS = (Number(import.meta.env.VITE_HOLD_WARNING_SECONDS) || 120) * 1000;
 
 export function EventDetailsPage() {
   const { eventId } = useParams<{ eventId: string }>();
@@ -45,12 +48,16 @@ export function EventDetailsPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selected, setSelected] = useState<Set<string>>(new Set());
-  const [currentHoldId, setCurrentHoldId] = useState<string | null>(null);
   const [currentHoldSeats, setCurrentHoldSeats] = useState<string[]>([]);
-  const [holdExpiresAt, setHoldExpiresAt] = useState<Date | null>(null);
-  const [holdLoading, setHoldLoading] = useState(false);
-  const [checkoutLoading, setCheckoutLoading] = useState(false);
   const [seatPlanLoading, setSeatPlanLoading] = useState(false);
+  const [seatRuleNotice, setSeatRuleNotice] = useState<SeatRuleResult | null>(null);
+  const [holdNotice, setHoldNotice] = useState<HoldNotice | null>(null);
+  const [extendingHold, setExtendingHold] = useState(false);
+  // Expiry timestamp we already warned about, so dismissing the warning sticks
+  const warnedExpiryRef = useRef<number | null>(null);
+  const recoveringHoldRef = useRef(false);
+  // Set while stripe.confirmPayment runs, when the card may already be charged
+  const paymentInFlightRef = useRef(false);
   const [orderSuccess, setOrderSuccess] = useState<{
     orderNumber: string;
     orderId: string;
@@ -66,9 +73,23 @@ export function EventDetailsPage() {
   const [authFirstName, setAuthFirstName] = useState('');
   const [authLastName, setAuthLastName] = useState('');
   const [isAuthenticated, setIsAuthenticated] = useState(() => !!localStorage.getItem('accessToken'));
-  const [paymentClientSecret, setPaymentClientSecret] = useState<string | null>(null);
-  const [pendingOrderId, setPendingOrderId] = useState<string | null>(null);
-  const [pendingOrderNumber, setPendingOrderNumber] = useState<string | null>(null);
+
+  // Hold, order and payment progress live in the shared checkout machine
+  const checkout = useCheckoutMachine();
+  const { send: sendCheckout, run: runCheckout, getState: getCheckoutState } = checkout;
+  const { status: checkoutStatus, holdId: currentHoldId, orderId: pendingOrderId, orderNumber: pendingOrderNumber } =
+    checkout.state;
+  const holdExpiresAt = useMemo(
+    () => (checkout.state.holdExpiresAt ? new Date(checkout.state.holdExpiresAt) : null),
+    [checkout.state.holdExpiresAt]
+  );
+  const promo = usePromoCode(eventId);
+  const holdLoading = checkoutStatus === 'holding';
+  const checkoutLoading = checkoutStatus === 'creating_intent';
+  const paymentConfirmed =
+    checkoutStatus === 'finalizing' || (checkoutStatus === 'error' && checkout.state.error?.step === 'finalizing');
+  const paymentClientSecret =
+    checkoutStatus === 'confirming_payment' || paymentConfirmed ? checkout.state.clientSecret : null;
 
   // Initialize WebSocket connection
   useEffect(() => {
@@ -111,6 +132,70 @@ export function EventDetailsPage() {
     });
   }, []);
 
+  // Try to win the same seats back once a hold lapses, and tell the buyer either way
+  const recoverExpiredHold = useCallback(async (seatIds: string[]) => {
+    const duringPayment = !!paymentClientSecret;
+    if (recoveringHoldRef.current) return;
+    // Wait for Stripe to answer; the order must survive a payment that may have gone through
+    if (paymentInFlightRef.current) {
+      setHoldNotice((prev) => (prev?.kind === 'checking_payment' ? prev : { kind: 'checking_payment' }));
+      return;
+    }
+    // Nothing was submitted yet, so back out of the payment step before giving up the hold
+    if (getCheckoutState().status === 'confirming_payment') sendCheckout({ type: 'PAYMENT_CANCELLED' });
+    // Ignored once payment has gone through or there is no hold to lose
+    if (!sendCheckout({ type: 'HOLD_EXPIRED' })) return;
+
+    if (!eventId || seatIds.length === 0) {
+      sendCheckout({ type: 'SELECTION_CLEARED' });
+      setSelected(new Set());
+      setCurrentHoldSeats([]);
+      return;
+    }
+
+    recoveringHoldRef.current = true;
+    setHoldNotice({ kind: 'recovering' });
+
+    const response = await runCheckout(
+      { type: 'HOLD_REQUESTED' },
+      () => seatApi.holdSeats(eventId, seatIds, getSessionId()),
+      (res) => ({ type: 'HOLD_SUCCEEDED', holdId: res.data.holdId, expiresAt: res.data.expiresAt })
+    );
+    recoveringHoldRef.current = false;
+
+    if (response) {
+      setCurrentHoldSeats(seatIds);
+      setEvent((prev) =>
+        prev
+          ? {
+              ...prev,
+              seatMap: prev.seatMap.map((seat) =>
+                seatIds.includes(seat.id) ? { ...seat, status: 'held' as SeatState } : seat
+              ),
+            }
+          : null
+      );
+      setHoldNotice({ kind: 'recovered', duringPayment });
+    } else {
+      sendCheckout({ type: 'SELECTION_CLEARED' });
+      setEvent((prev) =>
+        prev
+          ? {
+              ...prev,
+              seatMap: prev.seatMap.map((seat) =>
+                seatIds.includes(seat.id) && seat.status === 'held'
+                  ? { ...seat, status: 'available' as SeatState }
+                  : seat
+              ),
+            }
+          : null
+      );
+      setSelected(new Set());
+      setCurrentHoldSeats([]);
+      setHoldNotice({ kind: 'lost', seatIds, duringPayment });
+    }
+  }, [eventId, paymentClientSecret, getCheckoutState, sendCheckout, runCheckout]);
+
   // Handle hold expiration
   const handleHoldExpired = useCallback((data: HoldExpired) => {
     console.log('⏰ Hold expired:', data);
@@ -128,19 +213,10 @@ export function EventDetailsPage() {
       return { ...prevEvent, seatMap: updatedSeatMap };
     });
 
-    // Clear selection if any of the expired seats were selected
-    setSelected((prev) => {
-      const newSelected = new Set(prev);
-      data.seatIds.forEach((seatId) => newSelected.delete(seatId));
-      return newSelected;
-    });
-
-    if (data.eventId === eventId) {
-      setCurrentHoldSeats([]);
-      setCurrentHoldId(null);
-      setHoldExpiresAt(null);
+    if (data.eventId === eventId && data.seatIds.some((seatId) => currentHoldSeats.includes(seatId))) {
+      recoverExpiredHold(currentHoldSeats);
     }
-  }, [eventId]);
+  }, [eventId, currentHoldSeats, recoverExpiredHold]);
 
   // WebSocket hook for real-time updates
   const { connected, viewerCount } = useEventWebSocket({
@@ -149,7 +225,9 @@ export function EventDetailsPage() {
     onSeatUpdate: handleSeatUpdate,
     onHoldExpired: handleHoldExpired,
     onHoldExpiringSoon: (data) => {
-      console.log('⚠️ Hold expiring soon:', data);
+      if (data.eventId !== eventId || !holdExpiresAt) return;
+      warnedExpiryRef.current = holdExpiresAt.getTime();
+      setHoldNotice({ kind: 'expiring' });
     },
     onViewersUpdate: (data) => {
       console.log('👥 Viewers update:', data.count);
@@ -167,7 +245,7 @@ export function EventDetailsPage() {
         const foundEvent = response.data.find((e: APIEvent) => e._id === eventId);
 
         if (foundEvent) {
-          setEvent(transformEvent(foundEvent));
+          setEvent(toSeatPageEvent(foundEvent));
           setError(null);
         } else {
           setError('Event not found');
@@ -217,16 +295,18 @@ export function EventDetailsPage() {
 
   // Hold seats when user selects them
   const holdSeatsForUser = useCallback(async (seatIds: string[]) => {
-    if (!eventId || seatIds.length === 0) return;
-
-    setHoldLoading(true);
-    try {
-      const sessionId = getSessionId();
-      const response = await seatApi.holdSeats(eventId, seatIds, sessionId);
+    // Seats are locked in while an order is being created or paid for
+    if (!eventId || seatIds.length === 0 || !canSend(getCheckoutState(), 'HOLD_REQUESTED')) return;
+
+    const sessionId = getSessionId();
+    const response = await runCheckout(
+      { type: 'HOLD_REQUESTED' },
+      () => seatApi.holdSeats(eventId, seatIds, sessionId),
+      (res) => ({ type: 'HOLD_SUCCEEDED', holdId: res.data.holdId, expiresAt: res.data.expiresAt })
+    );
 
-      setCurrentHoldId(response.data.holdId);
+    if (response) {
       setCurrentHoldSeats(seatIds);
-      setHoldExpiresAt(new Date(response.data.expiresAt));
 
       // Reflect held status locally for immediate UI feedback
       setEvent((prev) =>
@@ -241,17 +321,14 @@ export function EventDetailsPage() {
       );
 
       console.log('✅ Seats held:', response.data);
-    } catch (error: any) {
-      console.error('❌ Failed to hold seats:', error);
-      alert(error.response?.data?.message || 'Failed to hold seats. Please try again.');
+    } else {
+      alert(getCheckoutState().error?.message || 'Failed to hold seats. Please try again.');
       // Revert selection on error
+      sendCheckout({ type: 'SELECTION_CLEARED' });
       setSelected(new Set());
       setCurrentHoldSeats([]);
-      setCurrentHoldId(null);
-    } finally {
-      setHoldLoading(false);
     }
-  }, [eventId]);
+  }, [eventId, runCheckout, sendCheckout, getCheckoutState]);
 
   // Release held seats when user deselects
   const releaseHeldSeats = useCallback(async () => {
@@ -272,20 +349,20 @@ export function EventDetailsPage() {
           : null
       );
 
-      setCurrentHoldId(null);
+      sendCheckout({ type: 'SELECTION_CLEARED' });
       setCurrentHoldSeats([]);
-      setHoldExpiresAt(null);
 
       console.log('✅ Seats released');
     } catch (error: any) {
       console.error('❌ Failed to release seats:', error);
     }
-  }, [currentHoldId, currentHoldSeats]);
+  }, [currentHoldId, currentHoldSeats, sendCheckout]);
 
   // Toggle seat selection
   const toggleSeat = useCallback(async (seat: Seat) => {
-    if (seat.status === 'sold' || seat.status === 'held') return;
-    if (holdLoading) return;
+    // Our own seats show as held once the hold succeeds, so they must stay deselectable
+    if (seat.status === 'sold' || (seat.status === 'held' && !selected.has(seat.id))) return;
+    if (holdLoading || checkoutLoading) return;
 
     const next = new Set(selected);
     const isAdding = !next.has(seat.id);
@@ -296,6 +373,16 @@ export function EventDetailsPage() {
       next.delete(seat.id);
     }
 
+    if (event) {
+      // Our held seats are free as far as the rules are concerned
+      const ruleSeats = event.seatMap.map((s) =>
+        currentHoldSeats.includes(s.id) ? { ...s, status: 'available' as SeatState } : s
+      );
+      const result = evaluateSeatSelection(ruleSeats, next, event.seatingRules, selected);
+      setSeatRuleNotice(result.severity === 'none' ? null : result);
+      if (result.severity === 'block') return;
+    }
+
     setSelected(next);
 
     // If releasing all seats, call release API
@@ -306,25 +393,50 @@ export function EventDetailsPage() {
     else if (next.size > 0) {
       await holdSeatsForUser(Array.from(next));
     }
-  }, [selected, holdLoading, currentHoldId, releaseHeldSeats, holdSeatsForUser]);
+  }, [event, selected, holdLoading, checkoutLoading, currentHoldId, currentHoldSeats, releaseHeldSeats, holdSeatsForUser]);
 
-  const priceBreakdown = useMemo(() => {
-    if (!event) return { subtotal: 0, seats: [] as Array<{ id: string; price: number }> };
-
-    const seatLookup = new Map(event.seatMap.map((s) => [s.id, s]));
-    const seats = Array.from(selected).map((seatId) => {
-      const seatMeta = seatLookup.get(seatId);
-      const zone = seatMeta ? event.pricing[seatMeta.section] : undefined;
-      return { id: seatId, price: zone?.price || 0 };
-    });
+  const extendHold = useCallback(async () => {
+    if (!currentHoldId) return;
 
-    const subtotal = seats.reduce((sum, seat) => sum + seat.price, 0);
-    return { subtotal, seats };
-  }, [event, selected]);
+    setExtendingHold(true);
+    try {
+      const response = await seatApi.extendHold(currentHoldId, getSessionId());
+      sendCheckout({ type: 'HOLD_EXTENDED', holdId: response.data.holdId, expiresAt: response.data.expiresAt });
+      setHoldNotice(null);
+    } catch (error: any) {
+      console.error('❌ Failed to extend hold:', error);
+      alert(error.response?.data?.message || 'Could not extend your hold. Please finish checkout before it expires.');
+    } finally {
+      setExtendingHold(false);
+    }
+  }, [currentHoldId, sendCheckout]);
 
-  const fees = Math.round(priceBreakdown.subtotal * 0.05);
-  const tax = Math.round(priceBreakdown.subtotal * 0.08);
-  const total = priceBreakdown.subtotal + fees + tax;
+  // Replace the current selection, e.g. with a best-available block or a rule suggestion
+  const replaceSelection = useCallback(async (seatIds: string[]) => {
+    if (currentHoldId) {
+      await releaseHeldSeats();
+    }
+    setSeatRuleNotice(null);
+    setSelected(new Set(seatIds));
+    await holdSeatsForUser(seatIds);
+  }, [currentHoldId, releaseHeldSeats, holdSeatsForUser]);
+
+  // All fee, tax and discount math happens on the server
+  const { quote, loading: quoteLoading, error: quoteError } = useOrderQuote(
+    eventId && selected.size > 0
+      ? { eventId, seatIds: Array.from(selected).sort(), promoCode: promo.promo?.code }
+      : null
+  );
+  // Once the order exists, its breakdown is what gets charged
+  const totals = checkout.state.breakdown ?? quote;
+  const pricingChanged = !!quote && !!checkout.state.breakdown && breakdownDiffers(quote, checkout.state.breakdown);
+  const currency = quote?.currency ?? 'USD';
+  const promoLocked = checkoutStatus !== 'selecting' && checkoutStatus !== 'collecting_details';
+
+  const hasSeatCoordinates = useMemo(
+    () => !!event?.seatMap.some((seat) => seat.coordinates),
+    [event?.seatMap]
+  );
 
   const ensureAuthenticatedCustomer = useCallback(async (): Promise<boolean> => {
     if (isAuthenticated || localStorage.getItem('accessToken')) return true;
@@ -377,6 +489,39 @@ export function EventDetailsPage() {
     }
   }, [authMode, authEmail, authPassword]);
 
+  // Payment has been taken: turn the order it was taken for into tickets
+  const finalizeCheckout = useCallback(async (orderId: string) => {
+    const { status } = getCheckoutState();
+
+    const orderDetails = await runCheckout(
+      status === 'error' ? { type: 'RETRY' } : { type: 'PAYMENT_CONFIRMED' },
+      async () => {
+        await orderApi.finalizeOrder(orderId);
+        const response = await orderApi.getOrder(orderId);
+        return response.data;
+      },
+      (order) => ({ type: 'ORDER_FINALIZED', orderId: order._id, orderNumber: order.orderNumber })
+    );
+    if (!orderDetails) return;
+
+    setOrderSuccess({
+      orderNumber: orderDetails.orderNumber,
+      orderId: orderDetails._id,
+      tickets: orderDetails.ticketIds.map((ticket) => ({
+        ticketCode: ticket.ticketCode,
+        qrCodeUrl: ticket.qrCodeUrl,
+        seatId: ticket.seatId,
+      })),
+    });
+    setSelected(new Set());
+    setCurrentHoldSeats([]);
+  }, [getCheckoutState, runCheckout]);
+
+  const closeOrderSuccess = useCallback(() => {
+    setOrderSuccess(null);
+    sendCheckout({ type: 'RESET' });
+  }, [sendCheckout]);
+
   // Checkout handler
   const handleCheckout = useCallback(async () => {
     if (!eventId || selected.size === 0) return;
@@ -397,51 +542,52 @@ export function EventDetailsPage() {
       }
     }
 
-    setCheckoutLoading(true);
-    try {
-      const sessionId = getSessionId();
+    // A failed intent can be retried a few times before the buyer has to start over
+    const current = getCheckoutState();
+    const retrying = current.status === 'error' && current.error?.step === 'creating_intent';
+    if (retrying && !canRetry(current)) {
+      alert('We could not start checkout after several attempts. Please select your seats again.');
+      await releaseHeldSeats();
+      setSelected(new Set());
+      return;
+    }
 
-      const response = await orderApi.createCheckoutIntent({
-        eventId: eventId,
-        seatIds: Array.from(selected),
-        customerInfo: {
-          email: customerEmail || localStorage.getItem('userProfile') ? JSON.parse(localStorage.getItem('userProfile') || '{}').email : '',
-          firstName: customerFirstName || JSON.parse(localStorage.getItem('userProfile') || '{}').firstName || '',
-          lastName: customerLastName || JSON.parse(localStorage.getItem('userProfile') || '{}').lastName || '',
-        },
-        sessionId,
-      });
+    const sessionId = getSessionId();
+    const response = await runCheckout(
+      retrying ? { type: 'RETRY' } : { type: 'DETAILS_SUBMITTED' },
+      () =>
+        orderApi.createCheckoutIntent({
+          eventId: eventId,
+          seatIds: Array.from(selected),
+          customerInfo: {
+            email: customerEmail || localStorage.getItem('userProfile') ? JSON.parse(localStorage.getItem('userProfile') || '{}').email : '',
+            firstName: customerFirstName || JSON.parse(localStorage.getItem('userProfile') || '{}').firstName || '',
+            lastName: customerLastName || JSON.parse(localStorage.getItem('userProfile') || '{}').lastName || '',
+          },
+          sessionId,
+          promoCode: promo.promo?.code,
+        }),
+      (res) => ({
+        type: 'INTENT_CREATED',
+        orderId: res.data.orderId,
+        orderNumber: res.data.orderNumber,
+        clientSecret: res.data.paymentIntentClientSecret,
+        breakdown: res.data.breakdown,
+      })
+    );
 
-      console.log('✅ Order created:', response.data);
+    if (!response) {
+      alert(getCheckoutState().error?.message || 'Checkout failed. Please try again.');
+      return;
+    }
 
-      if (response.data.paymentIntentClientSecret) {
-        setPaymentClientSecret(response.data.paymentIntentClientSecret);
-        setPendingOrderId(response.data.orderId);
-        setPendingOrderNumber(response.data.orderNumber);
-      } else {
-        // Fallback: finalize immediately if no client secret returned
-        await orderApi.finalizeOrder(response.data.orderId);
-        const orderDetails = await orderApi.getOrder(response.data.orderId);
-        setOrderSuccess({
-          orderNumber: response.data.orderNumber,
-          orderId: response.data.orderId,
-          tickets: orderDetails.data.ticketIds?.map((ticket: any) => ({
-            ticketCode: ticket.ticketCode,
-            qrCodeUrl: ticket.qrCodeUrl,
-            seatId: ticket.seatId,
-          })),
-        });
-        setSelected(new Set());
-        setCurrentHoldId(null);
-        setHoldExpiresAt(null);
-      }
-    } catch (error: any) {
-      console.error('❌ Checkout failed:', error);
-      alert(error.response?.data?.message || 'Checkout failed. Please try again.');
-    } finally {
-      setCheckoutLoading(false);
+    console.log('✅ Order created:', response.data);
+
+    // Fallback: finalize immediately if no client secret returned
+    if (!response.data.paymentIntentClientSecret) {
+      await finalizeCheckout(response.data.orderId);
     }
-  }, [eventId, selected]);
+  }, [eventId, selected, promo.promo, getCheckoutState, runCheckout, releaseHeldSeats, finalizeCheckout]);
 
   const stripePromise = useMemo(() => {
     const key = import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY || '';
@@ -454,6 +600,7 @@ export function EventDetailsPage() {
   useEffect(() => {
     if (!holdExpiresAt) {
       setTimeRemaining('');
+      setHoldNotice((prev) => (prev?.kind === 'expiring' || prev?.kind === 'checking_payment' ? null : prev));
       return;
     }
 
@@ -463,27 +610,15 @@ export function EventDetailsPage() {
 
       if (diff <= 0) {
         setTimeRemaining('Expired');
-
-        if (currentHoldSeats.length > 0) {
-          setEvent((prev) =>
-            prev
-              ? {
-                  ...prev,
-                  seatMap: prev.seatMap.map((seat) =>
-                    currentHoldSeats.includes(seat.id) ? { ...seat, status: 'available' as SeatState } : seat
-                  ),
-                }
-              : null
-          );
-        }
-
-        setSelected(new Set());
-        setCurrentHoldSeats([]);
-        setCurrentHoldId(null);
-        setHoldExpiresAt(null);
+        recoverExpiredHold(currentHoldSeats);
         return;
       }
 
+      if (diff <= HOLD_WARNING_MS && warnedExpiryRef.current !== holdExpiresAt.getTime()) {
+        warnedExpiryRef.current = holdExpiresAt.getTime();
+        setHoldNotice({ kind: 'expiring' });
+      }
+
       const minutes = Math.floor(diff / 60000);
       const seconds = Math.floor((diff % 60000) / 1000);
       setTimeRemaining(`${minutes}:${seconds.toString().padStart(2, '0')}`);
@@ -493,7 +628,7 @@ export function EventDetailsPage() {
     const interval = setInterval(updateTimer, 1000);
 
     return () => clearInterval(interval);
-  }, [holdExpiresAt, currentHoldSeats]);
+  }, [holdExpiresAt, currentHoldSeats, recoverExpiredHold]);
 
   if (loading) {
     return (
@@ -561,32 +696,80 @@ export function EventDetailsPage() {
               </span>
             </div>
           </div>
-          <div className="seat-grid">
-            {seatPlanLoading ? (
-              <p className="muted" style={{ textAlign: 'center', width: '100%' }}>
-                Loading seat map...
+          {!seatPlanLoading && event.seatMap.length > 0 && (
+            <BestAvailablePicker
+              seats={event.seatMap}
+              pricing={event.pricing}
+              onHold={replaceSelection}
+              disabled={holdLoading}
+            />
+          )}
+          {!seatPlanLoading && hasSeatCoordinates ? (
+            <SeatMap
+              seats={event.seatMap}
+              seatMapSvg={event.seatMapSvg}
+              selected={selected}
+              onSeatClick={toggleSeat}
+              disabled={holdLoading}
+            />
+          ) : (
+            <div className="seat-grid">
+              {seatPlanLoading ? (
+                <p className="muted" style={{ textAlign: 'center', width: '100%' }}>
+                  Loading seat map...
+                </p>
+              ) : event.seatMap && event.seatMap.length > 0 ? (
+                event.seatMap.map((seat) => {
+                  const isSelected = selected.has(seat.id);
+                  return (
+                    <button
+                      key={seat.id}
+                      className={`seat ${seat.status} ${isSelected ? 'selected' : ''}`}
+                      onClick={() => toggleSeat(seat)}
+                      aria-label={seat.id}
+                    >
+                      {seat.seat || seat.id.split('-').at(-1)}
+                    </button>
+                  );
+                })
+              ) : (
+                <p className="muted" style={{ textAlign: 'center', width: '100%' }}>
+                  No seat map available for this event.
+                </p>
+              )}
+            </div>
+          )}
+          {seatRuleNotice && (
+            <div
+              className="summary-card"
+              role="alert"
+              style={{
+                marginTop: '1rem',
+                borderColor: seatRuleNotice.severity === 'block' ? '#ef4444' : '#f59e0b',
+              }}
+            >
+              <p className="small" style={{ margin: 0 }}>
+                {seatRuleNotice.message}
+                {seatRuleNotice.severity === 'block' && ' Please choose seats that keep neighbours together.'}
               </p>
-            ) : event.seatMap && event.seatMap.length > 0 ? (
-              event.seatMap.map((seat) => {
-                const isSelected = selected.has(seat.id);
-                return (
+              <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem' }}>
+                {seatRuleNotice.suggestion && (
                   <button
-                    key={seat.id}
-                    className={`seat ${seat.status} ${isSelected ? 'selected' : ''}`}
-                    onClick={() => toggleSeat(seat)}
-                    aria-label={seat.id}
+                    className="primary"
+                    type="button"
+                    disabled={holdLoading}
+                    onClick={() => replaceSelection(seatRuleNotice.suggestion!)}
                   >
-                    {seat.seat || seat.id.split('-').at(-1)}
+                    Use suggested seats
                   </button>
-                );
-              })
-            ) : (
-              <p className="muted" style={{ textAlign: 'center', width: '100%' }}>
-                No seat map available for this event.
-              </p>
-            )}
-          </div>
-          {event.seatMapSvg && (
+                )}
+                <button className="ghost" type="button" onClick={() => setSeatRuleNotice(null)}>
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          )}
+          {!hasSeatCoordinates && event.seatMapSvg && (
             <div className="svg-panel" dangerouslySetInnerHTML={{ __html: event.seatMapSvg }} />
           )}
         </div>
@@ -634,25 +817,109 @@ export function EventDetailsPage() {
               />
             </div>
             <div className="summary-list">
-              {priceBreakdown.seats.map((seat) => (
-                <div key={seat.id} className="summary-row">
-                  <span>{seat.id}</span>
-                  <span>{formatCurrency(seat.price)}</span>
+              {quote?.lines.map((line) => (
+                <div key={line.type}>
+                  <div className="summary-row">
+                    <span>
+                      {line.name} × {line.quantity}
+                    </span>
+                    <span>{formatCurrency(line.unitPrice * line.quantity, currency)}</span>
+                  </div>
+                  <div className="summary-row muted small">
+                    <span>Fees</span>
+                    <span>{formatCurrency(line.fees, currency)}</span>
+                  </div>
                 </div>
               ))}
             </div>
-            <div className="summary-row">
-              <span>Fees</span>
-              <span>{formatCurrency(fees)}</span>
-            </div>
-            <div className="summary-row">
-              <span>Tax</span>
-              <span>{formatCurrency(tax)}</span>
-            </div>
-            <div className="summary-row total">
-              <span>Total</span>
-              <span>{formatCurrency(total)}</span>
+            <div className="summary-row input">
+              <span>Promo code</span>
+              {promo.promo ? (
+                <span style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                  {promo.promo.code}
+                  <button className="ghost" type="button" disabled={promoLocked} onClick={promo.clear}>
+                    Remove
+                  </button>
+                </span>
+              ) : (
+                <span style={{ display: 'flex', gap: '0.5rem' }}>
+                  <input
+                    className="summary-input"
+                    type="text"
+                    value={promo.code}
+                    onChange={(e) => promo.setCode(e.target.value)}
+                    placeholder="SAVE10"
+                    disabled={promoLocked}
+                  />
+                  <button
+                    className="ghost"
+                    type="button"
+                    disabled={promoLocked || promo.validating || !promo.code.trim()}
+                    onClick={promo.apply}
+                  >
+                    {promo.validating ? 'Checking...' : 'Apply'}
+                  </button>
+                </span>
+              )}
             </div>
+            {promo.error && (
+              <p className="small" style={{ color: '#f87171', margin: '0 0 0.5rem' }}>
+                {promo.error}
+              </p>
+            )}
+            {promo.promo?.description && (
+              <p className="muted small" style={{ margin: '0 0 0.5rem' }}>
+                {promo.promo.description}
+              </p>
+            )}
+            {promo.promo && quote && !quoteLoading && !quote.discount && (
+              <p className="small" style={{ color: '#fbbf24', margin: '0 0 0.5rem' }}>
+                {promo.promo.code} does not apply to these seats.
+              </p>
+            )}
+            {totals && (
+              <>
+                {!!totals.discount && (
+                  <div className="summary-row">
+                    <span>Discount{totals.promoCode ? ` (${totals.promoCode})` : ''}</span>
+                    <span>−{formatCurrency(totals.discount, currency)}</span>
+                  </div>
+                )}
+                <div className="summary-row">
+                  <span>Fees</span>
+                  <span>{formatCurrency(totals.fees, currency)}</span>
+                </div>
+                <div className="summary-row">
+                  <span>{taxLabel(quote)}</span>
+                  <span>{formatCurrency(totals.tax, currency)}</span>
+                </div>
+                {!!quote?.rounding && (
+                  <div className="summary-row muted small">
+                    <span>Rounding</span>
+                    <span>{formatCurrency(quote.rounding, currency)}</span>
+                  </div>
+                )}
+                <div className="summary-row total">
+                  <span>Total</span>
+                  <span>{formatCurrency(totals.total, currency)}</span>
+                </div>
+              </>
+            )}
+            {selected.size > 0 && quoteLoading && (
+              <p className="muted small" style={{ margin: '0 0 0.75rem' }}>
+                Updating price...
+              </p>
+            )}
+            {quoteError && (
+              <p className="small" style={{ color: '#f87171', margin: '0 0 0.75rem' }}>
+                {quoteError}
+              </p>
+            )}
+            {pricingChanged && (
+              <p className="muted small" style={{ margin: '0 0 0.75rem' }}>
+                Totals were updated when your order was created. The amount above is what you will be charged.
+              </p>
+            )}
             {timeRemaining && (
               <div
                 style={{
@@ -671,7 +938,8 @@ export function EventDetailsPage() {
             <button
               className="primary full"
               type="button"
-              disabled={selected.size === 0 || holdLoading || checkoutLoading}
+              // Never start payment against a total the buyer has not seen
+              disabled={selected.size === 0 || holdLoading || checkoutLoading || quoteLoading || !quote}
               onClick={handleCheckout}
             >
               {checkoutLoading ? 'Processing...' : holdLoading ? 'Holding seats...' : 'Continue to payment'}
@@ -792,34 +1060,31 @@ export function EventDetailsPage() {
           key={paymentClientSecret}
         >
           <PaymentModal
-            onClose={() => {
-              setPaymentClientSecret(null);
-              setPendingOrderId(null);
-              setPendingOrderNumber(null);
-            }}
+            onClose={() => sendCheckout({ type: 'PAYMENT_CANCELLED' })}
             orderId={pendingOrderId}
             orderNumber={pendingOrderNumber}
-            onSuccess={async (orderDetails) => {
-              setOrderSuccess({
-                orderNumber: orderDetails.orderNumber || pendingOrderNumber || '',
-                orderId: orderDetails._id || pendingOrderId || '',
-                tickets: orderDetails.ticketIds?.map((ticket: any) => ({
-                  ticketCode: ticket.ticketCode,
-                  qrCodeUrl: ticket.qrCodeUrl,
-                  seatId: ticket.seatId,
-                })),
-              });
-              setSelected(new Set());
-              setCurrentHoldId(null);
-              setHoldExpiresAt(null);
-              setPaymentClientSecret(null);
-              setPendingOrderId(null);
-              setPendingOrderNumber(null);
+            paymentConfirmed={paymentConfirmed}
+            finalizing={checkoutStatus === 'finalizing'}
+            error={checkoutStatus === 'error' ? checkout.state.error?.message : undefined}
+            canRetry={canRetry(checkout.state)}
+            onPaymentInFlight={(inFlight) => {
+              paymentInFlightRef.current = inFlight;
             }}
+            onConfirmed={finalizeCheckout}
           />
         </Elements>
       )}
 
+      {holdNotice && (
+        <HoldExpiryModal
+          notice={holdNotice}
+          timeRemaining={timeRemaining}
+          extending={extendingHold}
+          onExtend={extendHold}
+          onDismiss={() => setHoldNotice(null)}
+        />
+      )}
+
       {/* Success Modal */}
       {orderSuccess && (
         <div
@@ -835,7 +1100,7 @@ export function EventDetailsPage() {
             justifyContent: 'center',
             zIndex: 1000,
           }}
-          onClick={() => setOrderSuccess(null)}
+          onClick={closeOrderSuccess}
         >
           <div
             style={{
@@ -943,21 +1208,41 @@ export function EventDetailsPage() {
 const PaymentModal = ({
   orderId,
   orderNumber,
-  onSuccess,
+  paymentConfirmed,
+  finalizing,
+  error,
+  canRetry,
+  onPaymentInFlight,
+  onConfirmed,
   onClose,
 }: {
   orderId: string | null;
   orderNumber: string | null;
-  onSuccess: (orderDetails: any) => void;
+  // Stripe already took the payment; only finalizing the order remains
+  paymentConfirmed: boolean;
+  finalizing: boolean;
+  error?: string;
+  canRetry: boolean;
+  onPaymentInFlight: (inFlight: boolean) => void;
+  onConfirmed: (paidOrderId: string) => Promise<void>;
   onClose: () => void;
 }) => {
   const stripe = useStripe();
   const elements = useElements();
   const [loading, setLoading] = useState(false);
+  const busy = loading || finalizing;
 
   const confirmPayment = async () => {
-    if (!stripe || !elements || !orderId) return;
+    if (!orderId) return;
+    // The order being paid for, even if the checkout moves on while Stripe is busy
+    const paidOrderId = orderId;
+    if (paymentConfirmed) {
+      await onConfirmed(paidOrderId);
+      return;
+    }
+    if (!stripe || !elements) return;
     setLoading(true);
+    onPaymentInFlight(true);
     try {
       const result = await stripe.confirmPayment({
         elements,
@@ -973,12 +1258,12 @@ const PaymentModal = ({
         return;
       }
 
-      const finalize = await orderApi.finalizeOrder(orderId);
-      const orderDetails = await orderApi.getOrder(orderId);
-      onSuccess(orderDetails.data || finalize.data);
+      setLoading(false);
+      await onConfirmed(paidOrderId);
     } catch (err: any) {
       alert(err.message || 'Payment confirmation failed. Please try again.');
     } finally {
+      onPaymentInFlight(false);
       setLoading(false);
     }
   };
@@ -995,7 +1280,7 @@ const PaymentModal = ({
         zIndex: 1000,
         padding: '1rem',
       }}
-      onClick={onClose}
+      onClick={paymentConfirmed || busy ? undefined : onClose}
     >
       <div
         style={{
@@ -1018,23 +1303,39 @@ const PaymentModal = ({
           <span>Order</span>
           <span>{orderNumber || orderId}</span>
         </div>
+        {error && (
+          <p className="small" style={{ color: '#f87171', marginTop: '0.75rem' }}>
+            {canRetry
+              ? `Your payment was received but the order could not be completed: ${error}`
+              : `Your payment was received but the order could not be completed. Please contact support with order ${orderNumber || orderId}.`}
+          </p>
+        )}
         <button
           className="primary full"
           type="button"
           style={{ marginTop: '1rem' }}
-          disabled={loading}
+          disabled={busy || (paymentConfirmed && !canRetry && !finalizing)}
           onClick={confirmPayment}
         >
-          {loading ? 'Processing payment...' : 'Confirm and pay'}
-        </button>
-        <button
-          className="ghost"
-          type="button"
-          style={{ marginTop: '0.5rem', width: '100%' }}
-          onClick={onClose}
-        >
-          Cancel
+          {finalizing
+            ? 'Completing order...'
+            : loading
+              ? 'Processing payment...'
+              : paymentConfirmed
+                ? 'Retry completing order'
+                : 'Confirm and pay'}
         </button>
+        {!paymentConfirmed && (
+          <button
+            className="ghost"
+            type="button"
+            style={{ marginTop: '0.5rem', width: '100%' }}
+            disabled={busy}
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+        )}
       </div>
     </div>
   );
@@ -1,30 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { eventApi, type Event as APIEvent } from '../services/api';
-
-type Event = {
-  id: string;
-  title: string;
-  date: string;
-  venue: string;
-  city: string;
-  image: string;
-};
-
-const transformEvent = (apiEvent: APIEvent): Event => {
-  return {
-    id: apiEvent._id,
-    title: apiEvent.title,
-    date: new Date(apiEvent.eventDate).toISOString().split('T')[0],
-    venue: apiEvent.venueId?.name || 'Unknown Venue',
-    city: apiEvent.venueId ? `${apiEvent.venueId.address.city}, ${apiEvent.venueId.address.state}` : 'Unknown',
-    image: apiEvent.imageUrl || 'https://images.unsplash.com/photo-1514525253161-7a46d19cd819?auto=format&fit=crop&w=1600&q=80',
-  };
-};
+import { eventApi } from '../services/api';
+import { toEventSummary, type EventSummary } from '../lib/event-normalizers';
 
 export function HomePage() {
   const navigate = useNavigate();
-  const [events, setEvents] = useState<Event[]>([]);
+  const [events, setEvents] = useState<EventSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -33,7 +14,7 @@ export function HomePage() {
       try {
         setLoading(true);
         const response = await eventApi.getEvents();
-        const transformedEvents = response.data.map(transformEvent);
+        const transformedEvents = response.data.map(toEventSummary);
         setEvents(transformedEvents);
         setError(null);
       } catch (err: any) {
@@ -1,9 +1,9 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { orderApi } from '../services/api';
+import { orderApi, type Order } from '../services/api';
 
 export function UserOrdersPage() {
-  const [orders, setOrders] = useState<any[]>([]);
+  const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const navigate = useNavigate();
@@ -90,11 +90,17 @@ export function UserOrdersPage() {
                 <span>Status</span>
                 <span>{order.paymentStatus}</span>
               </div>
-              {order.ticketIds?.length > 0 && (
+              <div className="summary-row">
+                <span>Details</span>
+                <button className="ghost" onClick={() => navigate(`/orders/${order._id}`)}>
+                  Tickets &amp; receipt
+                </button>
+              </div>
+              {order.ticketIds.length > 0 && (
                 <div className="summary-row input">
                   <span>Tickets</span>
                   <div style={{ display: 'grid', gap: '6px' }}>
-                    {order.ticketIds.map((t: any) => (
+                    {order.ticketIds.map((t) => (
                       <span key={t._id || t.ticketCode} className="muted small">
                         {t.seatId} · {t.ticketCode}
                       </span>
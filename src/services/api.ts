@@ -1,4 +1,35 @@
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import {
+  adminUserSchema,
+  array,
+  checkoutIntentSchema,
+  claimedTicketSchema,
+  eventDraftSchema,
+  eventSalesStatsSchema,
+  eventSchema,
+  orderQuoteSchema,
+  orderSchema,
+  paginated,
+  promoCodeSchema,
+  refundRequestSchema,
+  reviewEventSchema,
+  salesSummarySchema,
+  seatAvailabilitySchema,
+  seatHoldSchema,
+  scanLogEntrySchema,
+  seatPlanSchema,
+  staffEventSchema,
+  staffTicketSchema,
+  syncedScanSchema,
+  ticketScanHistorySchema,
+  ticketScanResponseSchema,
+  ticketTransferSchema,
+  transferInviteSchema,
+  validate,
+  venueDetailSchema,
+  venueWithSectionsSchema,
+  type Schema,
+} from './schemas';
 
 // API base URL - using Next.js environment variables
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:6868/api/v1';
@@ -24,53 +55,422 @@ apiClient.interceptors.request.use(
   (error) => Promise.reject(error)
 );
 
-// Response interceptor for error handling
+type RetryableRequest = InternalAxiosRequestConfig & { _retry?: boolean };
+
+type RefreshSubscriber = {
+  resolve: (accessToken: string) => void;
+  reject: (error: unknown) => void;
+};
+
+// Only one refresh runs at a time; requests that fail meanwhile wait here
+let isRefreshing = false;
+let refreshSubscribers: RefreshSubscriber[] = [];
+
+const REFRESH_PATHS = ['/auth/refresh', '/staff/auth/refresh'];
+// A 401 from these means bad credentials, not an expired session
+const CREDENTIAL_PATHS = ['/auth/login', '/auth/register', '/staff/auth/login'];
+
+const flushRefreshSubscribers = (error: unknown, accessToken?: string) => {
+  refreshSubscribers.forEach(({ resolve, reject }) => {
+    if (accessToken) {
+      resolve(accessToken);
+    } else {
+      reject(error);
+    }
+  });
+  refreshSubscribers = [];
+};
+
+export const SESSION_EXPIRED_EVENT = 'tiki-taka:session-expired';
+
+export interface SessionExpiredDetail {
+  // Staff sign back in through the admin login, not the customer one
+  isStaffSession: boolean;
+}
+
+// Everything the door scanner keeps for offline use: assigned events, gate, ticket lists and queued scans
+export const STAFF_SCAN_KEY_PREFIX = 'staffScan';
+
+/**
+ * Drop the door scanner's offline data so the next person to sign in on the device can't see it
+ */
+export const clearStaffScanData = () =>
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(STAFF_SCAN_KEY_PREFIX))
+    .forEach((key) => localStorage.removeItem(key));
+
+/**
+ * Drop stored credentials and let the app react (AuthProvider listens for this)
+ */
+export const clearSession = () => {
+  const isStaffSession = !!localStorage.getItem('staffProfile');
+  localStorage.removeItem('accessToken');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('userProfile');
+  localStorage.removeItem('staffProfile');
+  clearStaffScanData();
+  window.dispatchEvent(new CustomEvent<SessionExpiredDetail>(SESSION_EXPIRED_EVENT, { detail: { isStaffSession } }));
+};
+
+const refreshAccessToken = async (): Promise<string> => {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    throw new Error('No refresh token available');
+  }
+
+  // Staff sessions are issued by a separate auth service
+  const isStaffSession = !!localStorage.getItem('staffProfile');
+  const response = isStaffSession
+    ? await staffAuthApi.refresh(refreshToken)
+    : await authApi.refresh(refreshToken);
+
+  localStorage.setItem('accessToken', response.data.accessToken);
+  if (response.data.refreshToken) {
+    localStorage.setItem('refreshToken', response.data.refreshToken);
+  }
+  return response.data.accessToken;
+};
+
+// Response interceptor for error handling and transparent token refresh
 apiClient.interceptors.response.use(
   (response) => response.data, // Return just the data
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      localStorage.removeItem('accessToken');
-      localStorage.removeItem('refreshToken');
-      // Could trigger a logout or redirect here
+  async (error) => {
+    const originalRequest = error.config as RetryableRequest | undefined;
+    const isRefreshCall = REFRESH_PATHS.some((path) => originalRequest?.url?.endsWith(path));
+    const isCredentialCall = CREDENTIAL_PATHS.some((path) => originalRequest?.url?.endsWith(path));
+    // Anonymous requests (guest pages, public lookups) have no session to refresh or expire
+    const sentAccessToken = !!originalRequest?.headers?.Authorization;
+
+    if (
+      error.response?.status !== 401 ||
+      !originalRequest ||
+      originalRequest._retry ||
+      isRefreshCall ||
+      isCredentialCall ||
+      !sentAccessToken
+    ) {
+      return Promise.reject(error);
+    }
+
+    if (!localStorage.getItem('refreshToken')) {
+      clearSession();
+      return Promise.reject(error);
+    }
+
+    originalRequest._retry = true;
+
+    if (isRefreshing) {
+      // Wait for the in-flight refresh, then replay with the new token
+      return new Promise((resolve, reject) => {
+        refreshSubscribers.push({
+          resolve: (accessToken) => {
+            originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+            resolve(apiClient(originalRequest));
+          },
+          reject,
+        });
+      });
+    }
+
+    isRefreshing = true;
+    try {
+      const accessToken = await refreshAccessToken();
+      flushRefreshSubscribers(null, accessToken);
+      originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+      return apiClient(originalRequest);
+    } catch (refreshError) {
+      flushRefreshSubscribers(refreshError);
+      clearSession();
+      return Promise.reject(refreshError);
+    } finally {
+      isRefreshing = false;
     }
-    return Promise.reject(error);
   }
 );
 
 // API Types
+export type EventType = 'concert' | 'sports' | 'theater' | 'conference' | 'other';
+
+export type EventStatus =
+  | 'draft'
+  | 'pending'
+  | 'changes_requested'
+  | 'approved'
+  | 'published'
+  | 'cancelled'
+  | 'completed'
+  | 'rejected';
+
+export interface VenueAddress {
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+export interface EventVenue {
+  _id: string;
+  name: string;
+  address: VenueAddress;
+}
+
+export interface PricingZone {
+  name: string;
+  price: number;
+  currency: string;
+  available: number;
+}
+
+export type SeatRuleMode = 'off' | 'warn' | 'block';
+
+export interface EventSeatingRules {
+  orphanSeats?: SeatRuleMode;
+  maxOrphanSize?: number;
+}
+
+/**
+ * Share of the ticket price refunded, by how long before the event the refund
+ * is requested. The tier with the largest `hoursBefore` the request meets applies.
+ */
+export interface RefundPolicy {
+  tiers: { hoursBefore: number; percent: number }[];
+  // Whether booking fees are refunded along with the tickets
+  refundFees: boolean;
+}
+
 export interface Event {
   _id: string;
   title: string;
   slug: string;
   description: string;
-  eventType: 'concert' | 'sports' | 'theater' | 'conference' | 'other';
-  imageUrl: string;
-  startDate: string;
-  endDate: string;
-  doorTime: string;
-  location: {
-    venue: string;
-    address: string;
-    city: string;
-    state: string;
-    country: string;
-    latitude: number;
-    longitude: number;
-  };
-  ticketTypes: TicketType[];
-  status: 'draft' | 'pending' | 'approved' | 'published' | 'cancelled' | 'completed' | 'rejected';
+  eventType: EventType;
+  imageUrl?: string;
+  eventDate: string;
+  eventEndDate?: string;
+  doorOpenTime?: string;
+  venueId: EventVenue;
+  pricingZones: Record<string, PricingZone>;
+  // See EventPricingConfig; absent on events priced purely by section
+  sectionZones?: Record<string, string>;
+  seatZones?: Record<string, string>;
+  seatingRules?: EventSeatingRules;
+  refundPolicy?: RefundPolicy;
+  status: EventStatus;
   totalCapacity: number;
   soldCount: number;
-  organizer: {
-    _id: string;
-    name: string;
-    email: string;
-  };
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * How an event's seats map to pricing zones. A seat's zone is its entry in
+ * seatZones, else its section's entry in sectionZones, else the zone keyed by
+ * its section code.
+ */
+export interface EventPricingConfig {
+  pricingZones: Record<string, PricingZone>;
+  sectionZones: Record<string, string>;
+  seatZones: Record<string, string>;
+}
+
+/**
+ * Period during which some or all pricing zones are on sale
+ */
+export interface SalesWindow {
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  // Pricing zone keys on sale in this window; every zone when omitted
+  zones?: string[];
+}
+
+/**
+ * Organizer's editable copy of an event. Fields are filled in over several
+ * wizard steps, so anything beyond the title may still be missing on a draft.
+ */
+export interface EventDraft {
+  _id: string;
+  status: EventStatus;
+  title: string;
+  description?: string;
+  eventType?: EventType;
+  imageUrl?: string;
+  eventDate?: string;
+  eventEndDate?: string;
+  doorOpenTime?: string;
+  venueId?: string;
+  pricingZones: Record<string, PricingZone>;
+  salesWindows: SalesWindow[];
+  // Reviewer feedback when the event was rejected or sent back for changes
+  reviewNote?: string;
+  soldCount: number;
+  totalCapacity: number;
+  updatedAt: string;
+}
+
+export interface ZoneSales {
+  sold: number;
+  revenue: number;
+}
+
+/**
+ * Live sales and attendance numbers for one of the organizer's events
+ */
+export interface EventSalesStats {
+  eventId: string;
+  soldCount: number;
+  totalCapacity: number;
+  // Seats currently held in someone's checkout
+  heldCount: number;
+  checkedInCount: number;
+  revenue: number;
+  currency: string;
+  revenueByZone: Record<string, ZoneSales>;
+  // Tickets sold over trailing windows
+  salesVelocity: {
+    lastHour: number;
+    last24Hours: number;
+    last7Days: number;
+  };
+}
+
+/**
+ * Platform-wide totals of paid orders for the admin overview
+ */
+export interface SalesSummary {
+  // Currencies are totalled separately, never added together
+  revenueByCurrency: Record<string, number>;
+  paidOrders: number;
+}
+
+export type EventDraftInput = Partial<Omit<EventDraft, '_id' | 'status' | 'reviewNote' | 'soldCount' | 'updatedAt'>>;
+
+export interface VenueSection {
+  sectionCode: string;
+  name: string;
+  capacity?: number;
+}
+
+export interface Venue extends EventVenue {
+  sections: VenueSection[];
+  totalSeats?: number;
+}
+
+/**
+ * Snapshot of a venue's sections. Editing a venue adds a version; events stay
+ * pinned to the version they were created against.
+ */
+export interface VenueLayoutVersion {
+  version: number;
+  createdAt: string;
+  createdBy?: { _id: string; name: string };
+  note?: string;
+}
+
+export interface VenueEventUsage {
+  _id: string;
+  title: string;
+  eventDate: string;
+  status: EventStatus;
+  layoutVersion: number;
+  // Keyed by section code
+  soldBySection: Record<string, number>;
+}
+
+export interface VenueDetail extends Venue {
+  seatMapSvg?: string;
+  layoutVersion: number;
+  versions: VenueLayoutVersion[];
+  events: VenueEventUsage[];
+}
+
+export interface VenueUpdateInput {
+  name: string;
+  address: VenueAddress;
+  sections: VenueSection[];
+  // Recorded on the new layout version
+  note?: string;
+}
+
+/**
+ * Seat parsed from an uploaded SVG; seatId is `${section}-${row}-${seat}`
+ */
+export interface SvgSeatRecord {
+  seatId: string;
+  section: string;
+  row: string;
+  seat: string;
+  x?: number;
+  y?: number;
+}
+
+export type VenueTemplateType = 'theater' | 'stadium' | 'general_admission';
+
+/**
+ * Rectangular block of rows × seatsPerRow, positioned in seat-map units
+ */
+export interface TheaterSection {
+  sectionCode: string;
+  name: string;
+  rows: number;
+  seatsPerRow: number;
+  startX: number;
+  startY: number;
+  seatSpacing: number;
+  rowSpacing: number;
+  hasAisle?: boolean;
+  aislePosition?: 'center';
+  // Degrees clockwise around the section's center
+  rotation?: number;
+}
+
+/**
+ * Ring of seating around the field; rows grow outward from innerRadius
+ */
+export interface StadiumTier {
+  tierCode: string;
+  name: string;
+  innerRadius: number;
+  rows: number;
+  rowSpacing: number;
+  seatSpacing: number;
+}
+
+/**
+ * Arc of a tier between two angles, in degrees clockwise from the top of the field
+ */
+export interface StadiumSection {
+  sectionCode: string;
+  name: string;
+  tierCode: string;
+  startAngle: number;
+  endAngle: number;
+}
+
+/**
+ * Standing area sold by capacity; the generator creates no seat ids for it
+ */
+export interface GeneralAdmissionArea {
+  sectionCode: string;
+  name: string;
+  capacity: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type VenueTemplateConfig =
+  | { templateType: 'theater'; sections: TheaterSection[] }
+  | {
+      templateType: 'stadium';
+      field: { width: number; height: number };
+      tiers: StadiumTier[];
+      sections: StadiumSection[];
+    }
+  | { templateType: 'general_admission'; areas: GeneralAdmissionArea[] };
+
 export interface TicketType {
   _id: string;
   name: string;
@@ -83,26 +483,240 @@ export interface TicketType {
   isActive: boolean;
 }
 
+export interface OrderBreakdown {
+  subtotal: number;
+  discount?: number;
+  fees: number;
+  tax: number;
+  total: number;
+  promoCode?: string;
+}
+
+export interface QuoteLine {
+  // Ticket type or seat section
+  type: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  fees: number;
+  total: number;
+}
+
+/**
+ * Server-side price for a prospective order, computed the same way checkout charges it
+ */
+export interface OrderQuote extends OrderBreakdown {
+  currency: string;
+  lines: QuoteLine[];
+  taxJurisdiction?: string;
+  taxRate?: number;
+  // Adjustment applied when the total is rounded, if any
+  rounding?: number;
+}
+
+// The discount itself is worked out by the server and comes back on quotes and orders
+export interface PromoCode {
+  code: string;
+  description?: string;
+}
+
+export interface Ticket {
+  _id: string;
+  ticketCode: string;
+  qrCodeUrl: string;
+  seatId: string;
+  // Set when the ticket was refunded on its own or with its order
+  refundedAt?: string;
+  // Set once a transfer of this ticket was claimed; its code no longer admits anyone
+  transferredAt?: string;
+}
+
+export type TicketTransferStatus = 'pending' | 'claimed' | 'cancelled';
+
+/**
+ * A ticket sent by its buyer to another attendee. The ticket's code stops
+ * working as soon as the transfer is sent: the recipient gets a new code when
+ * they claim it, and the sender gets one back if they cancel first.
+ */
+export interface TicketTransfer {
+  _id: string;
+  ticketId: string;
+  orderId: string;
+  seatId: string;
+  recipientEmail: string;
+  recipientName?: string;
+  message?: string;
+  status: TicketTransferStatus;
+  createdAt: string;
+  claimedAt?: string;
+  claimedAsGuest?: boolean;
+  cancelledAt?: string;
+}
+
+export interface TicketTransferInput {
+  recipientEmail: string;
+  recipientName?: string;
+  message?: string;
+}
+
+/**
+ * What the recipient sees when opening the claim link from their email
+ */
+export interface TransferInvite {
+  status: TicketTransferStatus;
+  recipientEmail: string;
+  senderName: string;
+  message?: string;
+  seatId: string;
+  event: { _id: string; title: string; eventDate: string; venueName?: string };
+}
+
+export interface TransferGuest {
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface ClaimedTicket {
+  ticket: Ticket;
+  // The recipient's new order, when the ticket was claimed into an account
+  orderId?: string;
+}
+
+export type RefundReason = 'cant_attend' | 'event_changed' | 'duplicate_purchase' | 'other';
+
+export type RefundRequestStatus = 'pending' | 'approved' | 'denied';
+
+/**
+ * A buyer's request to refund an order, or some of its tickets
+ */
+export interface RefundRequest {
+  _id: string;
+  orderId: string;
+  orderNumber: string;
+  event: { _id: string; title: string; eventDate: string };
+  // Ticket ids being refunded; the whole order when empty
+  ticketIds: string[];
+  // Seats released back to sale if the request is approved
+  seatIds: string[];
+  reason: RefundReason;
+  note?: string;
+  // What the event's refund policy allows, in the order's currency
+  amount: number;
+  status: RefundRequestStatus;
+  customerEmail?: string;
+  requestedAt: string;
+  decidedAt?: string;
+  decisionNote?: string;
+}
+
+export interface RefundRequestInput {
+  ticketIds?: string[];
+  reason: RefundReason;
+  note?: string;
+}
+
+export type TicketScanResult = 'valid' | 'already_used' | 'wrong_event' | 'not_found';
+
+/**
+ * Ticket as the door staff see it; cached per event so scans can be validated offline
+ */
+export interface StaffTicket {
+  ticketCode: string;
+  eventId: string;
+  seatId: string;
+  holderName?: string;
+  checkedInAt?: string;
+}
+
+/**
+ * Event a staff member is assigned to scan at
+ */
+export interface StaffEvent {
+  _id: string;
+  title: string;
+  eventDate: string;
+  venueName?: string;
+}
+
+export interface TicketScanResponse {
+  result: TicketScanResult;
+  // Missing for `not_found`; for `already_used`, `checkedInAt` is the first admission
+  ticket?: StaffTicket;
+}
+
+/**
+ * Scan accepted while offline, replayed to the server when the connection returns
+ */
+export interface QueuedScan {
+  ticketCode: string;
+  eventId: string;
+  gate?: string;
+  scannedAt: string;
+}
+
+/**
+ * One recorded scan attempt, whatever its result, as shown in the scan log
+ */
+export interface ScanLogEntry {
+  _id: string;
+  eventId: string;
+  ticketCode: string;
+  result: TicketScanResult;
+  gate?: string;
+  scannedBy: { _id: string; name: string };
+  scannedAt: string;
+  // Taken while the scanner was offline and replayed on sync
+  offline?: boolean;
+}
+
+export interface TicketScanHistory {
+  // Missing when no ticket was issued with this code
+  ticket?: StaffTicket;
+  scans: ScanLogEntry[];
+}
+
+export interface SyncedScan extends TicketScanResponse {
+  ticketCode: string;
+}
+
+export interface OrderCustomerInfo {
+  email: string;
+  firstName: string;
+  lastName: string;
+  phoneNumber?: string;
+}
+
+export type OrderStatus = 'pending' | 'paid' | 'cancelled' | 'refunded';
+
 export interface Order {
   _id: string;
-  event: Event;
-  user: {
-    _id: string;
-    name: string;
-    email: string;
-  };
-  ticketTypes: Array<{
-    ticketType: TicketType;
-    quantity: number;
-    price: number;
-  }>;
-  totalAmount: number;
-  status: 'pending' | 'paid' | 'cancelled' | 'refunded';
-  stripeSessionId?: string;
+  orderNumber: string;
+  eventId: string | { _id: string; title: string; eventDate?: string; venueName?: string };
+  seatIds: string[];
+  customerInfo?: OrderCustomerInfo;
+  guestEmail?: string;
+  breakdown: OrderBreakdown;
+  paymentStatus: string;
+  status?: OrderStatus;
+  ticketIds: Ticket[];
+  // Lifecycle timestamps, set as the order reaches each step
+  paidAt?: string;
+  finalizedAt?: string;
+  refundedAt?: string;
+  cancelledAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CheckoutIntent {
+  orderId: string;
+  orderNumber: string;
+  paymentStatus: string;
+  paymentIntentClientSecret: string;
+  breakdown: OrderBreakdown;
+}
+
 export interface SeatAvailability {
   seatId: string;
   status: 'available' | 'held' | 'sold';
@@ -132,9 +746,81 @@ export interface SeatHold {
   sessionId: string;
 }
 
+export interface Paginated<T> {
+  items: T[];
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface EventFieldChange {
+  // Dotted path of the changed field, e.g. "pricingZones.VIP.price"
+  field: string;
+  previous?: unknown;
+  current?: unknown;
+}
+
+/**
+ * Event as seen by the admin review queue
+ */
+export interface ReviewEvent {
+  _id: string;
+  title: string;
+  slug: string;
+  eventDate: string;
+  status: EventStatus;
+  organizer: { _id: string; name: string; email?: string };
+  submittedAt: string;
+  lastReviewedAt?: string;
+  // Latest reviewer note: rejection reason or requested changes
+  reviewNote?: string;
+  // What the organizer edited since the last review; empty on first submission
+  changes: EventFieldChange[];
+}
+
+export type UserRole = 'user' | 'organizer' | 'admin';
+
+export type UserAccountStatus = 'active' | 'pending' | 'suspended';
+
+export type UserAdminAction = 'change_role' | 'suspend' | 'reactivate' | 'delete' | 'force_password_reset';
+
+/**
+ * Audit record of an admin change to a user account
+ */
+export interface UserAdminChange {
+  action: UserAdminAction;
+  reason: string;
+  performedBy: { _id: string; name: string };
+  performedAt: string;
+}
+
+export interface AdminUser {
+  _id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  status: UserAccountStatus;
+  createdAt: string;
+  lastLoginAt?: string;
+  lastAdminChange?: UserAdminChange;
+}
+
+// Unwrap the `{ data }` envelope and validate its payload at the API boundary
+const parseData = async <T>(
+  request: Promise<{ data: unknown }>,
+  schema: Schema<T>,
+  resource: string
+): Promise<{ data: T }> => {
+  const body = await request;
+  return { data: validate(schema, body.data, resource) };
+};
+
 // Venue API Methods (admin)
 export const venueApi = {
-  async generatePreview(config: any): Promise<{ data: { seatMapSvg: string; totalSeats: number; sections: string[] } }> {
+  async generatePreview(
+    config: VenueTemplateConfig
+  ): Promise<{ data: { seatMapSvg: string; totalSeats: number; sections: string[] } }> {
     return apiClient.post('/admin/venues/preview', {
       templateConfig: config,
     });
@@ -149,13 +835,265 @@ export const venueApi = {
       zipCode: string;
       country?: string;
     };
-    templateConfig: any;
+    templateConfig: VenueTemplateConfig;
   }): Promise<{ data: any }> {
     return apiClient.post('/admin/venues/from-template', data);
   },
 
-  async listVenues(): Promise<{ data: any[] }> {
-    return apiClient.get('/admin/venues');
+  /**
+   * Create a venue from an uploaded SVG and the seats parsed out of it
+   */
+  async createVenueFromSvg(data: {
+    name: string;
+    address: VenueAddress;
+    svg: string;
+    sections: VenueSection[];
+    seats: SvgSeatRecord[];
+  }): Promise<{ data: Venue }> {
+    return parseData(apiClient.post('/admin/venues/from-svg', data), venueWithSectionsSchema, 'venue');
+  },
+
+  /**
+   * List venues with their sections, for admin tools and the event wizard
+   */
+  async listVenues(): Promise<{ data: Venue[] }> {
+    return parseData(apiClient.get('/admin/venues'), array(venueWithSectionsSchema), 'venue list');
+  },
+
+  /**
+   * Get a venue with its seat map, layout versions and the events using it
+   */
+  async getVenue(id: string): Promise<{ data: VenueDetail }> {
+    return parseData(apiClient.get(`/admin/venues/${id}`), venueDetailSchema, 'venue');
+  },
+
+  /**
+   * Save venue edits as a new layout version
+   */
+  async updateVenue(id: string, input: VenueUpdateInput): Promise<{ data: VenueDetail }> {
+    return parseData(apiClient.patch(`/admin/venues/${id}`, input), venueDetailSchema, 'venue');
+  },
+};
+
+// Organizer API Methods
+export const organizerApi = {
+  /**
+   * List events owned by the current organizer, drafts included
+   */
+  async listMyEvents(): Promise<{ data: EventDraft[] }> {
+    return parseData(apiClient.get('/organizer/events'), array(eventDraftSchema), 'organizer event list');
+  },
+
+  /**
+   * Get one of the organizer's events for editing
+   */
+  async getEventDraft(eventId: string): Promise<{ data: EventDraft }> {
+    return parseData(apiClient.get(`/organizer/events/${eventId}`), eventDraftSchema, 'event draft');
+  },
+
+  /**
+   * Start a new event as a draft
+   */
+  async createEventDraft(data: EventDraftInput): Promise<{ data: EventDraft }> {
+    return parseData(apiClient.post('/organizer/events', data), eventDraftSchema, 'event draft');
+  },
+
+  /**
+   * Save changes to a draft (or an event sent back for changes)
+   */
+  async updateEventDraft(eventId: string, data: EventDraftInput): Promise<{ data: EventDraft }> {
+    return parseData(apiClient.patch(`/organizer/events/${eventId}`, data), eventDraftSchema, 'event draft');
+  },
+
+  /**
+   * Current sales, hold and check-in numbers for one event
+   */
+  async getEventStats(eventId: string): Promise<{ data: EventSalesStats }> {
+    return parseData(apiClient.get(`/organizer/events/${eventId}/stats`), eventSalesStatsSchema, 'event stats');
+  },
+
+  /**
+   * Orders placed for one of the organizer's events
+   */
+  async listEventOrders(eventId: string): Promise<{ data: Order[] }> {
+    return parseData(apiClient.get(`/organizer/events/${eventId}/orders`), array(orderSchema), 'order list');
+  },
+
+  /**
+   * Copy an event into a new draft, without its sales
+   */
+  async duplicateEvent(eventId: string): Promise<{ data: EventDraft }> {
+    return parseData(apiClient.post(`/organizer/events/${eventId}/duplicate`), eventDraftSchema, 'event draft');
+  },
+
+  /**
+   * Put an approved event on sale (approved → published)
+   */
+  async publishEvent(eventId: string): Promise<{ data: EventDraft }> {
+    return parseData(apiClient.post(`/organizer/events/${eventId}/publish`), eventDraftSchema, 'event draft');
+  },
+
+  /**
+   * Cancel an event; ticket holders are notified and refunded by the backend
+   */
+  async cancelEvent(eventId: string, reason: string): Promise<{ data: EventDraft }> {
+    return parseData(
+      apiClient.post(`/organizer/events/${eventId}/cancel`, { reason }),
+      eventDraftSchema,
+      'event draft'
+    );
+  },
+
+  /**
+   * Submit a draft for admin approval (draft → pending)
+   */
+  async submitEventForApproval(eventId: string): Promise<{ data: EventDraft }> {
+    return parseData(apiClient.post(`/organizer/events/${eventId}/submit`), eventDraftSchema, 'event draft');
+  },
+};
+
+// Admin API Methods
+export const adminApi = {
+  /**
+   * List events in the review queue, filtered by status
+   */
+  async listEvents(params: {
+    status: EventStatus;
+    page?: number;
+    limit?: number;
+  }): Promise<{ data: Paginated<ReviewEvent> }> {
+    return parseData(apiClient.get('/admin/events', { params }), paginated(reviewEventSchema), 'review queue');
+  },
+
+  /**
+   * Revenue totals across every paid order, computed server-side
+   */
+  async getSalesSummary(): Promise<{ data: SalesSummary }> {
+    return parseData(apiClient.get('/admin/sales/summary'), salesSummarySchema, 'sales summary');
+  },
+
+  /**
+   * List user accounts, optionally filtered by a name/email search and role
+   */
+  async listUsers(params: {
+    search?: string;
+    role?: UserRole;
+    page?: number;
+    limit?: number;
+  }): Promise<{ data: Paginated<AdminUser> }> {
+    return parseData(apiClient.get('/admin/users', { params }), paginated(adminUserSchema), 'user list');
+  },
+
+  /**
+   * Change a user's role. Every user change carries the reason for the audit log.
+   */
+  async changeUserRole(userId: string, role: UserRole, reason: string): Promise<{ data: AdminUser }> {
+    return parseData(apiClient.patch(`/admin/users/${userId}/role`, { role, reason }), adminUserSchema, 'user');
+  },
+
+  /**
+   * Suspend a user, blocking sign-in until reactivated
+   */
+  async suspendUser(userId: string, reason: string): Promise<{ data: AdminUser }> {
+    return parseData(apiClient.post(`/admin/users/${userId}/suspend`, { reason }), adminUserSchema, 'user');
+  },
+
+  /**
+   * Lift a suspension
+   */
+  async reactivateUser(userId: string, reason: string): Promise<{ data: AdminUser }> {
+    return parseData(apiClient.post(`/admin/users/${userId}/reactivate`, { reason }), adminUserSchema, 'user');
+  },
+
+  /**
+   * Invalidate the user's password and email them a reset link
+   */
+  async forcePasswordReset(userId: string, reason: string): Promise<{ data: AdminUser }> {
+    return parseData(
+      apiClient.post(`/admin/users/${userId}/force-password-reset`, { reason }),
+      adminUserSchema,
+      'user'
+    );
+  },
+
+  /**
+   * Permanently delete a user account
+   */
+  async deleteUser(userId: string, reason: string): Promise<void> {
+    await apiClient.delete(`/admin/users/${userId}`, { data: { reason } });
+  },
+
+  /**
+   * Replace an event's pricing zones and its section/seat zone assignments
+   */
+  async updateEventPricing(eventId: string, config: EventPricingConfig): Promise<{ data: Event }> {
+    return parseData(apiClient.put(`/admin/events/${eventId}/pricing`, config), eventSchema, 'event');
+  },
+
+  /**
+   * List refund requests, filtered by status
+   */
+  async listRefundRequests(params: {
+    status: RefundRequestStatus;
+    page?: number;
+    limit?: number;
+  }): Promise<{ data: Paginated<RefundRequest> }> {
+    return parseData(
+      apiClient.get('/admin/refund-requests', { params }),
+      paginated(refundRequestSchema),
+      'refund queue'
+    );
+  },
+
+  /**
+   * Refund the buyer and release the seats back to sale
+   */
+  async approveRefund(requestId: string, note?: string): Promise<{ data: RefundRequest }> {
+    return parseData(
+      apiClient.post(`/admin/refund-requests/${requestId}/approve`, { note }),
+      refundRequestSchema,
+      'refund request'
+    );
+  },
+
+  /**
+   * Turn a refund request down, telling the buyer why
+   */
+  async denyRefund(requestId: string, note: string): Promise<{ data: RefundRequest }> {
+    return parseData(
+      apiClient.post(`/admin/refund-requests/${requestId}/deny`, { note }),
+      refundRequestSchema,
+      'refund request'
+    );
+  },
+
+  /**
+   * Approve a pending event
+   */
+  async approveEvent(eventId: string): Promise<{ data: ReviewEvent }> {
+    return parseData(apiClient.post(`/admin/events/${eventId}/approve`), reviewEventSchema, 'review event');
+  },
+
+  /**
+   * Reject a pending event, telling the organizer why
+   */
+  async rejectEvent(eventId: string, reason: string): Promise<{ data: ReviewEvent }> {
+    return parseData(
+      apiClient.post(`/admin/events/${eventId}/reject`, { reason }),
+      reviewEventSchema,
+      'review event'
+    );
+  },
+
+  /**
+   * Send a pending event back to the organizer with the changes to make
+   */
+  async requestEventChanges(eventId: string, message: string): Promise<{ data: ReviewEvent }> {
+    return parseData(
+      apiClient.post(`/admin/events/${eventId}/request-changes`, { message }),
+      reviewEventSchema,
+      'review event'
+    );
   },
 };
 
@@ -170,7 +1108,7 @@ export const eventApi = {
     dateFrom?: string;
     dateTo?: string;
   }): Promise<{ data: Event[] }> {
-    return apiClient.get('/events', { params: filters });
+    return parseData(apiClient.get('/events', { params: filters }), array(eventSchema), 'event list');
   },
 
   /**
@@ -182,10 +1120,10 @@ export const eventApi = {
     
     if (isObjectId) {
       // Legacy ID-based lookup
-      return apiClient.get(`/events/${identifier}`);
+      return parseData(apiClient.get(`/events/${identifier}`), eventSchema, 'event');
     } else {
       // Slug-based lookup
-      return apiClient.get(`/events/slug/${identifier}`);
+      return parseData(apiClient.get(`/events/slug/${identifier}`), eventSchema, 'event');
     }
   },
 
@@ -193,14 +1131,18 @@ export const eventApi = {
    * Get seat availability for an event
    */
   async getSeatAvailability(eventId: string): Promise<{ data: SeatAvailability[] }> {
-    return apiClient.get(`/seats/event/${eventId}/status`);
+    return parseData(
+      apiClient.get(`/seats/event/${eventId}/status`),
+      array(seatAvailabilitySchema),
+      'seat availability'
+    );
   },
 
   /**
    * Get full seat plan (seat index + statuses + SVG)
    */
   async getSeatPlan(eventId: string): Promise<{ data: SeatPlanResponse }> {
-    return apiClient.get(`/seats/event/${eventId}/plan`);
+    return parseData(apiClient.get(`/seats/event/${eventId}/plan`), seatPlanSchema, 'seat plan');
   },
 };
 
@@ -214,11 +1156,29 @@ export const seatApi = {
     seatIds: string[],
     sessionId?: string
   ): Promise<{ data: SeatHold }> {
-    return apiClient.post('/seats/hold', {
-      eventId,
-      seatIds,
-      sessionId,
-    });
+    return parseData(
+      apiClient.post('/seats/hold', {
+        eventId,
+        seatIds,
+        sessionId,
+      }),
+      seatHoldSchema,
+      'seat hold'
+    );
+  },
+
+  /**
+   * Extend an active hold, returning the hold with its new expiry
+   */
+  async extendHold(holdId: string, sessionId: string): Promise<{ data: SeatHold }> {
+    return parseData(
+      apiClient.post('/seats/hold/extend', {
+        holdId,
+        sessionId,
+      }),
+      seatHoldSchema,
+      'seat hold'
+    );
   },
 
   /**
@@ -237,7 +1197,7 @@ export const seatApi = {
    * Get full seat plan (seat index + statuses + SVG)
    */
   async getSeatPlan(eventId: string): Promise<{ data: SeatPlanResponse }> {
-    return apiClient.get(`/seats/event/${eventId}/plan`);
+    return parseData(apiClient.get(`/seats/event/${eventId}/plan`), seatPlanSchema, 'seat plan');
   },
 };
 
@@ -246,6 +1206,58 @@ export const ticketApi = {
   async getTickets(eventId: string): Promise<{ data: TicketType[] }> {
     return apiClient.get(`/tickets/event/${eventId}`);
   },
+
+  /**
+   * Send one of the current user's tickets to someone else by email
+   */
+  async transfer(ticketId: string, input: TicketTransferInput): Promise<{ data: TicketTransfer }> {
+    return parseData(
+      apiClient.post(`/tickets/${ticketId}/transfers`, input),
+      ticketTransferSchema,
+      'ticket transfer'
+    );
+  },
+
+  /**
+   * Take back a transfer that hasn't been claimed yet
+   */
+  async cancelTransfer(transferId: string): Promise<{ data: TicketTransfer }> {
+    return parseData(
+      apiClient.post(`/tickets/transfers/${transferId}/cancel`),
+      ticketTransferSchema,
+      'ticket transfer'
+    );
+  },
+
+  /**
+   * Transfers sent from one of the current user's orders, newest first
+   */
+  async listTransfers(orderId: string): Promise<{ data: TicketTransfer[] }> {
+    return parseData(
+      apiClient.get('/tickets/transfers', { params: { orderId } }),
+      array(ticketTransferSchema),
+      'ticket transfer list'
+    );
+  },
+
+  /**
+   * Look up a transfer from the token in its claim link (no account required)
+   */
+  async getTransferInvite(token: string): Promise<{ data: TransferInvite }> {
+    return parseData(apiClient.get(`/tickets/transfers/claim/${token}`), transferInviteSchema, 'transfer invite');
+  },
+
+  /**
+   * Claim a transferred ticket into the current user's account, or as a guest
+   * when `guest` is given
+   */
+  async claimTransfer(token: string, guest?: TransferGuest): Promise<{ data: ClaimedTicket }> {
+    return parseData(
+      apiClient.post(`/tickets/transfers/claim/${token}`, { guest }),
+      claimedTicketSchema,
+      'claimed ticket'
+    );
+  },
 };
 
 // Checkout API Methods
@@ -270,53 +1282,82 @@ export const orderApi = {
    */
   async createCheckoutIntent(data: {
     eventId: string;
-    tickets: { type: string; quantity: number }[];
-    customerInfo: {
-      email: string;
-      firstName: string;
-      lastName: string;
-      phoneNumber?: string;
-    };
-  }): Promise<{
+    tickets?: { type: string; quantity: number }[];
+    seatIds?: string[];
+    sessionId?: string;
+    customerInfo: OrderCustomerInfo;
+    promoCode?: string;
+  }): Promise<{ data: CheckoutIntent }> {
+    return parseData(apiClient.post('/orders/checkout-intent', data), checkoutIntentSchema, 'checkout intent');
+  },
+
+  /**
+   * Price the current selection without creating an order
+   */
+  async quote(
     data: {
-      orderId: string;
-      orderNumber: string;
-      paymentStatus: string;
-      paymentIntentClientSecret: string;
-      breakdown: {
-        subtotal: number;
-        fees: number;
-        tax: number;
-        total: number;
-      };
-    };
-  }> {
-    return apiClient.post('/orders/checkout-intent', data);
+      eventId: string;
+      tickets?: { type: string; quantity: number }[];
+      seatIds?: string[];
+      promoCode?: string;
+    },
+    signal?: AbortSignal
+  ): Promise<{ data: OrderQuote }> {
+    return parseData(apiClient.post('/orders/quote', data, { signal }), orderQuoteSchema, 'order quote');
+  },
+
+  /**
+   * Check a promo code for an event and return the discount it grants
+   */
+  async validatePromo(eventId: string, code: string): Promise<{ data: PromoCode }> {
+    return parseData(apiClient.post('/orders/promo/validate', { eventId, code }), promoCodeSchema, 'promo code');
   },
 
   /**
    * Get order details by ID
    */
-  async getOrder(orderId: string): Promise<{ data: any }> {
-    return apiClient.get(`/orders/${orderId}`);
+  async getOrder(orderId: string): Promise<{ data: Order }> {
+    return parseData(apiClient.get(`/orders/${orderId}`), orderSchema, 'order');
   },
 
   async finalizeOrder(orderId: string): Promise<{ data: any }> {
     return apiClient.post(`/orders/${orderId}/finalize`);
   },
 
+  /**
+   * Ask for a refund of a whole order, or of the given tickets
+   */
+  async requestRefund(orderId: string, input: RefundRequestInput): Promise<{ data: RefundRequest }> {
+    return parseData(
+      apiClient.post(`/orders/${orderId}/refund-requests`, input),
+      refundRequestSchema,
+      'refund request'
+    );
+  },
+
+  /**
+   * Refund requests made for one of the current user's orders
+   */
+  async listRefundRequests(orderId: string): Promise<{ data: RefundRequest[] }> {
+    return parseData(
+      apiClient.get(`/orders/${orderId}/refund-requests`),
+      array(refundRequestSchema),
+      'refund request list'
+    );
+  },
+
   /**
    * List current user's orders
    */
-  async listMyOrders(): Promise<{ data: any[] }> {
-    return apiClient.get('/orders');
+  async listMyOrders(): Promise<{ data: Order[] }> {
+    return parseData(apiClient.get('/orders'), array(orderSchema), 'order list');
   },
 
   /**
    * Admin/staff: list all orders
    */
-  async listAllOrders(): Promise<{ data: any[] }> {
-    return apiClient.get('/orders/admin/all');
+  async listAllOrders(): Promise<{ data: Order[] }> {
+    return parseData(apiClient.get('/orders/admin/all'), array(orderSchema), 'order list');
   },
 };
 
@@ -353,6 +1394,13 @@ export const authApi = {
   async guestCheckout(email: string): Promise<{ data: { sessionId: string } }> {
     return apiClient.post('/auth/guest-checkout', { email });
   },
+
+  /**
+   * Exchange a refresh token for a new access token
+   */
+  async refresh(refreshToken: string): Promise<{ data: { accessToken: string; refreshToken?: string } }> {
+    return apiClient.post('/auth/refresh', { refreshToken });
+  },
 };
 
 // Staff/Admin Auth
@@ -376,6 +1424,62 @@ export const staffAuthApi = {
   async me(): Promise<{ data: any }> {
     return apiClient.get('/staff/me');
   },
+  async refresh(refreshToken: string): Promise<{ data: { accessToken: string; refreshToken?: string } }> {
+    return apiClient.post('/staff/auth/refresh', { refreshToken });
+  },
+};
+
+// Door scanning for staff
+export const staffApi = {
+  /**
+   * Events the signed-in staff member is assigned to
+   */
+  async listAssignedEvents(): Promise<{ data: StaffEvent[] }> {
+    return parseData(apiClient.get('/staff/events'), array(staffEventSchema), 'staff event list');
+  },
+
+  /**
+   * Every ticket issued for an event, with check-in state, for offline validation
+   */
+  async getEventTickets(eventId: string): Promise<{ data: StaffTicket[] }> {
+    return parseData(apiClient.get(`/staff/events/${eventId}/tickets`), array(staffTicketSchema), 'ticket list');
+  },
+
+  /**
+   * Validate a ticket code at the door and check it in if it is valid
+   */
+  async scanTicket(eventId: string, ticketCode: string, gate?: string): Promise<{ data: TicketScanResponse }> {
+    return parseData(
+      apiClient.post(`/staff/events/${eventId}/scan`, { ticketCode, gate }),
+      ticketScanResponseSchema,
+      'ticket scan'
+    );
+  },
+
+  /**
+   * Replay scans taken offline; the earliest `scannedAt` wins if a ticket was admitted twice
+   */
+  async syncScans(scans: QueuedScan[]): Promise<{ data: SyncedScan[] }> {
+    return parseData(apiClient.post('/staff/scans/sync', { scans }), array(syncedScanSchema), 'scan sync');
+  },
+
+  /**
+   * Most recent scan attempts at an event, newest first
+   */
+  async listScanLog(eventId: string, params?: { limit?: number }): Promise<{ data: ScanLogEntry[] }> {
+    return parseData(apiClient.get(`/staff/events/${eventId}/scans`, { params }), array(scanLogEntrySchema), 'scan log');
+  },
+
+  /**
+   * Every scan attempt made with one ticket code, across events
+   */
+  async getTicketScanHistory(ticketCode: string): Promise<{ data: TicketScanHistory }> {
+    return parseData(
+      apiClient.get(`/staff/tickets/${encodeURIComponent(ticketCode)}/scans`),
+      ticketScanHistorySchema,
+      'ticket scan history'
+    );
+  },
 };
 
 export default apiClient;
\ No newline at end of file
@@ -0,0 +1,576 @@
+import type {
+  AdminUser,
+  CheckoutIntent,
+  ClaimedTicket,
+  Event,
+  EventDraft,
+  EventSalesStats,
+  EventVenue,
+  Order,
+  OrderQuote,
+  Paginated,
+  PricingZone,
+  PromoCode,
+  RefundRequest,
+  ReviewEvent,
+  SalesSummary,
+  ScanLogEntry,
+  SeatAvailability,
+  SeatHold,
+  SeatPlanResponse,
+  SeatPlanSeat,
+  StaffEvent,
+  StaffTicket,
+  SyncedScan,
+  Ticket,
+  TicketScanHistory,
+  TicketScanResponse,
+  TicketTransfer,
+  TransferInvite,
+  Venue,
+  VenueDetail,
+} from './api';
+
+/**
+ * Thrown when a backend payload does not match the shape the app relies on.
+ * Carries the resource and the exact field path so a contract change is
+ * reported once, at the API boundary, instead of as broken UI further down.
+ */
+export class ApiValidationError extends Error {
+  readonly resource: string;
+  readonly path: string;
+
+  constructor(resource: string, path: string, message: string) {
+    super(`Invalid ${resource} response at "${path}": ${message}`);
+    this.name = 'ApiValidationError';
+    this.resource = resource;
+    this.path = path;
+  }
+}
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+class SchemaMismatch extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(message);
+    this.path = path;
+  }
+}
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const mismatch = (path: string, expected: string, value: unknown) =>
+  new SchemaMismatch(path, `expected ${expected}, received ${describe(value)}`);
+
+// Primitive schemas
+export const string: Schema<string> = (value, path) => {
+  if (typeof value !== 'string') throw mismatch(path, 'string', value);
+  return value;
+};
+
+export const number: Schema<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw mismatch(path, 'number', value);
+  return value;
+};
+
+// Arbitrary JSON, passed through untouched
+export const unknown: Schema<unknown> = (value) => value;
+
+export const boolean: Schema<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw mismatch(path, 'boolean', value);
+  return value;
+};
+
+export const oneOf =
+  <T extends string>(values: readonly T[]): Schema<T> =>
+  (value, path) => {
+    if (typeof value !== 'string' || !values.includes(value as T)) {
+      throw new SchemaMismatch(path, `expected one of ${values.join(' | ')}, received ${JSON.stringify(value)}`);
+    }
+    return value as T;
+  };
+
+// Missing and null fields both collapse to undefined
+export const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : schema(value, path);
+
+export const array =
+  <T>(schema: Schema<T>): Schema<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) throw mismatch(path, 'array', value);
+    return value.map((item, index) => schema(item, `${path}[${index}]`));
+  };
+
+export const record =
+  <T>(schema: Schema<T>): Schema<Record<string, T>> =>
+  (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw mismatch(path, 'object', value);
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, schema(item, `${path}.${key}`)])
+    );
+  };
+
+export const union =
+  <A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> =>
+  (value, path) => {
+    try {
+      return first(value, path);
+    } catch {
+      return second(value, path);
+    }
+  };
+
+type Shape = Record<string, Schema<unknown>>;
+type InferShape<S extends Shape> = { [K in keyof S]: S[K] extends Schema<infer T> ? T : never };
+
+// Unknown keys are passed through so populated extras from the backend are kept
+export const object =
+  <S extends Shape>(shape: S): Schema<InferShape<S>> =>
+  (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw mismatch(path, 'object', value);
+    }
+    const source = value as Record<string, unknown>;
+    const parsed: Record<string, unknown> = { ...source };
+    for (const [key, schema] of Object.entries(shape)) {
+      parsed[key] = schema(source[key], `${path}.${key}`);
+    }
+    return parsed as InferShape<S>;
+  };
+
+// Paged list envelope used by admin endpoints
+export const paginated = <T>(schema: Schema<T>): Schema<Paginated<T>> =>
+  object({
+    items: array(schema),
+    page: number,
+    limit: number,
+    total: number,
+    totalPages: number,
+  });
+
+/**
+ * Run a schema against a payload, converting mismatches into ApiValidationError
+ */
+export function validate<T>(schema: Schema<T>, value: unknown, resource: string): T {
+  try {
+    return schema(value, '$');
+  } catch (err) {
+    if (err instanceof SchemaMismatch) {
+      const error = new ApiValidationError(resource, err.path, err.message);
+      console.error('❌ API contract violation:', error.message, value);
+      throw error;
+    }
+    throw err;
+  }
+}
+
+// Domain schemas
+const seatStatus = oneOf(['available', 'held', 'sold'] as const);
+
+const eventStatus = oneOf([
+  'draft',
+  'pending',
+  'changes_requested',
+  'approved',
+  'published',
+  'cancelled',
+  'completed',
+  'rejected',
+] as const);
+
+const eventType = oneOf(['concert', 'sports', 'theater', 'conference', 'other'] as const);
+
+const addressSchema = object({
+  street: string,
+  city: string,
+  state: string,
+  zipCode: string,
+  country: string,
+});
+
+export const venueSchema: Schema<EventVenue> = object({
+  _id: string,
+  name: string,
+  address: addressSchema,
+});
+
+const venueSectionSchema = object({ sectionCode: string, name: string, capacity: optional(number) });
+
+export const venueWithSectionsSchema: Schema<Venue> = object({
+  _id: string,
+  name: string,
+  address: addressSchema,
+  sections: (value, path) => (value === undefined ? [] : array(venueSectionSchema)(value, path)),
+  totalSeats: optional(number),
+});
+
+export const venueDetailSchema: Schema<VenueDetail> = object({
+  _id: string,
+  name: string,
+  address: addressSchema,
+  sections: (value, path) => (value === undefined ? [] : array(venueSectionSchema)(value, path)),
+  totalSeats: optional(number),
+  seatMapSvg: optional(string),
+  layoutVersion: number,
+  versions: (value, path) =>
+    value === undefined
+      ? []
+      : array(
+          object({
+            version: number,
+            createdAt: string,
+            createdBy: optional(object({ _id: string, name: string })),
+            note: optional(string),
+          })
+        )(value, path),
+  events: (value, path) =>
+    value === undefined
+      ? []
+      : array(
+          object({
+            _id: string,
+            title: string,
+            eventDate: string,
+            status: eventStatus,
+            layoutVersion: number,
+            soldBySection: (sold, soldPath) => (sold === undefined ? {} : record(number)(sold, soldPath)),
+          })
+        )(value, path),
+});
+
+export const pricingZoneSchema: Schema<PricingZone> = object({
+  name: string,
+  price: number,
+  currency: string,
+  available: number,
+});
+
+export const eventSchema: Schema<Event> = object({
+  _id: string,
+  title: string,
+  slug: string,
+  description: string,
+  eventType,
+  imageUrl: optional(string),
+  eventDate: string,
+  eventEndDate: optional(string),
+  doorOpenTime: optional(string),
+  venueId: venueSchema,
+  pricingZones: record(pricingZoneSchema),
+  sectionZones: optional(record(string)),
+  seatZones: optional(record(string)),
+  seatingRules: optional(
+    object({
+      orphanSeats: optional(oneOf(['off', 'warn', 'block'] as const)),
+      maxOrphanSize: optional(number),
+    })
+  ),
+  refundPolicy: optional(
+    object({
+      tiers: array(object({ hoursBefore: number, percent: number })),
+      refundFees: boolean,
+    })
+  ),
+  status: eventStatus,
+  totalCapacity: number,
+  soldCount: number,
+  createdAt: string,
+  updatedAt: string,
+});
+
+const salesWindowSchema = object({
+  name: string,
+  startsAt: string,
+  endsAt: string,
+  zones: optional(array(string)),
+});
+
+export const eventDraftSchema: Schema<EventDraft> = object({
+  _id: string,
+  status: eventStatus,
+  title: string,
+  description: optional(string),
+  eventType: optional(eventType),
+  imageUrl: optional(string),
+  eventDate: optional(string),
+  eventEndDate: optional(string),
+  doorOpenTime: optional(string),
+  // Populated on some endpoints; the wizard only needs the id
+  venueId: optional((value, path) =>
+    typeof value === 'object' && value !== null ? object({ _id: string })(value, path)._id : string(value, path)
+  ),
+  pricingZones: (value, path) => (value === undefined ? {} : record(pricingZoneSchema)(value, path)),
+  salesWindows: (value, path) => (value === undefined ? [] : array(salesWindowSchema)(value, path)),
+  reviewNote: optional(string),
+  soldCount: (value, path) => (value === undefined ? 0 : number(value, path)),
+  totalCapacity: (value, path) => (value === undefined ? 0 : number(value, path)),
+  updatedAt: string,
+});
+
+export const seatAvailabilitySchema: Schema<SeatAvailability> = object({
+  seatId: string,
+  status: seatStatus,
+  lastUpdated: string,
+});
+
+export const seatPlanSeatSchema: Schema<SeatPlanSeat> = object({
+  id: string,
+  seatId: string,
+  status: seatStatus,
+  lastUpdated: string,
+  section: string,
+  row: string,
+  seat: string,
+  coordinates: optional(object({ x: number, y: number })),
+});
+
+export const seatPlanSchema: Schema<SeatPlanResponse> = object({
+  eventId: string,
+  venueName: string,
+  seatMapSvg: string,
+  sections: array(string),
+  seats: array(seatPlanSeatSchema),
+});
+
+export const seatHoldSchema: Schema<SeatHold> = object({
+  holdId: string,
+  seatIds: array(string),
+  expiresAt: string,
+  sessionId: string,
+});
+
+const breakdownSchema = object({
+  subtotal: number,
+  discount: optional(number),
+  fees: number,
+  tax: number,
+  total: number,
+  promoCode: optional(string),
+});
+
+export const orderQuoteSchema: Schema<OrderQuote> = object({
+  subtotal: number,
+  discount: optional(number),
+  fees: number,
+  tax: number,
+  total: number,
+  promoCode: optional(string),
+  currency: string,
+  lines: array(
+    object({
+      type: string,
+      name: string,
+      quantity: number,
+      unitPrice: number,
+      fees: number,
+      total: number,
+    })
+  ),
+  taxJurisdiction: optional(string),
+  taxRate: optional(number),
+  rounding: optional(number),
+});
+
+export const promoCodeSchema: Schema<PromoCode> = object({
+  code: string,
+  description: optional(string),
+});
+
+export const ticketSchema: Schema<Ticket> = object({
+  _id: string,
+  ticketCode: string,
+  qrCodeUrl: string,
+  seatId: string,
+  refundedAt: optional(string),
+  transferredAt: optional(string),
+});
+
+const ticketTransferStatus = oneOf(['pending', 'claimed', 'cancelled'] as const);
+
+export const ticketTransferSchema: Schema<TicketTransfer> = object({
+  _id: string,
+  ticketId: string,
+  orderId: string,
+  seatId: string,
+  recipientEmail: string,
+  recipientName: optional(string),
+  message: optional(string),
+  status: ticketTransferStatus,
+  createdAt: string,
+  claimedAt: optional(string),
+  claimedAsGuest: optional(boolean),
+  cancelledAt: optional(string),
+});
+
+export const transferInviteSchema: Schema<TransferInvite> = object({
+  status: ticketTransferStatus,
+  recipientEmail: string,
+  senderName: string,
+  message: optional(string),
+  seatId: string,
+  event: object({ _id: string, title: string, eventDate: string, venueName: optional(string) }),
+});
+
+export const claimedTicketSchema: Schema<ClaimedTicket> = object({
+  ticket: ticketSchema,
+  orderId: optional(string),
+});
+
+export const refundRequestSchema: Schema<RefundRequest> = object({
+  _id: string,
+  orderId: string,
+  orderNumber: string,
+  event: object({ _id: string, title: string, eventDate: string }),
+  ticketIds: (value, path) => (value === undefined ? [] : array(string)(value, path)),
+  seatIds: array(string),
+  reason: oneOf(['cant_attend', 'event_changed', 'duplicate_purchase', 'other'] as const),
+  note: optional(string),
+  amount: number,
+  status: oneOf(['pending', 'approved', 'denied'] as const),
+  customerEmail: optional(string),
+  requestedAt: string,
+  decidedAt: optional(string),
+  decisionNote: optional(string),
+});
+
+const ticketScanResult = oneOf(['valid', 'already_used', 'wrong_event', 'not_found'] as const);
+
+export const staffTicketSchema: Schema<StaffTicket> = object({
+  ticketCode: string,
+  eventId: string,
+  seatId: string,
+  holderName: optional(string),
+  checkedInAt: optional(string),
+});
+
+export const staffEventSchema: Schema<StaffEvent> = object({
+  _id: string,
+  title: string,
+  eventDate: string,
+  venueName: optional(string),
+});
+
+export const ticketScanResponseSchema: Schema<TicketScanResponse> = object({
+  result: ticketScanResult,
+  ticket: optional(staffTicketSchema),
+});
+
+export const syncedScanSchema: Schema<SyncedScan> = object({
+  ticketCode: string,
+  result: ticketScanResult,
+  ticket: optional(staffTicketSchema),
+});
+
+export const scanLogEntrySchema: Schema<ScanLogEntry> = object({
+  _id: string,
+  eventId: string,
+  ticketCode: string,
+  result: ticketScanResult,
+  gate: optional(string),
+  scannedBy: object({ _id: string, name: string }),
+  scannedAt: string,
+  offline: optional(boolean),
+});
+
+export const ticketScanHistorySchema: Schema<TicketScanHistory> = object({
+  ticket: optional(staffTicketSchema),
+  scans: (value, path) => (value === undefined ? [] : array(scanLogEntrySchema)(value, path)),
+});
+
+export const orderSchema: Schema<Order> = object({
+  _id: string,
+  orderNumber: string,
+  eventId: union(
+    string,
+    object({ _id: string, title: string, eventDate: optional(string), venueName: optional(string) })
+  ),
+  seatIds: array(string),
+  customerInfo: optional(
+    object({
+      email: string,
+      firstName: string,
+      lastName: string,
+      phoneNumber: optional(string),
+    })
+  ),
+  guestEmail: optional(string),
+  breakdown: breakdownSchema,
+  paymentStatus: string,
+  status: optional(oneOf(['pending', 'paid', 'cancelled', 'refunded'] as const)),
+  // Tickets only exist once the order is finalized
+  ticketIds: (value, path) => (value === undefined ? [] : array(ticketSchema)(value, path)),
+  paidAt: optional(string),
+  finalizedAt: optional(string),
+  refundedAt: optional(string),
+  cancelledAt: optional(string),
+  createdAt: string,
+  updatedAt: string,
+});
+
+export const checkoutIntentSchema: Schema<CheckoutIntent> = object({
+  orderId: string,
+  orderNumber: string,
+  paymentStatus: string,
+  paymentIntentClientSecret: string,
+  breakdown: breakdownSchema,
+});
+
+export const reviewEventSchema: Schema<ReviewEvent> = object({
+  _id: string,
+  title: string,
+  slug: string,
+  eventDate: string,
+  status: eventStatus,
+  organizer: object({ _id: string, name: string, email: optional(string) }),
+  submittedAt: string,
+  lastReviewedAt: optional(string),
+  reviewNote: optional(string),
+  changes: (value, path) =>
+    value === undefined ? [] : array(object({ field: string, previous: unknown, current: unknown }))(value, path),
+});
+
+export const adminUserSchema: Schema<AdminUser> = object({
+  _id: string,
+  name: string,
+  email: string,
+  role: oneOf(['user', 'organizer', 'admin'] as const),
+  status: oneOf(['active', 'pending', 'suspended'] as const),
+  createdAt: string,
+  lastLoginAt: optional(string),
+  lastAdminChange: optional(
+    object({
+      action: oneOf(['change_role', 'suspend', 'reactivate', 'delete', 'force_password_reset'] as const),
+      reason: string,
+      performedBy: object({ _id: string, name: string }),
+      performedAt: string,
+    })
+  ),
+});
+
+export const eventSalesStatsSchema: Schema<EventSalesStats> = object({
+  eventId: string,
+  soldCount: number,
+  totalCapacity: number,
+  heldCount: number,
+  checkedInCount: number,
+  revenue: number,
+  currency: string,
+  revenueByZone: record(object({ sold: number, revenue: number })),
+  salesVelocity: object({
+    lastHour: number,
+    last24Hours: number,
+    last7Days: number,
+  }),
+});
+
+export const salesSummarySchema: Schema<SalesSummary> = object({
+  revenueByCurrency: record(number),
+  paidOrders: number,
+});
@@ -1,4 +1,5 @@
 import { io, Socket } from 'socket.io-client';
+import type { ScanLogEntry } from './api';
 
 // Prefer explicit WS URL, otherwise derive host/port from API URL, finally default to local backend port
 const resolveWebSocketUrl = (): string => {
@@ -107,10 +108,26 @@ export const disconnectWebSocket = (): void => {
   }
 };
 
-/**
- * Join an event room to receive real-time updates
- */
-export const joinEventRoom = (eventId: string): Promise<void> => {
+// Room joins and seat status requests resolve on the next reply of their kind, whichever event it is for,
+// so they are sent one at a time
+let pendingReply: Promise<unknown> = Promise.resolve();
+const oneAtATime = <T>(task: () => Promise<T>): Promise<T> => {
+  const next = pendingReply.catch(() => undefined).then(task);
+  pendingReply = next;
+  return next;
+};
+
+interface EventRoom {
+  // Hooks currently watching the event; the room is left when the last one stops
+  watchers: number;
+  // Connection the room was joined on. The server drops rooms on disconnect
+  socketId: string | undefined;
+  joined: Promise<void>;
+}
+
+const eventRooms = new Map<string, EventRoom>();
+
+const sendJoinEvent = (eventId: string): Promise<void> => {
   return new Promise((resolve, reject) => {
     const sock = getSocket();
 
@@ -142,18 +159,63 @@ export const joinEventRoom = (eventId: string): Promise<void> => {
 };
 
 /**
- * Leave an event room
+ * Join a watched event room again after a reconnect. Every watcher may call
+ * this from its `connect` handler; the room is only joined once per connection.
  */
-export const leaveEventRoom = (eventId: string): void => {
+export const rejoinEventRoom = (eventId: string): Promise<void> => {
+  const room = eventRooms.get(eventId);
+  if (!room) return Promise.resolve();
+
   const sock = getSocket();
-  sock.emit('leave_event', { eventId });
-  console.log(`📍 Left event room: ${eventId}`);
+  if (room.socketId !== undefined && room.socketId === sock.id) return room.joined;
+
+  room.socketId = sock.id;
+  const joined = oneAtATime(() => sendJoinEvent(eventId)).catch((error) => {
+    // Let the next watcher try again on this connection
+    if (room.joined === joined) room.socketId = undefined;
+    throw error;
+  });
+  room.joined = joined;
+  return joined;
 };
 
 /**
- * Request current seat status for an event
+ * Start watching an event room to receive real-time updates. Watchers of the
+ * same event share one membership; pair every call with `leaveEventRoom`.
+ * Resolves once the room is joined, after the socket connects if it is down.
  */
-export const requestSeatStatus = (eventId: string, seatIds?: string[]): Promise<SeatStatus[]> => {
+export const joinEventRoom = (eventId: string): Promise<void> => {
+  const room = eventRooms.get(eventId) ?? { watchers: 0, socketId: undefined, joined: Promise.resolve() };
+  room.watchers += 1;
+  eventRooms.set(eventId, room);
+
+  const sock = getSocket();
+  if (sock.connected) return rejoinEventRoom(eventId);
+  return new Promise<void>((resolve) => sock.once('connect', () => resolve())).then(() => rejoinEventRoom(eventId));
+};
+
+/**
+ * Stop watching an event room; it is left when no watcher is left
+ */
+export const leaveEventRoom = (eventId: string): void => {
+  const room = eventRooms.get(eventId);
+  if (!room) return;
+  room.watchers -= 1;
+  if (room.watchers > 0) return;
+  eventRooms.delete(eventId);
+
+  // Left once the join settles, so a join still in flight can't put us back in; skipped if a new watcher took over
+  room.joined.then(
+    () => {
+      if (eventRooms.has(eventId)) return;
+      getSocket().emit('leave_event', { eventId });
+      console.log(`📍 Left event room: ${eventId}`);
+    },
+    () => undefined
+  );
+};
+
+const sendSeatStatusRequest = (eventId: string, seatIds?: string[]): Promise<SeatStatus[]> => {
   return new Promise((resolve, reject) => {
     const sock = getSocket();
 
@@ -182,6 +244,12 @@ export const requestSeatStatus = (eventId: string, seatIds?: string[]): Promise<
   });
 };
 
+/**
+ * Request current seat status for an event
+ */
+export const requestSeatStatus = (eventId: string, seatIds?: string[]): Promise<SeatStatus[]> =>
+  oneAtATime(() => sendSeatStatusRequest(eventId, seatIds));
+
 // Type definitions
 export interface SeatStatus {
   seatId: string;
@@ -217,4 +285,9 @@ export interface ViewersUpdate {
   count: number;
 }
 
+export interface TicketScanned {
+  eventId: string;
+  scan: ScanLogEntry;
+}
+
 export { getSessionId };
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so unit tests don't need the React plugin
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});